@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "links" ADD COLUMN "active_from" DATETIME;
+ALTER TABLE "links" ADD COLUMN "active_until" DATETIME;
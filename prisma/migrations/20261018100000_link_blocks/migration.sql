@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_links" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bio_page_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'link',
+    "parent_id" TEXT,
+    "title" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "icon_name" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "is_collapsed" BOOLEAN NOT NULL DEFAULT false,
+    "order_index" INTEGER NOT NULL,
+    "active_from" DATETIME,
+    "active_until" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "links_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "links_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "links" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_links" ("active_from", "active_until", "bio_page_id", "created_at", "icon_name", "id", "is_active", "order_index", "title", "updated_at", "url") SELECT "active_from", "active_until", "bio_page_id", "created_at", "icon_name", "id", "is_active", "order_index", "title", "updated_at", "url" FROM "links";
+DROP TABLE "links";
+ALTER TABLE "new_links" RENAME TO "links";
+CREATE INDEX "links_bio_page_id_parent_id_order_index_idx" ON "links"("bio_page_id", "parent_id", "order_index");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "links" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'url';
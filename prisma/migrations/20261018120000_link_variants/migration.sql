@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "link_variants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "link_id" TEXT NOT NULL,
+    "title" TEXT,
+    "url" TEXT,
+    "weight" INTEGER NOT NULL DEFAULT 50,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "link_variants_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_analytics_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bio_page_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "link_id" TEXT,
+    "variant_id" TEXT,
+    "visitor_ip_hash" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "referrer" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "analytics_events_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "analytics_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "analytics_events_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "analytics_events_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "link_variants" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_analytics_events" ("bio_page_id", "created_at", "event_type", "id", "link_id", "referrer", "user_agent", "user_id", "visitor_ip_hash") SELECT "bio_page_id", "created_at", "event_type", "id", "link_id", "referrer", "user_agent", "user_id", "visitor_ip_hash" FROM "analytics_events";
+DROP TABLE "analytics_events";
+ALTER TABLE "new_analytics_events" RENAME TO "analytics_events";
+CREATE INDEX "analytics_events_bio_page_id_event_type_created_at_idx" ON "analytics_events"("bio_page_id", "event_type", "created_at");
+CREATE INDEX "analytics_events_user_id_event_type_created_at_idx" ON "analytics_events"("user_id", "event_type", "created_at");
+CREATE INDEX "analytics_events_visitor_ip_hash_bio_page_id_created_at_idx" ON "analytics_events"("visitor_ip_hash", "bio_page_id", "created_at");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "link_variants_link_id_idx" ON "link_variants"("link_id");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "link_rules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "link_id" TEXT NOT NULL,
+    "condition_type" TEXT NOT NULL,
+    "condition_value" TEXT NOT NULL,
+    "target_url" TEXT NOT NULL,
+    "order_index" INTEGER NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "link_rules_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "link_rules_link_id_order_index_idx" ON "link_rules"("link_id", "order_index");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "links" ADD COLUMN "gate_type" TEXT;
+ALTER TABLE "links" ADD COLUMN "gate_password_hash" TEXT;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "links" ADD COLUMN "health_status" TEXT NOT NULL DEFAULT 'unknown';
+ALTER TABLE "links" ADD COLUMN "health_failures" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "links" ADD COLUMN "health_checked_at" DATETIME;
+ALTER TABLE "links" ADD COLUMN "health_check_due_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "link_health_checks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "link_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "ok" BOOLEAN NOT NULL,
+    "status_code" INTEGER,
+    "error" TEXT,
+    "response_time_ms" INTEGER NOT NULL,
+    "checked_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "link_health_checks_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "links_health_check_due_at_idx" ON "links"("health_check_due_at");
+
+-- CreateIndex
+CREATE INDEX "link_health_checks_link_id_checked_at_idx" ON "link_health_checks"("link_id", "checked_at");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "bio_pages" ADD COLUMN "outbound_params" TEXT;
+
+-- AlterTable
+ALTER TABLE "links" ADD COLUMN "outbound_params" TEXT;
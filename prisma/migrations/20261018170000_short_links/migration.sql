@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "analytics_events" ADD COLUMN "source" TEXT;
+
+-- CreateTable
+CREATE TABLE "short_links" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "bio_page_id" TEXT NOT NULL,
+    "link_id" TEXT,
+    "is_custom" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "short_links_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "short_links_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "short_links_slug_key" ON "short_links"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "short_links_link_id_key" ON "short_links"("link_id");
+
+-- CreateIndex
+CREATE INDEX "short_links_bio_page_id_idx" ON "short_links"("bio_page_id");
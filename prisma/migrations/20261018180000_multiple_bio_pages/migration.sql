@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "bio_pages_user_id_key";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_bio_pages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "theme_id" TEXT NOT NULL DEFAULT 'default',
+    "custom_colors" TEXT,
+    "is_published" BOOLEAN NOT NULL DEFAULT true,
+    "outbound_params" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "bio_pages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "bio_pages_theme_id_fkey" FOREIGN KEY ("theme_id") REFERENCES "themes" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+-- Each account's existing page becomes its primary page
+INSERT INTO "new_bio_pages" ("created_at", "custom_colors", "id", "is_primary", "is_published", "outbound_params", "slug", "theme_id", "updated_at", "user_id") SELECT "created_at", "custom_colors", "id", true, "is_published", "outbound_params", 'home', "theme_id", "updated_at", "user_id" FROM "bio_pages";
+DROP TABLE "bio_pages";
+ALTER TABLE "new_bio_pages" RENAME TO "bio_pages";
+CREATE UNIQUE INDEX "bio_pages_user_id_slug_key" ON "bio_pages"("user_id", "slug");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
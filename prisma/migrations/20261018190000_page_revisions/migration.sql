@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "bio_page_revisions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bio_page_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "restored_from" INTEGER,
+    "published_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "bio_page_revisions_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Publish what each page currently shows as its first revision
+INSERT INTO "bio_page_revisions" ("id", "bio_page_id", "number", "snapshot")
+SELECT 'rev' || lower(hex(randomblob(12))), "bio_pages"."id", 1, json_object(
+    'version', 1,
+    'themeId', "bio_pages"."theme_id",
+    'customColors', "bio_pages"."custom_colors",
+    'outboundParams', "bio_pages"."outbound_params",
+    'links', (
+        SELECT json_group_array(json("link")) FROM (
+            SELECT json_object(
+                'id', "id",
+                'kind', "kind",
+                'type', "type",
+                'parentId', "parent_id",
+                'title', "title",
+                'url', "url",
+                'iconName', "icon_name",
+                'isActive', json(CASE WHEN "is_active" THEN 'true' ELSE 'false' END),
+                'isCollapsed', json(CASE WHEN "is_collapsed" THEN 'true' ELSE 'false' END),
+                'orderIndex', "order_index",
+                'activeFrom', "active_from",
+                'activeUntil', "active_until",
+                'gateType', "gate_type",
+                'gatePasswordHash', "gate_password_hash",
+                'outboundParams', "outbound_params"
+            ) AS "link"
+            FROM "links"
+            WHERE "links"."bio_page_id" = "bio_pages"."id"
+            ORDER BY "order_index"
+        )
+    )
+)
+FROM "bio_pages";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_bio_pages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "theme_id" TEXT NOT NULL DEFAULT 'default',
+    "custom_colors" TEXT,
+    "is_published" BOOLEAN NOT NULL DEFAULT true,
+    "outbound_params" TEXT,
+    "published_revision_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "bio_pages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "bio_pages_published_revision_id_fkey" FOREIGN KEY ("published_revision_id") REFERENCES "bio_page_revisions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bio_pages_theme_id_fkey" FOREIGN KEY ("theme_id") REFERENCES "themes" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_bio_pages" ("created_at", "custom_colors", "id", "is_primary", "is_published", "outbound_params", "published_revision_id", "slug", "theme_id", "updated_at", "user_id") SELECT "created_at", "custom_colors", "id", "is_primary", "is_published", "outbound_params", (SELECT "id" FROM "bio_page_revisions" WHERE "bio_page_revisions"."bio_page_id" = "bio_pages"."id"), "slug", "theme_id", "updated_at", "user_id" FROM "bio_pages";
+DROP TABLE "bio_pages";
+ALTER TABLE "new_bio_pages" RENAME TO "bio_pages";
+CREATE UNIQUE INDEX "bio_pages_published_revision_id_key" ON "bio_pages"("published_revision_id");
+CREATE UNIQUE INDEX "bio_pages_user_id_slug_key" ON "bio_pages"("user_id", "slug");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bio_page_revisions_bio_page_id_number_key" ON "bio_page_revisions"("bio_page_id", "number");
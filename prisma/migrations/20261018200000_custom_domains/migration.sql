@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "custom_domains" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "hostname" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "bio_page_id" TEXT NOT NULL,
+    "verification_token" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "verified_at" DATETIME,
+    "last_checked_at" DATETIME,
+    "last_error" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "custom_domains_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "custom_domains_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_domains_hostname_key" ON "custom_domains"("hostname");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_domains_bio_page_id_key" ON "custom_domains"("bio_page_id");
+
+-- CreateIndex
+CREATE INDEX "custom_domains_user_id_idx" ON "custom_domains"("user_id");
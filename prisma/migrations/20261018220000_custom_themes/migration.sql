@@ -0,0 +1,23 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_themes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "is_premium" BOOLEAN NOT NULL DEFAULT false,
+    "preview_image_url" TEXT,
+    "css_template" TEXT NOT NULL,
+    "color_variables" TEXT NOT NULL,
+    "owner_id" TEXT,
+    "settings" TEXT,
+    "custom_css" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "themes_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_themes" ("color_variables", "created_at", "css_template", "id", "is_premium", "name", "preview_image_url", "updated_at") SELECT "color_variables", "created_at", "css_template", "id", "is_premium", "name", "preview_image_url", "created_at" FROM "themes";
+DROP TABLE "themes";
+ALTER TABLE "new_themes" RENAME TO "themes";
+CREATE INDEX "themes_owner_id_idx" ON "themes"("owner_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
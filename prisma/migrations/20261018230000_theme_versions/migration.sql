@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "themes" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "themes" ADD COLUMN "tags" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "themes" ADD COLUMN "retired_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "theme_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "theme_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "css_template" TEXT NOT NULL,
+    "color_variables" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "theme_versions_theme_id_fkey" FOREIGN KEY ("theme_id") REFERENCES "themes" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "theme_versions_theme_id_version_key" ON "theme_versions"("theme_id", "version");
+
+-- Existing themes become their first version, which revisions published so far were showing
+INSERT INTO "theme_versions" ("id", "theme_id", "version", "css_template", "color_variables", "created_at")
+SELECT lower(hex(randomblob(12))), "id", 1, "css_template", "color_variables", CURRENT_TIMESTAMP FROM "themes";
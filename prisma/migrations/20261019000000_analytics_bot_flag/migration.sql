@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "analytics_events" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "analytics_events" ADD COLUMN "device_type" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "os" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "browser" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "browser_version" TEXT;
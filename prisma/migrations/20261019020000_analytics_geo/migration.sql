@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "analytics_events" ADD COLUMN "country" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "region" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "city" TEXT;
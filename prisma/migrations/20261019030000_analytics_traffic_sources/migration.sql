@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "analytics_events" ADD COLUMN "referrer_source" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "channel" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "utm_source" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "utm_medium" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "utm_campaign" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "utm_term" TEXT;
+ALTER TABLE "analytics_events" ADD COLUMN "utm_content" TEXT;
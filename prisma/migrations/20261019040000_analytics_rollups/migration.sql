@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "analytics_rollups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bio_page_id" TEXT NOT NULL,
+    "link_id" TEXT,
+    "granularity" TEXT NOT NULL,
+    "bucket_start" DATETIME NOT NULL,
+    "is_bot" BOOLEAN NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "visitors" BLOB,
+    CONSTRAINT "analytics_rollups_bio_page_id_fkey" FOREIGN KEY ("bio_page_id") REFERENCES "bio_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "analytics_rollups_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "links" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "analytics_rollup_state" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "rolled_up_to" DATETIME NOT NULL,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "analytics_rollups_bio_page_id_granularity_bucket_start_idx" ON "analytics_rollups"("bio_page_id", "granularity", "bucket_start");
+
+-- CreateIndex
+CREATE INDEX "analytics_rollups_granularity_bucket_start_idx" ON "analytics_rollups"("granularity", "bucket_start");
+
+-- CreateIndex
+CREATE INDEX "analytics_events_created_at_idx" ON "analytics_events"("created_at");
@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { serializeSnapshot, takeSnapshot } from '../src/utils/pageSnapshot';
+import { BUILT_IN_THEMES } from '../src/config/themes';
 
 const prisma = new PrismaClient();
 
@@ -6,55 +8,18 @@ async function main() {
   console.log('🌱 Seeding database...');
 
   // Create default themes
-  const themes = [
-    {
-      id: 'default',
-      name: 'Default',
-      isPremium: false,
-      previewImageUrl: '/themes/default-preview.png',
-      cssTemplate: '.bio-page { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }',
-      colorVariables: JSON.stringify(['primary', 'secondary', 'background', 'text'])
-    },
-    {
-      id: 'minimal',
-      name: 'Minimal',
-      isPremium: false,
-      previewImageUrl: '/themes/minimal-preview.png',
-      cssTemplate: '.bio-page { background: #ffffff; color: #333333; }',
-      colorVariables: JSON.stringify(['primary', 'secondary', 'background', 'text'])
-    },
-    {
-      id: 'dark',
-      name: 'Dark Mode',
-      isPremium: false,
-      previewImageUrl: '/themes/dark-preview.png',
-      cssTemplate: '.bio-page { background: #1a1a1a; color: #ffffff; }',
-      colorVariables: JSON.stringify(['primary', 'secondary', 'background', 'text'])
-    },
-    {
-      id: 'glass',
-      name: 'Glass Morphism',
-      isPremium: true,
-      previewImageUrl: '/themes/glass-preview.png',
-      cssTemplate: '.bio-page { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); backdrop-filter: blur(20px); }',
-      colorVariables: JSON.stringify(['primary', 'secondary', 'background', 'text'])
-    },
-    {
-      id: 'gradient-pro',
-      name: 'Gradient Pro',
-      isPremium: true,
-      previewImageUrl: '/themes/gradient-pro-preview.png',
-      cssTemplate: '.bio-page { background: linear-gradient(45deg, #ff9a9e 0%, #fecfef 100%); }',
-      colorVariables: JSON.stringify(['primary', 'secondary', 'background', 'text'])
-    }
-  ];
+  const themes = BUILT_IN_THEMES;
 
   // Insert themes
   for (const theme of themes) {
     await prisma.theme.upsert({
       where: { id: theme.id },
-      update: theme,
-      create: theme,
+      // Styles are versioned, so existing themes get new ones through the admin API instead
+      update: { name: theme.name, isPremium: theme.isPremium, previewImageUrl: theme.previewImageUrl, tags: theme.tags },
+      create: {
+        ...theme,
+        versions: { create: { version: 1, cssTemplate: theme.cssTemplate, colorVariables: theme.colorVariables } },
+      },
     });
   }
 
@@ -77,10 +42,12 @@ async function main() {
 
   // Create demo bio page
   const demoBioPage = await prisma.bioPage.upsert({
-    where: { userId: demoUser.id },
+    where: { userId_slug: { userId: demoUser.id, slug: 'home' } },
     update: {},
     create: {
       userId: demoUser.id,
+      slug: 'home',
+      isPrimary: true,
       themeId: 'default',
       isPublished: true,
     },
@@ -118,6 +85,23 @@ async function main() {
     });
   }
 
+  // Visitors see the published revision, so publish the demo links
+  if (!demoBioPage.publishedRevisionId) {
+    const links = await prisma.link.findMany({ where: { bioPageId: demoBioPage.id } });
+    const revision = await prisma.bioPageRevision.create({
+      data: {
+        bioPageId: demoBioPage.id,
+        number: 1,
+        snapshot: serializeSnapshot(takeSnapshot(demoBioPage, links))
+      }
+    });
+
+    await prisma.bioPage.update({
+      where: { id: demoBioPage.id },
+      data: { publishedRevisionId: revision.id }
+    });
+  }
+
   console.log('👤 Created demo user: demoaccount');
   console.log('🔗 Created demo bio page with 3 links');
   console.log('🌐 Visit: http://localhost:3000/demoaccount');
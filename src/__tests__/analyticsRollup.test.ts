@@ -0,0 +1,174 @@
+import prisma from '../config/database';
+import { AnalyticsRollupService } from '../services/analyticsRollupService';
+import { HyperLogLog } from '../utils/hyperLogLog';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    analyticsEvent: { findMany: jest.fn(), findFirst: jest.fn() },
+    analyticsRollup: { findMany: jest.fn(), groupBy: jest.fn(), deleteMany: jest.fn(), createMany: jest.fn() },
+    analyticsRollupState: { findUnique: jest.fn(), upsert: jest.fn() },
+    $transaction: jest.fn(async (operations: unknown[]) => operations)
+  }
+}));
+
+const findEvents = prisma.analyticsEvent.findMany as unknown as jest.Mock;
+const findRollups = prisma.analyticsRollup.findMany as unknown as jest.Mock;
+const groupRollups = prisma.analyticsRollup.groupBy as unknown as jest.Mock;
+const deleteRollups = prisma.analyticsRollup.deleteMany as unknown as jest.Mock;
+const createRollups = prisma.analyticsRollup.createMany as unknown as jest.Mock;
+const findState = prisma.analyticsRollupState.findUnique as unknown as jest.Mock;
+const saveState = prisma.analyticsRollupState.upsert as unknown as jest.Mock;
+
+const sketchOf = (...visitors: string[]): Buffer => {
+  const sketch = new HyperLogLog();
+  visitors.forEach(visitor => sketch.add(visitor));
+  return sketch.toBuffer();
+};
+
+const event = (eventType: string, visitorIpHash: string, extra: Record<string, unknown> = {}) => ({
+  id: `${eventType}-${visitorIpHash}`,
+  bioPageId: 'p1',
+  linkId: null,
+  eventType,
+  visitorIpHash,
+  isBot: false,
+  ...extra
+});
+
+describe('analytics rollups', () => {
+  const service = new AnalyticsRollupService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findEvents.mockResolvedValue([]);
+    findRollups.mockResolvedValue([]);
+    groupRollups.mockResolvedValue([]);
+  });
+
+  describe('rollUp', () => {
+    it('rolls up each settled hour per page and link, keeping bots apart, then moves on', async () => {
+      findState.mockResolvedValue({ rolledUpTo: new Date('2026-10-18T10:00:00Z') });
+      findEvents.mockResolvedValueOnce([
+        event('page_view', 'ip-a'),
+        event('page_view', 'ip-b'),
+        event('link_click', 'ip-a', { linkId: 'l1' }),
+        event('variant_impression', 'ip-c', { linkId: 'l1' }),
+        event('page_view', 'ip-bot', { isBot: true })
+      ]);
+
+      // 11:03 is still inside the settling time for the 10:00-11:00 hour's stragglers
+      expect(await service.rollUp(new Date('2026-10-18T11:03:00Z'))).toMatchObject({ hours: 0 });
+
+      const summary = await service.rollUp(new Date('2026-10-18T11:07:00Z'));
+
+      expect(summary).toEqual({ hours: 1, rows: 3, rolledUpTo: new Date('2026-10-18T11:00:00Z') });
+      expect(findEvents.mock.calls[0][0].where).toEqual({
+        createdAt: { gte: new Date('2026-10-18T10:00:00Z'), lt: new Date('2026-10-18T11:00:00Z') }
+      });
+      expect(deleteRollups).toHaveBeenCalledWith({ where: { granularity: 'hour', bucketStart: new Date('2026-10-18T10:00:00Z') } });
+
+      const rows = createRollups.mock.calls[0][0].data;
+      // Link rows only count clicks, so they carry no visitor sketch
+      expect(rows.map(({ visitors, ...row }: { visitors: Buffer | null }) => ({
+        ...row,
+        uniqueVisitors: visitors ? new HyperLogLog(visitors).count() : null
+      }))).toEqual([
+        { bioPageId: 'p1', linkId: null, granularity: 'hour', bucketStart: new Date('2026-10-18T10:00:00Z'), isBot: false, views: 2, clicks: 1, uniqueVisitors: 3 },
+        { bioPageId: 'p1', linkId: 'l1', granularity: 'hour', bucketStart: new Date('2026-10-18T10:00:00Z'), isBot: false, views: 0, clicks: 1, uniqueVisitors: null },
+        { bioPageId: 'p1', linkId: null, granularity: 'hour', bucketStart: new Date('2026-10-18T10:00:00Z'), isBot: true, views: 1, clicks: 0, uniqueVisitors: 1 }
+      ]);
+      expect(saveState).toHaveBeenCalledWith(expect.objectContaining({ update: { rolledUpTo: new Date('2026-10-18T11:00:00Z') } }));
+    });
+
+    it('builds the daily rows once the last hour of a day is in', async () => {
+      findState.mockResolvedValue({ rolledUpTo: new Date('2026-10-17T23:00:00Z') });
+      groupRollups.mockResolvedValue([{ bioPageId: 'p1' }]);
+      findRollups.mockResolvedValue([
+        { linkId: null, isBot: false, views: 4, clicks: 1, visitors: sketchOf('ip-a', 'ip-b') },
+        { linkId: null, isBot: false, views: 2, clicks: 2, visitors: sketchOf('ip-b', 'ip-c') },
+        { linkId: 'l1', isBot: false, views: 0, clicks: 2, visitors: null }
+      ]);
+
+      const summary = await service.rollUp(new Date('2026-10-18T00:30:00Z'));
+
+      expect(summary).toMatchObject({ hours: 1, rolledUpTo: new Date('2026-10-18T00:00:00Z') });
+      expect(deleteRollups).toHaveBeenLastCalledWith({
+        where: { granularity: 'day', bucketStart: new Date('2026-10-17T00:00:00Z'), bioPageId: 'p1' }
+      });
+
+      const [day, link] = createRollups.mock.calls[1][0].data;
+      expect(day).toMatchObject({ granularity: 'day', bucketStart: new Date('2026-10-17T00:00:00Z'), views: 6, clicks: 3 });
+      expect(new HyperLogLog(day.visitors).count()).toBe(3);
+      expect(link).toMatchObject({ linkId: 'l1', clicks: 2, visitors: null });
+    });
+
+    it('starts from the first event when it has never run', async () => {
+      findState.mockResolvedValue(null);
+      (prisma.analyticsEvent.findFirst as jest.Mock).mockResolvedValue({ createdAt: new Date('2026-10-18T08:42:00Z') });
+
+      const summary = await service.rollUp(new Date('2026-10-18T10:30:00Z'));
+
+      expect(summary).toMatchObject({ hours: 2, rolledUpTo: new Date('2026-10-18T10:00:00Z') });
+    });
+  });
+
+  describe('getPageTotals', () => {
+    it('reads whole days and hours from the rollups and only the rest from events', async () => {
+      findState.mockResolvedValue({ rolledUpTo: new Date('2026-10-18T12:00:00Z') });
+      findRollups.mockResolvedValue([
+        { bucketStart: new Date('2026-10-16T00:00:00Z'), views: 5, clicks: 2, visitors: sketchOf('ip-a', 'ip-b') },
+        { bucketStart: new Date('2026-10-18T09:00:00Z'), views: 1, clicks: 0, visitors: sketchOf('ip-a') }
+      ]);
+      groupRollups.mockResolvedValue([{ linkId: 'l1', _sum: { clicks: 2 } }]);
+      findEvents.mockResolvedValue([
+        { eventType: 'page_view', linkId: null, visitorIpHash: 'ip-a', createdAt: new Date('2026-10-18T12:10:00Z') },
+        { eventType: 'link_click', linkId: 'l1', visitorIpHash: 'ip-c', createdAt: new Date('2026-10-18T12:11:00Z') }
+      ]);
+
+      const totals = await service.getPageTotals('p1', new Date('2026-10-15T09:30:00Z'), new Date('2026-10-18T12:40:00Z'), false);
+
+      expect(findRollups.mock.calls[0][0].where).toEqual({
+        bioPageId: 'p1',
+        linkId: null,
+        isBot: false,
+        OR: [
+          { granularity: 'hour', bucketStart: { gte: new Date('2026-10-15T10:00:00Z'), lt: new Date('2026-10-16T00:00:00Z') } },
+          { granularity: 'day', bucketStart: { gte: new Date('2026-10-16T00:00:00Z'), lt: new Date('2026-10-18T00:00:00Z') } },
+          { granularity: 'hour', bucketStart: { gte: new Date('2026-10-18T00:00:00Z'), lt: new Date('2026-10-18T12:00:00Z') } }
+        ]
+      });
+      expect(findEvents.mock.calls[0][0].where).toEqual({
+        bioPageId: 'p1',
+        isBot: false,
+        OR: [
+          { createdAt: { gte: new Date('2026-10-15T09:30:00Z'), lt: new Date('2026-10-15T10:00:00Z') } },
+          { createdAt: { gte: new Date('2026-10-18T12:00:00Z'), lte: new Date('2026-10-18T12:40:00Z') } }
+        ]
+      });
+
+      expect(totals).toEqual({
+        totalViews: 7,
+        totalClicks: 3,
+        uniqueVisitors: 3, // ip-a is in both rollups and the recent events, and counts once
+        linkClicks: new Map([['l1', 3]]),
+        days: new Map([
+          ['2026-10-16', { views: 5, clicks: 2, uniqueVisitors: 2 }],
+          ['2026-10-18', { views: 2, clicks: 1, uniqueVisitors: 2 }]
+        ])
+      });
+    });
+
+    it('reads events only before the job has run', async () => {
+      findState.mockResolvedValue(null);
+
+      await service.getPageTotals('p1', new Date('2026-10-01T00:00:00Z'), new Date('2026-10-18T12:00:00Z'), true);
+
+      expect(findRollups).not.toHaveBeenCalled();
+      expect(findEvents.mock.calls[0][0].where).toEqual({
+        bioPageId: 'p1',
+        OR: [{ createdAt: { gte: new Date('2026-10-01T00:00:00Z'), lte: new Date('2026-10-18T12:00:00Z') } }]
+      });
+    });
+  });
+});
\ No newline at end of file
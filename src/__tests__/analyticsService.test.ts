@@ -0,0 +1,217 @@
+import prisma from '../config/database';
+import { AnalyticsService } from '../services/analyticsService';
+import { SubscriptionService } from '../services/subscriptionService';
+import { AnalyticsRollupService } from '../services/analyticsRollupService';
+import { PlanLimitError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    bioPage: { findFirst: jest.fn() },
+    link: { findFirst: jest.fn() },
+    analyticsEvent: { count: jest.fn(), findMany: jest.fn(), groupBy: jest.fn() }
+  }
+}));
+
+jest.mock('../services/subscriptionService');
+jest.mock('../services/analyticsRollupService');
+
+const findPage = prisma.bioPage.findFirst as unknown as jest.Mock;
+const findLink = prisma.link.findFirst as unknown as jest.Mock;
+const countEvents = prisma.analyticsEvent.count as unknown as jest.Mock;
+const findEvents = prisma.analyticsEvent.findMany as unknown as jest.Mock;
+const groupEvents = prisma.analyticsEvent.groupBy as unknown as jest.Mock;
+const getPageTotals = AnalyticsRollupService.prototype.getPageTotals as jest.Mock;
+
+describe('audience breakdowns', () => {
+  const service = new AnalyticsService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SubscriptionService.prototype.getEntitlements as jest.Mock).mockResolvedValue({ analyticsRetentionDays: null, advancedAnalytics: true });
+    findPage.mockResolvedValue({ id: 'p1', links: [{ id: 'l1', title: 'Shop', url: 'https://shop.example.com' }] });
+    getPageTotals.mockResolvedValue({
+      totalViews: 10,
+      totalClicks: 4,
+      uniqueVisitors: 6,
+      linkClicks: new Map([['l2', 1], ['l1', 3]]),
+      days: new Map([['2026-10-17', { views: 10, clicks: 4, uniqueVisitors: 6 }]])
+    });
+    countEvents.mockImplementation(async ({ where }) => (where.eventType === 'page_view' ? 10 : 4));
+    findEvents.mockResolvedValue([]);
+    groupEvents.mockImplementation(async ({ by }) => {
+      if (by[0] === 'deviceType') {
+        return [
+          { deviceType: 'mobile', eventType: 'page_view', _count: { id: 7 } },
+          { deviceType: 'mobile', eventType: 'link_click', _count: { id: 3 } },
+          { deviceType: 'desktop', eventType: 'page_view', _count: { id: 2 } },
+          { deviceType: null, eventType: 'page_view', _count: { id: 1 } }
+        ];
+      }
+      if (by[0] === 'city') {
+        return [
+          { city: 'Lyon', region: 'Auvergne-Rhône-Alpes', country: 'FR', eventType: 'page_view', _count: { id: 6 } },
+          { city: 'Lyon', region: 'Auvergne-Rhône-Alpes', country: 'FR', eventType: 'link_click', _count: { id: 2 } },
+          { city: null, region: 'Bavaria', country: 'DE', eventType: 'page_view', _count: { id: 3 } },
+          { city: null, region: null, country: null, eventType: 'page_view', _count: { id: 1 } }
+        ];
+      }
+      if (by[0] === 'channel') {
+        return [
+          { channel: 'search', _count: { id: 2 } },
+          { channel: 'social', _count: { id: 7 } },
+          { channel: null, _count: { id: 1 } }
+        ];
+      }
+      if (by[0] === 'referrerSource') {
+        return [{ referrerSource: 'Instagram', _count: { id: 6 } }, { referrerSource: 'Google', _count: { id: 2 } }];
+      }
+      if (by[0] === 'utmCampaign') {
+        return [{ utmCampaign: 'launch', utmSource: 'newsletter', utmMedium: 'email', _count: { id: 3 } }];
+      }
+      return [];
+    });
+  });
+
+  it('splits views and clicks by device, with each share of views', async () => {
+    const analytics = await service.getBioPageAnalytics('u1');
+
+    expect(analytics.breakdowns?.deviceType).toEqual([
+      { value: 'mobile', views: 7, clicks: 3, share: 0.7 },
+      { value: 'desktop', views: 2, clicks: 0, share: 0.2 },
+      { value: 'unknown', views: 1, clicks: 0, share: 0.1 }
+    ]);
+    expect(analytics.breakdowns?.browser).toEqual([]);
+  });
+
+  it('labels cities with their region and country, and counts unlocated visits as unknown', async () => {
+    const analytics = await service.getBioPageAnalytics('u1');
+
+    expect(analytics.breakdowns?.city).toEqual([
+      { value: 'Lyon, Auvergne-Rhône-Alpes, FR', views: 6, clicks: 2, share: 0.6 },
+      { value: 'unknown', views: 4, clicks: 0, share: 0.4 }
+    ]);
+    expect(groupEvents).toHaveBeenCalledWith(expect.objectContaining({ by: ['region', 'country', 'eventType'] }));
+  });
+
+  it('reports where page views came from', async () => {
+    const { traffic } = await service.getBioPageAnalytics('u1');
+
+    expect(traffic).toEqual({
+      topSources: [{ referrer: 'Instagram', count: 6 }, { referrer: 'Google', count: 2 }],
+      channels: [
+        { channel: 'social', views: 7, share: 0.7 },
+        { channel: 'search', views: 2, share: 0.2 },
+        { channel: 'unknown', views: 1, share: 0.1 }
+      ],
+      campaigns: [{ campaign: 'launch', source: 'newsletter', medium: 'email', views: 3 }]
+    });
+  });
+
+  it('filters by country', async () => {
+    await service.getBioPageAnalytics('u1', { country: 'FR' });
+
+    expect(countEvents.mock.calls[0][0].where).toMatchObject({ country: 'FR' });
+  });
+
+  it('filters every figure by audience and leaves bots out', async () => {
+    await service.getBioPageAnalytics('u1', { deviceType: 'mobile', browser: 'instagram' });
+
+    expect(getPageTotals).not.toHaveBeenCalled();
+
+    const wheres = [...countEvents.mock.calls, ...findEvents.mock.calls, ...groupEvents.mock.calls].map(([args]) => args.where);
+
+    wheres.forEach(where => {
+      expect(where).toMatchObject({ isBot: false, deviceType: 'mobile', browser: 'instagram' });
+    });
+  });
+
+  it('counts bots when asked to', async () => {
+    await service.getBioPageAnalytics('u1', { includeBots: true });
+
+    expect(getPageTotals).toHaveBeenCalledWith('p1', expect.any(Date), expect.any(Date), true);
+    expect(groupEvents.mock.calls[0][0].where).not.toHaveProperty('isBot');
+  });
+
+  it('leaves breakdowns and traffic sources to plans with advanced analytics', async () => {
+    (SubscriptionService.prototype.getEntitlements as jest.Mock).mockResolvedValue({ analyticsRetentionDays: 30, advancedAnalytics: false });
+
+    const analytics = await service.getBioPageAnalytics('u1');
+
+    expect(analytics).toMatchObject({ totalViews: 10, breakdowns: null, traffic: null });
+    expect(groupEvents).not.toHaveBeenCalled();
+    expect(SubscriptionService.prototype.assertFeatureAccess).not.toHaveBeenCalled();
+  });
+
+  it('checks the plan before filtering by audience', async () => {
+    (SubscriptionService.prototype.assertFeatureAccess as jest.Mock).mockRejectedValueOnce(new PlanLimitError('Advanced analytics are not available on the Free plan.', 'advancedAnalytics', 'pro'));
+
+    await expect(service.getBioPageAnalytics('u1', { country: 'FR' })).rejects.toThrow(PlanLimitError);
+    expect(SubscriptionService.prototype.assertFeatureAccess).toHaveBeenCalledWith('u1', 'advancedAnalytics');
+    expect(countEvents).not.toHaveBeenCalled();
+  });
+
+  it('leaves breakdowns and traffic sources out of the summary', async () => {
+    const summary = await service.getAnalyticsSummary('u1');
+
+    expect(summary.last30Days).toMatchObject({ totalViews: 10, totalClicks: 4, uniqueVisitors: 6 });
+    expect(summary.last30Days).not.toHaveProperty('breakdowns');
+    expect(summary.today).not.toHaveProperty('traffic');
+    expect(groupEvents).not.toHaveBeenCalled();
+  });
+
+  it('reads totals from the rollups when no audience filter is set', async () => {
+    const analytics = await service.getBioPageAnalytics('u1', {
+      startDate: new Date('2026-10-16T00:00:00Z'),
+      endDate: new Date('2026-10-18T12:00:00Z')
+    });
+
+    expect(countEvents).not.toHaveBeenCalled();
+    expect(analytics).toMatchObject({ totalViews: 10, totalClicks: 4, uniqueVisitors: 6 });
+    expect(analytics.topLinks).toEqual([
+      { linkId: 'l1', title: 'Shop', url: 'https://shop.example.com', clicks: 3 },
+      { linkId: 'l2', title: 'Unknown Link', url: '', clicks: 1 }
+    ]);
+    expect(analytics.dailyStats).toEqual([
+      { date: '2026-10-16', views: 0, clicks: 0, uniqueVisitors: 0 },
+      { date: '2026-10-17', views: 10, clicks: 4, uniqueVisitors: 6 },
+      { date: '2026-10-18', views: 0, clicks: 0, uniqueVisitors: 0 }
+    ]);
+  });
+});
+
+describe('A/B experiment stats', () => {
+  const service = new AnalyticsService();
+  const impression = (variantId: string, visitor: string) => ({ eventType: 'variant_impression', variantId, visitorIpHash: visitor });
+  const click = (variantId: string, visitor: string) => ({ eventType: 'link_click', variantId, visitorIpHash: visitor });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SubscriptionService.prototype.getEntitlements as jest.Mock).mockResolvedValue({ analyticsRetentionDays: null });
+    findLink.mockResolvedValue({
+      id: 'l1',
+      title: 'Shop',
+      url: 'https://shop.example.com',
+      variants: [
+        { id: 'a', title: null, url: null, weight: 50 },
+        { id: 'b', title: 'Sale', url: 'https://shop.example.com/sale', weight: 50 }
+      ]
+    });
+  });
+
+  it('only counts clickers who were shown the variant towards its CTR', async () => {
+    // Visitors v3 and v4 clicked variant b through its short link without seeing the page
+    findEvents.mockResolvedValue([
+      impression('a', 'v1'), impression('a', 'v2'), click('a', 'v1'),
+      impression('b', 'v5'), click('b', 'v3'), click('b', 'v4'), click('b', 'v4')
+    ]);
+
+    const stats = await service.getLinkExperimentStats('u1', 'l1');
+    const variantB = stats.variants[1];
+
+    expect(stats.variants[0]).toMatchObject({ variantId: 'a', impressions: 2, uniqueClicks: 1, ctr: 0.5 });
+    expect(variantB).toMatchObject({ variantId: 'b', impressions: 1, clicks: 3, uniqueClicks: 2, ctr: 0 });
+    expect(Number.isNaN(variantB?.zScore)).toBe(false);
+    expect(Number.isNaN(variantB?.pValue)).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,197 @@
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
+import prisma from '../config/database';
+import { UserService } from '../services/userService';
+import { processAvatar, AVATAR_SIZES } from '../utils/avatar';
+import { LocalStorageDriver, S3StorageDriver, setStorage } from '../utils/storage';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn(), update: jest.fn() }
+  }
+}));
+
+jest.mock('../services/ogImageService');
+
+const findUser = prisma.user.findUnique as unknown as jest.Mock;
+const updateUser = prisma.user.update as unknown as jest.Mock;
+
+// A landscape photo with EXIF saying it was taken sideways, plus details that shouldn't be published
+const photo = () => sharp({ create: { width: 600, height: 300, channels: 3, background: '#3366cc' } })
+  .jpeg()
+  .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: 'Jane', Model: 'Camera 3000' } } })
+  .toBuffer();
+
+// Enough of S3's API for the driver: path-style PUT, GET and DELETE of objects
+const startS3StandIn = async () => {
+  const objects = new Map<string, { body: Buffer; contentType: string | undefined }>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const key = decodeURIComponent((req.url || '').split('?')[0] as string);
+
+      if (req.method === 'PUT') {
+        objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] });
+        res.writeHead(200, { ETag: '"etag"' }).end();
+      } else if (req.method === 'GET' && objects.has(key)) {
+        res.writeHead(200, { 'Content-Type': objects.get(key)?.contentType || 'application/octet-stream' })
+          .end(objects.get(key)?.body);
+      } else if (req.method === 'GET') {
+        res.writeHead(404, { 'Content-Type': 'application/xml' })
+          .end('<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    objects,
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('avatar processing', () => {
+  it('crops, orients and resizes to square variants without metadata', async () => {
+    const variants = await processAvatar(await photo());
+
+    expect(variants.map(variant => variant.size)).toEqual([...AVATAR_SIZES]);
+
+    for (const variant of variants) {
+      const metadata = await sharp(variant.data).metadata();
+      expect(metadata.format).toBe('webp');
+      expect([metadata.width, metadata.height]).toEqual([variant.size, variant.size]);
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    }
+  });
+
+  it('rejects files that are not supported images', async () => {
+    const gif = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000' } }).gif().toBuffer();
+
+    await expect(processAvatar(Buffer.from('not an image'))).rejects.toThrow(ValidationError);
+    await expect(processAvatar(gif)).rejects.toThrow('Avatar must be one of');
+  });
+});
+
+describe('storage drivers', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'linkhub-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores files on local disk', async () => {
+    const storage = new LocalStorageDriver(directory);
+
+    await storage.put('avatars/u1/a-64.webp', Buffer.from('image'), 'image/webp');
+    expect((await storage.get('avatars/u1/a-64.webp'))?.toString()).toBe('image');
+    expect(storage.url('avatars/u1/a-64.webp')).toBe('/uploads/avatars/u1/a-64.webp');
+
+    await storage.delete('avatars/u1/a-64.webp');
+    await storage.delete('avatars/u1/a-64.webp');
+    expect(await storage.get('avatars/u1/a-64.webp')).toBeNull();
+
+    await expect(storage.put('../outside.webp', Buffer.from('x'), 'image/webp')).rejects.toThrow('Invalid storage key');
+  });
+
+  it('stores files in an S3-compatible bucket', async () => {
+    const s3 = await startS3StandIn();
+
+    try {
+      const storage = new S3StorageDriver({
+        bucket: 'uploads',
+        region: 'us-east-1',
+        endpoint: s3.endpoint,
+        credentials: { accessKeyId: 'test', secretAccessKey: 'test' }
+      });
+
+      await storage.put('avatars/u1/a-64.webp', Buffer.from('image'), 'image/webp');
+      expect(s3.objects.get('/uploads/avatars/u1/a-64.webp')?.contentType).toBe('image/webp');
+      expect((await storage.get('avatars/u1/a-64.webp'))?.toString()).toBe('image');
+      expect(storage.url('avatars/u1/a-64.webp')).toBe(`${s3.endpoint}/uploads/avatars/u1/a-64.webp`);
+
+      await storage.delete('avatars/u1/a-64.webp');
+      expect(s3.objects.size).toBe(0);
+      expect(await storage.get('avatars/u1/a-64.webp')).toBeNull();
+    } finally {
+      await s3.close();
+    }
+  });
+});
+
+describe('UserService avatars', () => {
+  const service = new UserService();
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'linkhub-avatars-'));
+    setStorage(new LocalStorageDriver(directory));
+    findUser.mockReset();
+    updateUser.mockReset();
+    updateUser.mockImplementation(async ({ data }) => ({ id: 'u1', ...data }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('removes the previous upload when the avatar is replaced', async () => {
+    findUser.mockResolvedValue({ avatarKey: null });
+    const first = await service.uploadAvatar('u1', await photo());
+
+    const firstKey = updateUser.mock.calls[0][0].data.avatarKey;
+    findUser.mockResolvedValue({ avatarKey: firstKey });
+    const second = await service.uploadAvatar('u1', await photo());
+
+    expect(second.user.profileImageUrl).toBe(second.avatar.url);
+    expect(second.avatar.url).not.toBe(first.avatar.url);
+    expect(Object.keys(second.avatar.variants)).toHaveLength(AVATAR_SIZES.length);
+
+    const files = await fs.readdir(path.join(directory, 'avatars/u1'));
+    expect(files).toHaveLength(AVATAR_SIZES.length);
+    expect(files.some(file => `avatars/u1/${file}`.startsWith(firstKey))).toBe(false);
+  });
+
+  it('keeps the upload when the profile is saved with the same image URL', async () => {
+    findUser.mockResolvedValue({ avatarKey: null });
+    const { avatar } = await service.uploadAvatar('u1', await photo());
+    const avatarKey = updateUser.mock.calls[0][0].data.avatarKey;
+
+    findUser.mockResolvedValue({ avatarKey, profileImageUrl: avatar.url });
+    await service.updateProfile('u1', { profileName: 'Jane', profileImageUrl: avatar.url });
+
+    expect(updateUser.mock.calls[1][0].data).not.toHaveProperty('avatarKey');
+    expect(await fs.readdir(path.join(directory, 'avatars/u1'))).toHaveLength(AVATAR_SIZES.length);
+  });
+
+  it('removes the upload when a different image URL is set', async () => {
+    findUser.mockResolvedValue({ avatarKey: null });
+    const { avatar } = await service.uploadAvatar('u1', await photo());
+    const avatarKey = updateUser.mock.calls[0][0].data.avatarKey;
+
+    findUser.mockResolvedValue({ avatarKey, profileImageUrl: avatar.url });
+    await service.updateProfile('u1', { profileImageUrl: 'https://images.example.com/jane.png' });
+
+    expect(updateUser.mock.calls[1][0].data).toMatchObject({ avatarKey: null, profileImageUrl: 'https://images.example.com/jane.png' });
+    expect(await fs.readdir(path.join(directory, 'avatars/u1'))).toHaveLength(0);
+  });
+});
\ No newline at end of file
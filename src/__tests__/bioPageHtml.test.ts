@@ -0,0 +1,130 @@
+import { renderBioPage } from '../utils/bioPageHtml';
+import { PublicPageData } from '../utils/publicPage';
+
+const link = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  kind: 'link',
+  type: 'url',
+  title: id,
+  url: `https://example.com/${id}`,
+  iconName: null,
+  isCollapsed: false,
+  gateType: null,
+  embed: null,
+  children: [],
+  ...overrides
+});
+
+const pageData = (overrides: { user?: object; customColors?: object | null; blocks?: object[] } = {}): PublicPageData => {
+  const blocks = overrides.blocks || [link('site')];
+
+  return {
+    user: {
+      username: 'jane',
+      profileName: 'Jane Doe',
+      profileBio: 'Designer & <writer>',
+      profileImageUrl: '/uploads/jane.png',
+      ...overrides.user
+    },
+    bioPage: {
+      id: 'p1',
+      themeId: 'default',
+      customColors: overrides.customColors ?? null,
+      links: blocks.filter((block: any) => block.kind === 'link'),
+      blocks,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-02-01T00:00:00Z')
+    },
+    theme: {
+      id: 'default',
+      name: 'Default',
+      isPremium: false,
+      cssTemplate: '.bio-page { color: white; }',
+      colorVariables: []
+    }
+  } as unknown as PublicPageData;
+};
+
+const urls = { origin: 'https://linkhub.test', path: '/jane', shareImagePath: '/api/bio-page/og-image/p1.png' };
+
+const structuredData = (html: string) => {
+  const json = html.match(/<script type="application\/ld\+json">(.*?)<\/script>/)?.[1];
+  return JSON.parse(json as string);
+};
+
+describe('renderBioPage', () => {
+  it('renders title, description, canonical URL and social tags', async () => {
+    const html = await renderBioPage(pageData(), urls);
+
+    expect(html).toContain('<title>Jane Doe - LinkHub</title>');
+    expect(html).toContain('<meta name="description" content="Designer &amp; &lt;writer&gt;">');
+    expect(html).toContain('<link rel="canonical" href="https://linkhub.test/jane">');
+    expect(html).toContain('<meta property="og:image" content="https://linkhub.test/api/bio-page/og-image/p1.png">');
+    expect(html).toContain('<meta property="og:image:width" content="1200">');
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image">');
+    expect(html).not.toContain('noindex');
+  });
+
+  it('describes the profile as JSON-LD', async () => {
+    const data = structuredData(await renderBioPage(pageData(), urls));
+
+    expect(data).toMatchObject({
+      '@type': 'ProfilePage',
+      url: 'https://linkhub.test/jane',
+      mainEntity: {
+        '@type': 'Person',
+        name: 'Jane Doe',
+        alternateName: '@jane',
+        description: 'Designer & <writer>',
+        image: 'https://linkhub.test/uploads/jane.png',
+        sameAs: ['https://example.com/site']
+      }
+    });
+  });
+
+  it('escapes user content everywhere it appears', async () => {
+    const html = await renderBioPage(pageData({
+      user: { profileName: '</script><script>alert(1)</script>', profileBio: null, profileImageUrl: null },
+      blocks: [link('x', { title: '<img src=x onerror=alert(1)> $& $1' })]
+    }), urls);
+
+    expect(html).not.toContain('<script>alert(1)');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt; $&amp; $1');
+  });
+
+  it('renders blocks and links through the click redirect', async () => {
+    const html = await renderBioPage(pageData({
+      blocks: [
+        link('intro', { kind: 'header', title: 'Intro', url: '' }),
+        link('group', { kind: 'group', title: 'Music', url: '', isCollapsed: true, children: [link('song')] }),
+        link('locked', { gateType: 'password', url: '' })
+      ]
+    }), urls);
+
+    expect(html).toContain('>Intro</h2>');
+    expect(html).toMatch(/<details [^>]*><summary[^>]*>Music<\/summary>/);
+    expect(html).toContain('href="/jane/link/song"');
+    expect(html).toContain('title="Password protected"');
+  });
+
+  it('applies the theme CSS and valid custom colors', async () => {
+    const html = await renderBioPage(pageData({
+      customColors: { primary: '#ff0000', secondary: 'red;}</style>', background: '#000', text: '#fff' }
+    }), urls);
+
+    expect(html).toContain('.bio-page { color: white; }');
+    expect(html).toContain('--color-primary: #ff0000;');
+    expect(html).toContain('--color-background: #000;');
+    expect(html).not.toContain('--color-secondary');
+    expect(html).toContain('class="bio-page ');
+  });
+
+  it('keeps previews out of search results and links straight to destinations', async () => {
+    const html = await renderBioPage(pageData(), urls, { preview: true });
+
+    expect(html).toContain('<meta name="robots" content="noindex">');
+    expect(html).toContain('Preview of unpublished changes');
+    expect(html).toContain('href="https://example.com/site"');
+  });
+});
\ No newline at end of file
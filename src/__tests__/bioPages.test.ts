@@ -0,0 +1,242 @@
+import prisma from '../config/database';
+import { BioPageService } from '../services/bioPageService';
+import { RevisionService } from '../services/revisionService';
+import { bioPagePath, normalizePageSlug, ownedPageWhere, publicPageWhere } from '../utils/bioPages';
+import { ConflictError, PlanLimitError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn() },
+    bioPage: { count: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    link: { findFirst: jest.fn(), findMany: jest.fn(), delete: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(async (operations: unknown[]) => operations)
+  }
+}));
+
+jest.mock('../services/revisionService');
+jest.mock('../services/ogImageService');
+
+const findUser = prisma.user.findUnique as unknown as jest.Mock;
+const countPages = prisma.bioPage.count as unknown as jest.Mock;
+const findPage = prisma.bioPage.findUnique as unknown as jest.Mock;
+const createPage = prisma.bioPage.create as unknown as jest.Mock;
+const findOwnedPage = prisma.bioPage.findFirst as unknown as jest.Mock;
+const publishCurrent = RevisionService.prototype.publishCurrent as jest.Mock;
+
+const FREE_USER = { id: 'u1', subscriptionTier: 'free', subscriptions: [] };
+const PRO_USER = { id: 'u1', subscriptionTier: 'pro', subscriptions: [{ planId: 'pro' }] };
+
+describe('bio page helpers', () => {
+  it('normalizes page slugs', () => {
+    expect(normalizePageSlug('  Podcast ')).toBe('podcast');
+    expect(normalizePageSlug('side-project-2')).toBe('side-project-2');
+    expect(() => normalizePageSlug('two--hyphens')).toThrow(ValidationError);
+    expect(() => normalizePageSlug('')).toThrow(ValidationError);
+  });
+
+  it('selects the primary page unless a page is named', () => {
+    expect(ownedPageWhere('u1')).toEqual({ userId: 'u1', isPrimary: true });
+    expect(ownedPageWhere('u1', 'p2')).toEqual({ userId: 'u1', id: 'p2' });
+    expect(publicPageWhere('Jane')).toEqual({ user: { username: 'jane' }, isPrimary: true });
+    expect(publicPageWhere('jane', 'Podcast')).toEqual({ user: { username: 'jane' }, slug: 'podcast' });
+  });
+
+  it('serves the primary page at the username', () => {
+    expect(bioPagePath('jane', { slug: 'home', isPrimary: true })).toBe('/jane');
+    expect(bioPagePath('jane', { slug: 'podcast', isPrimary: false })).toBe('/jane/podcast');
+  });
+});
+
+describe('BioPageService.createBioPage', () => {
+  const service = new BioPageService();
+
+  beforeEach(() => {
+    [findUser, countPages, findPage, createPage, findOwnedPage, publishCurrent].forEach(mock => mock.mockReset());
+    findPage.mockResolvedValue(null);
+
+    let created: any = null;
+    createPage.mockImplementation(({ data }) => {
+      created = { id: 'p1', ...data, customColors: null, outboundParams: null, isPublished: true };
+      return Promise.resolve(created);
+    });
+    findOwnedPage.mockImplementation(() => Promise.resolve(created && {
+      ...created,
+      links: [],
+      publishedRevision: { number: 1, snapshot: JSON.stringify({ version: 1, themeId: created.themeId, customColors: null, outboundParams: null, links: [] }) },
+      user: { username: 'jane' }
+    }));
+  });
+
+  it('makes the first page the primary page', async () => {
+    findUser.mockResolvedValue(FREE_USER);
+    countPages.mockResolvedValue(0);
+
+    const bioPage = await service.createBioPage('u1');
+
+    expect(createPage.mock.calls[0][0].data).toEqual({ userId: 'u1', slug: 'home', isPrimary: true, themeId: 'default' });
+    expect(bioPage.path).toBe('/jane');
+  });
+
+  it('publishes a new page straight away', async () => {
+    findUser.mockResolvedValue(FREE_USER);
+    countPages.mockResolvedValue(0);
+
+    const bioPage = await service.createBioPage('u1');
+
+    expect(publishCurrent).toHaveBeenCalledWith('p1');
+    expect(bioPage).toMatchObject({ liveRevision: 1, hasUnpublishedChanges: false });
+  });
+
+  it('limits the number of pages by plan', async () => {
+    findUser.mockResolvedValue(FREE_USER);
+    countPages.mockResolvedValue(1);
+
+    const error = await service.createBioPage('u1', { slug: 'podcast' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PlanLimitError);
+    expect(error.limit).toBe('maxBioPages');
+    expect(error.requiredPlan).toBe('pro');
+    expect(createPage).not.toHaveBeenCalled();
+  });
+
+  it('needs a slug that is free on the account for further pages', async () => {
+    findUser.mockResolvedValue(PRO_USER);
+    countPages.mockResolvedValue(1);
+
+    await expect(service.createBioPage('u1')).rejects.toThrow(ValidationError);
+
+    findPage.mockResolvedValue({ id: 'p1', slug: 'podcast' });
+    await expect(service.createBioPage('u1', { slug: 'Podcast' })).rejects.toThrow(ConflictError);
+
+    findPage.mockResolvedValue(null);
+    const bioPage = await service.createBioPage('u1', { slug: 'Podcast' });
+
+    expect(bioPage).toMatchObject({ slug: 'podcast', isPrimary: false, path: '/jane/podcast' });
+  });
+});
+
+describe('BioPageService.deleteLink', () => {
+  const service = new BioPageService();
+  const findLink = prisma.link.findFirst as unknown as jest.Mock;
+  const findLinks = prisma.link.findMany as unknown as jest.Mock;
+  const deleteLink = prisma.link.delete as unknown as jest.Mock;
+  const updateLink = prisma.link.update as unknown as jest.Mock;
+
+  beforeEach(() => {
+    [findLink, findLinks, deleteLink, updateLink].forEach(mock => mock.mockReset());
+    jest.spyOn(service, 'getBioPage').mockResolvedValue(null);
+    deleteLink.mockImplementation(args => ({ delete: args.where.id }));
+    updateLink.mockImplementation(args => ({ update: args.where.id, ...args.data }));
+  });
+
+  it('moves a deleted group\'s links to where the group was, renumbering the top level', async () => {
+    findLink.mockResolvedValue({ id: 'g1', kind: 'group', bioPageId: 'p1', orderIndex: 2 });
+    findLinks.mockImplementation(({ where }) => Promise.resolve(where.parentId === 'g1'
+      ? [{ id: 'c1', orderIndex: 1 }, { id: 'c2', orderIndex: 2 }]
+      : [{ id: 'a', orderIndex: 1 }, { id: 'b', orderIndex: 3 }]));
+
+    await service.deleteLink('u1', 'g1');
+
+    const [operations] = (prisma.$transaction as jest.Mock).mock.calls[0];
+    expect(operations).toEqual([
+      { delete: 'g1' },
+      { update: 'a', parentId: null, orderIndex: 1 },
+      { update: 'c1', parentId: null, orderIndex: 2 },
+      { update: 'c2', parentId: null, orderIndex: 3 },
+      { update: 'b', parentId: null, orderIndex: 4 }
+    ]);
+  });
+
+  it('deletes a plain link without renumbering', async () => {
+    findLink.mockResolvedValue({ id: 'l1', kind: 'link', bioPageId: 'p1', orderIndex: 1 });
+
+    await service.deleteLink('u1', 'l1');
+
+    expect(deleteLink).toHaveBeenCalledWith({ where: { id: 'l1' } });
+    expect(updateLink).not.toHaveBeenCalled();
+  });
+});
+
+describe('BioPageService.updateBioPage', () => {
+  const service = new BioPageService();
+  const findLinks = prisma.link.findMany as unknown as jest.Mock;
+  const updateLink = prisma.link.update as unknown as jest.Mock;
+  const updatePage = prisma.bioPage.update as unknown as jest.Mock;
+  const transaction = prisma.$transaction as unknown as jest.Mock;
+
+  beforeEach(() => {
+    [findLinks, updateLink, updatePage, findOwnedPage].forEach(mock => mock.mockReset());
+    transaction.mockClear();
+    jest.spyOn(service, 'getBioPage').mockResolvedValue(null);
+    findOwnedPage.mockResolvedValue({ id: 'p1', slug: 'home', themeId: 'default', isPrimary: true });
+    updateLink.mockImplementation(args => ({ update: args.where.id, ...args.data }));
+    updatePage.mockImplementation(args => ({ updatePage: args.where.id, ...args.data }));
+  });
+
+  it('saves link templates in the same transaction as the page', async () => {
+    findLinks.mockResolvedValue([{ id: 'l1' }]);
+
+    await service.updateBioPage('u1', { outboundParams: 'utm_source=linkhub', linkOutboundParams: { l1: 'utm_medium=story' } });
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(transaction.mock.calls[0][0]).toEqual([
+      { update: 'l1', outboundParams: 'utm_medium=story' },
+      { updatePage: 'p1', outboundParams: 'utm_source=linkhub' }
+    ]);
+  });
+
+  it('saves nothing when a link template names a link that is not on the page', async () => {
+    findLinks.mockResolvedValue([]);
+
+    await expect(service.updateBioPage('u1', { outboundParams: 'utm_source=linkhub', linkOutboundParams: { l9: 'utm_medium=story' } }))
+      .rejects.toThrow(ValidationError);
+
+    expect(transaction).not.toHaveBeenCalled();
+    expect(updatePage).not.toHaveBeenCalled();
+  });
+});
+
+describe('BioPageService.getBioPage', () => {
+  const service = new BioPageService();
+  const pageWithColors = (customColors: string | null) => ({
+    id: 'p1',
+    slug: 'home',
+    isPrimary: true,
+    isPublished: true,
+    themeId: 'default',
+    customColors,
+    outboundParams: null,
+    theme: { id: 'default', version: 1 },
+    links: [],
+    publishedRevision: null,
+    customDomain: null,
+    user: { username: 'jane' }
+  });
+
+  beforeEach(() => {
+    findOwnedPage.mockReset();
+  });
+
+  it('lists borderline contrast in custom colors', async () => {
+    findOwnedPage.mockResolvedValue(pageWithColors(JSON.stringify({
+      primary: '#111827', secondary: '#4f46e5', background: '#ffffff', text: '#777777'
+    })));
+
+    const bioPage = await service.getBioPage('u1');
+
+    expect(bioPage?.contrastWarnings.map(check => [check.foreground, check.background, check.level]))
+      .toEqual([['text', 'background', 'warn'], ['text', 'primary', 'warn']]);
+  });
+
+  it('skips the contrast check for partial or named colors saved before they were validated', async () => {
+    for (const colors of [{ primary: '#a5b4fc', text: '#111827' }, { primary: 'red', secondary: 'blue', background: 'white', text: 'black' }]) {
+      findOwnedPage.mockResolvedValue(pageWithColors(JSON.stringify(colors)));
+
+      const bioPage = await service.getBioPage('u1');
+
+      expect(bioPage?.customColors).toEqual(colors);
+      expect(bioPage?.contrastWarnings).toEqual([]);
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { classifyVisitor, isBurst, isHeadlessBrowser, resetBurstDetection, BURST_THRESHOLD, BURST_WINDOW_MS } from '../utils/botDetection';
+
+const CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+
+const visitor = (userAgent: string, overrides: { acceptLanguage?: string; secChUa?: string; visitorIpHash?: string } = {}) => ({
+  userAgent,
+  acceptLanguage: 'en-GB,en;q=0.9',
+  visitorIpHash: 'ip-1',
+  ...overrides
+});
+
+describe('bot detection', () => {
+  beforeEach(() => {
+    resetBurstDetection();
+  });
+
+  it('lets real browsers through', () => {
+    expect(classifyVisitor(visitor(CHROME))).toEqual({ isBot: false, reason: null });
+    expect(classifyVisitor(visitor(IPHONE, { visitorIpHash: 'ip-2' }))).toEqual({ isBot: false, reason: null });
+  });
+
+  it('flags crawlers, unfurlers and monitors by user agent', () => {
+    const agents = [
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      'facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)',
+      'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)',
+      'Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)',
+      'curl/8.4.0',
+      'python-requests/2.31.0'
+    ];
+
+    agents.forEach(userAgent => {
+      expect(classifyVisitor(visitor(userAgent))).toEqual({ isBot: true, reason: 'user_agent' });
+    });
+  });
+
+  it('spots headless browsers', () => {
+    expect(isHeadlessBrowser(CHROME.replace('Chrome/', 'HeadlessChrome/'), 'en', undefined)).toBe(true);
+    expect(isHeadlessBrowser(CHROME, 'en', '"Chromium";v="124", "HeadlessChrome";v="124"')).toBe(true);
+    expect(isHeadlessBrowser(CHROME, undefined, undefined)).toBe(true);
+    expect(isHeadlessBrowser('', 'en', undefined)).toBe(true);
+    expect(isHeadlessBrowser(CHROME, 'en', '"Chromium";v="124", "Google Chrome";v="124"')).toBe(false);
+  });
+
+  it('flags bursts from one IP hash until they die down', () => {
+    const start = Date.now();
+
+    for (let hit = 0; hit < BURST_THRESHOLD; hit++) {
+      expect(isBurst('ip-1', start + hit)).toBe(false);
+    }
+
+    expect(classifyVisitor(visitor(CHROME), start + BURST_THRESHOLD)).toEqual({ isBot: true, reason: 'burst' });
+    expect(classifyVisitor(visitor(CHROME, { visitorIpHash: 'ip-2' }), start + BURST_THRESHOLD).isBot).toBe(false);
+    expect(classifyVisitor(visitor(CHROME), start + BURST_THRESHOLD + BURST_WINDOW_MS).isBot).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { contrastRatio, relativeLuminance, suggestAccessibleColor } from '../utils/contrast';
+import { AccessibilityService } from '../services/accessibilityService';
+import { BUILT_IN_THEMES } from '../config/themes';
+import { ValidationError } from '../utils/errors';
+import { hasHexColors } from '../utils/validation';
+
+describe('contrast ratios', () => {
+  it('matches the WCAG reference values', () => {
+    expect(relativeLuminance('#ffffff')).toBeCloseTo(1);
+    expect(relativeLuminance('#000')).toBeCloseTo(0);
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#ffffff', '#000000')).toBeCloseTo(21);
+    expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+    expect(contrastRatio('#ffffff', '#ffff00')).toBeCloseTo(1.07, 2);
+  });
+
+  it('suggests the nearest readable shade', () => {
+    const suggestion = suggestAccessibleColor('#ffffff', '#ffff00');
+
+    expect(contrastRatio(suggestion, '#ffff00')).toBeGreaterThanOrEqual(4.5);
+    expect(suggestAccessibleColor('#777777', '#ffffff')).toBe('#747474');
+    expect(suggestAccessibleColor('#111827', '#ffffff')).toBe('#111827');
+    expect(contrastRatio(suggestAccessibleColor('#3b82f6', '#ffffff', 7), '#ffffff')).toBeGreaterThanOrEqual(7);
+  });
+});
+
+describe('accessibility service', () => {
+  const service = new AccessibilityService();
+  const colors = { primary: '#a5b4fc', secondary: '#4f46e5', background: '#ffffff', text: '#111827' };
+
+  it('checks text against the background and buttons', () => {
+    const checks = service.checkColors({ ...colors, primary: '#ff8800', text: '#777777' });
+
+    expect(checks.map(check => [check.background, check.level])).toEqual([['background', 'warn'], ['primary', 'fail']]);
+    expect(checks[0]?.suggestion).toBe('#747474');
+    expect(service.checkColors(colors).every(check => check.level === 'pass' && check.suggestion === null)).toBe(true);
+  });
+
+  it('blocks unreadable custom colors and suggests a fix', () => {
+    expect(() => service.assertReadableColors(colors)).not.toThrow();
+    expect(() => service.assertReadableColors({ ...colors, text: '#ffffff', background: '#ffff00' }))
+      .toThrow(/contrast ratio of 1\.07:1.*Try #[0-9a-f]{6} instead/);
+    expect(() => service.assertReadableColors({ ...colors, text: 'white' })).toThrow(ValidationError);
+    expect(() => service.assertReadableColors({ ...colors, secondary: undefined })).toThrow('customColors.secondary');
+  });
+
+  it('only checks full sets of hex colors', () => {
+    expect(hasHexColors(colors)).toBe(true);
+    expect(hasHexColors({ ...colors, text: 'white' })).toBe(false);
+    expect(hasHexColors({ primary: '#a5b4fc' })).toBe(false);
+    expect(hasHexColors(null)).toBe(false);
+  });
+
+  it.each(BUILT_IN_THEMES.map(theme => [theme.id, theme.cssTemplate]))('keeps the %s theme readable', (_id, cssTemplate) => {
+    const checks = service.checkTheme(cssTemplate);
+
+    expect(checks.length).toBeGreaterThan(0);
+    expect(checks.filter(check => check.level === 'fail')).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,147 @@
+import prisma from '../config/database';
+import { CustomDomainService } from '../services/customDomainService';
+import { checkVerificationRecord, DnsResolver, hostnameFromHeader, normalizeHostname } from '../utils/customDomains';
+import { PlanLimitError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn() },
+    bioPage: { findFirst: jest.fn() },
+    customDomain: { findUnique: jest.fn(), update: jest.fn() }
+  }
+}));
+
+const findUser = prisma.user.findUnique as unknown as jest.Mock;
+const findPage = prisma.bioPage.findFirst as unknown as jest.Mock;
+const findDomain = prisma.customDomain.findUnique as unknown as jest.Mock;
+const updateDomain = prisma.customDomain.update as unknown as jest.Mock;
+
+// Answers TXT lookups from a fixed table, failing like Node's resolver for missing names
+const fakeResolver = (records: Record<string, string[][]>): DnsResolver => ({
+  resolveTxt: async hostname => {
+    const found = records[hostname];
+    if (!found) {
+      throw Object.assign(new Error(`queryTxt ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    }
+    return found;
+  }
+});
+
+const proUser = { id: 'u1', subscriptionTier: 'pro', subscriptions: [{ planId: 'pro' }] };
+const freeUser = { id: 'u1', subscriptionTier: 'free', subscriptions: [] };
+
+describe('custom domain hostnames', () => {
+  it('normalises hostnames and URLs', () => {
+    expect(normalizeHostname(' Links.Creator.com. ')).toBe('links.creator.com');
+    expect(normalizeHostname('https://links.creator.com/')).toBe('links.creator.com');
+  });
+
+  it('rejects anything that is not a domain name', () => {
+    expect(() => normalizeHostname('localhost')).toThrow(ValidationError);
+    expect(() => normalizeHostname('192.168.0.1')).toThrow(ValidationError);
+    expect(() => normalizeHostname('links_creator.com')).toThrow(ValidationError);
+    expect(() => normalizeHostname('-links.creator.com')).toThrow(ValidationError);
+    expect(() => normalizeHostname(42)).toThrow(ValidationError);
+  });
+
+  it('keeps the app its own domain', () => {
+    const appUrl = process.env['APP_URL'];
+    process.env['APP_URL'] = 'https://linkhub.com';
+
+    try {
+      expect(() => normalizeHostname('linkhub.com')).toThrow('belongs to LinkHub');
+      expect(() => normalizeHostname('jane.linkhub.com')).toThrow('belongs to LinkHub');
+    } finally {
+      process.env['APP_URL'] = appUrl;
+    }
+  });
+
+  it('reads the hostname from the Host header', () => {
+    expect(hostnameFromHeader('Links.Creator.com:8080')).toBe('links.creator.com');
+    expect(hostnameFromHeader(undefined)).toBeNull();
+  });
+});
+
+describe('custom domain verification', () => {
+  const service = new CustomDomainService(fakeResolver({
+    '_linkhub.links.creator.com': [['v=spf1 -all'], ['linkhub-verification=', 'abc123']]
+  }));
+
+  const pendingDomain = {
+    id: 'd1',
+    hostname: 'links.creator.com',
+    userId: 'u1',
+    bioPageId: 'p1',
+    verificationToken: 'abc123',
+    status: 'pending',
+    verifiedAt: null,
+    lastCheckedAt: null,
+    lastError: null
+  };
+
+  beforeEach(() => {
+    findUser.mockReset();
+    findPage.mockReset();
+    findDomain.mockReset();
+    updateDomain.mockReset();
+    updateDomain.mockImplementation(async ({ data }) => ({ ...pendingDomain, ...data }));
+  });
+
+  it('finds the token among chunked TXT records', async () => {
+    const resolver = fakeResolver({ '_linkhub.links.creator.com': [['linkhub-verification=', 'abc123']] });
+
+    expect(await checkVerificationRecord('links.creator.com', 'abc123', resolver)).toEqual({ verified: true, error: null });
+    expect((await checkVerificationRecord('links.creator.com', 'other', resolver)).error).toContain('does not contain');
+    expect((await checkVerificationRecord('other.creator.com', 'abc123', resolver)).error).toContain('No TXT record found');
+  });
+
+  it('verifies a domain whose TXT record matches', async () => {
+    findUser.mockResolvedValue(proUser);
+    findPage.mockResolvedValue({ id: 'p1', customDomain: pendingDomain });
+
+    const domain = await service.verifyDomain('u1');
+
+    expect(domain.status).toBe('verified');
+    expect(domain.verifiedAt).toBeInstanceOf(Date);
+    expect(domain.verificationRecord).toEqual({
+      type: 'TXT',
+      name: '_linkhub.links.creator.com',
+      value: 'linkhub-verification=abc123'
+    });
+  });
+
+  it('records why verification failed', async () => {
+    findUser.mockResolvedValue(proUser);
+    findPage.mockResolvedValue({ id: 'p1', customDomain: { ...pendingDomain, verificationToken: 'wrong' } });
+
+    const domain = await service.verifyDomain('u1');
+
+    expect(domain.status).toBe('failed');
+    expect(domain.lastError).toContain('linkhub-verification=wrong');
+  });
+
+  it('blocks accounts without custom domains on their plan', async () => {
+    findUser.mockResolvedValue(freeUser);
+
+    await expect(service.setDomain('u1', 'links.creator.com')).rejects.toThrow(PlanLimitError);
+    await expect(service.verifyDomain('u1')).rejects.toThrow(PlanLimitError);
+    expect(findPage).not.toHaveBeenCalled();
+  });
+
+  it('only routes verified domains of entitled accounts', async () => {
+    const page = { isPrimary: false, slug: 'podcast', isPublished: true, user: { username: 'creator' } };
+
+    findUser.mockResolvedValue(proUser);
+    findDomain.mockResolvedValue({ ...pendingDomain, status: 'verified', bioPage: page });
+    expect(await service.resolveHostname('links.creator.com')).toBe('/creator/podcast');
+
+    // Downgraded accounts keep the domain record, but it stops serving
+    findUser.mockResolvedValue(freeUser);
+    expect(await service.resolveHostname('links.creator.com')).toBeNull();
+
+    findUser.mockResolvedValue(proUser);
+    findDomain.mockResolvedValue({ ...pendingDomain, bioPage: page });
+    expect(await service.resolveHostname('links.creator.com')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,76 @@
+import maxmind from 'maxmind';
+
+jest.mock('maxmind', () => ({
+  __esModule: true,
+  default: {
+    open: jest.fn(),
+    validate: (ip: string) => /^\d+\.\d+\.\d+\.\d+$/.test(ip)
+  }
+}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { warn: jest.fn(), error: jest.fn() }
+}));
+
+const openDatabase = maxmind.open as unknown as jest.Mock;
+
+// The reader is opened once per module, so each test loads a fresh copy
+const loadGeoip = (): typeof import('../utils/geoip') => {
+  let geoip: typeof import('../utils/geoip') | undefined;
+  jest.isolateModules(() => {
+    geoip = require('../utils/geoip');
+  });
+  return geoip as typeof import('../utils/geoip');
+};
+
+describe('geo lookups', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env['GEOIP_DATABASE_PATH'];
+  });
+
+  it('resolves nothing when the database file is missing', async () => {
+    process.env['GEOIP_DATABASE_PATH'] = '/nonexistent/GeoLite2-City.mmdb';
+    const { lookupLocation } = loadGeoip();
+
+    expect(await lookupLocation('81.2.69.142')).toEqual({ country: null, region: null, city: null });
+    expect(openDatabase).not.toHaveBeenCalled();
+  });
+
+  it('keeps only the country, region and city', async () => {
+    process.env['GEOIP_DATABASE_PATH'] = __filename;
+    openDatabase.mockResolvedValue({
+      get: () => ({
+        country: { iso_code: 'GB', names: { en: 'United Kingdom' } },
+        subdivisions: [{ iso_code: 'ENG', names: { en: 'England' } }],
+        city: { names: { en: 'London' } },
+        location: { latitude: 51.5142, longitude: -0.0931 },
+        postal: { code: 'EC2V' }
+      })
+    });
+    const { lookupLocation } = loadGeoip();
+
+    expect(await lookupLocation('::ffff:81.2.69.142')).toEqual({ country: 'GB', region: 'England', city: 'London' });
+    expect(openDatabase).toHaveBeenCalledWith(__filename);
+  });
+
+  it('resolves nothing for addresses that are not IPs', async () => {
+    process.env['GEOIP_DATABASE_PATH'] = __filename;
+    openDatabase.mockResolvedValue({ get: jest.fn() });
+    const { lookupLocation } = loadGeoip();
+
+    expect(await lookupLocation('unknown')).toEqual({ country: null, region: null, city: null });
+  });
+
+  it('resolves nothing when the database cannot be opened', async () => {
+    process.env['GEOIP_DATABASE_PATH'] = __filename;
+    openDatabase.mockRejectedValue(new Error('Invalid database'));
+    const { lookupLocation } = loadGeoip();
+
+    expect(await lookupLocation('81.2.69.142')).toEqual({ country: null, region: null, city: null });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { HyperLogLog } from '../utils/hyperLogLog';
+
+const visitors = (from: number, to: number): string[] =>
+  Array.from({ length: to - from }, (_, i) => `visitor-${from + i}`);
+
+describe('HyperLogLog', () => {
+  it('counts small audiences exactly', () => {
+    const sketch = new HyperLogLog();
+    ['a', 'b', 'c', 'a', 'b'].forEach(value => sketch.add(value));
+
+    expect(sketch.count()).toBe(3);
+    expect(new HyperLogLog().count()).toBe(0);
+  });
+
+  it('estimates large audiences within a few percent', () => {
+    const sketch = new HyperLogLog();
+    visitors(0, 50000).forEach(value => sketch.add(value));
+
+    expect(Math.abs(sketch.count() - 50000) / 50000).toBeLessThan(0.05);
+  });
+
+  it('merges into the count of the union, not the sum', () => {
+    const monday = new HyperLogLog();
+    const tuesday = new HyperLogLog();
+    visitors(0, 300).forEach(value => monday.add(value));
+    visitors(200, 500).forEach(value => tuesday.add(value));
+
+    const week = new HyperLogLog().merge(monday).merge(tuesday);
+
+    expect(Math.abs(week.count() - 500)).toBeLessThan(15);
+  });
+
+  it('survives a round trip through its stored form', () => {
+    const sketch = new HyperLogLog();
+    visitors(0, 1000).forEach(value => sketch.add(value));
+
+    expect(new HyperLogLog(sketch.toBuffer()).count()).toBe(sketch.count());
+    expect(new HyperLogLog(Buffer.alloc(3)).count()).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Request } from 'express';
+import { isLinkUnlocked, issueUnlockToken, readUnlockToken, toPublicLink, unlockCookieName } from '../utils/linkGate';
+import { generateJWT } from '../utils/crypto';
+
+const gated = { id: 'link1', gateType: 'password', gatePasswordHash: 'hash-a', url: 'https://example.com/private' };
+
+const fakeRequest = (headers: Record<string, string>, query: Record<string, string> = {}): Request => ({
+  headers,
+  query,
+  get: (name: string) => headers[name.toLowerCase()]
+}) as unknown as Request;
+
+describe('link gates', () => {
+  it('treats ungated links as unlocked', () => {
+    expect(isLinkUnlocked({ ...gated, gateType: null, gatePasswordHash: null }, null)).toBe(true);
+    expect(isLinkUnlocked(gated, null)).toBe(false);
+  });
+
+  it('accepts a token issued for the same link and gate', () => {
+    const token = issueUnlockToken(gated);
+
+    expect(isLinkUnlocked(gated, token)).toBe(true);
+    expect(isLinkUnlocked({ ...gated, id: 'link2' }, token)).toBe(false);
+  });
+
+  it('revokes unlocks when the password or gate changes', () => {
+    const token = issueUnlockToken(gated);
+
+    expect(isLinkUnlocked({ ...gated, gatePasswordHash: 'hash-b' }, token)).toBe(false);
+    expect(isLinkUnlocked({ ...gated, gateType: 'sensitive', gatePasswordHash: null }, token)).toBe(false);
+  });
+
+  it('rejects other tokens signed with the app secret', () => {
+    expect(isLinkUnlocked(gated, generateJWT({ userId: 'u1', linkId: 'link1' }))).toBe(false);
+    expect(isLinkUnlocked(gated, 'not-a-token')).toBe(false);
+  });
+
+  it('reads the token from the header, query or cookie', () => {
+    expect(readUnlockToken(fakeRequest({ 'x-unlock-token': 'from-header' }), 'link1')).toBe('from-header');
+    expect(readUnlockToken(fakeRequest({}, { token: 'from-query' }), 'link1')).toBe('from-query');
+    expect(readUnlockToken(fakeRequest({ cookie: `theme=dark; ${unlockCookieName('link1')}=from-cookie` }), 'link1')).toBe('from-cookie');
+    expect(readUnlockToken(fakeRequest({ cookie: `${unlockCookieName('link2')}=other` }), 'link1')).toBeNull();
+  });
+
+  it('ignores an unlock cookie that is not valid URI encoding', () => {
+    expect(readUnlockToken(fakeRequest({ cookie: `${unlockCookieName('link1')}=%E0%A4%A` }), 'link1')).toBeNull();
+  });
+
+  it('hides the destination and password hash of gated links', () => {
+    const publicLink = toPublicLink(gated);
+
+    expect(publicLink.url).toBe('');
+    expect(publicLink).not.toHaveProperty('gatePasswordHash');
+    expect(toPublicLink({ ...gated, gateType: null }).url).toBe(gated.url);
+  });
+});
\ No newline at end of file
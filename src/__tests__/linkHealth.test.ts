@@ -0,0 +1,185 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import prisma from '../config/database';
+import { LinkHealthService } from '../services/linkHealthService';
+import { checkLinkUrl, isPrivateAddress, mapWithConcurrency, BLOCKED_HOST } from '../utils/linkHealth';
+import { MailMessage } from '../utils/mailer';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    link: { findMany: jest.fn(), update: jest.fn() },
+    linkHealthCheck: { create: jest.fn(), deleteMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+// Local stub standing in for creators' destinations
+const hits: Record<string, string[]> = {};
+let flakyRequests = 0;
+
+const server = http.createServer((req, res) => {
+  const path = req.url || '/';
+  (hits[path] = hits[path] || []).push(req.method || '');
+
+  switch (path) {
+    case '/ok':
+      res.writeHead(200).end('ok');
+      break;
+    case '/missing':
+      res.writeHead(404).end('missing');
+      break;
+    case '/no-head':
+      res.writeHead(req.method === 'HEAD' ? 405 : 200).end();
+      break;
+    case '/flaky':
+      res.writeHead(++flakyRequests <= 1 ? 503 : 200).end();
+      break;
+    case '/moved':
+      res.writeHead(301, { Location: '/ok' }).end();
+      break;
+    case '/loop':
+      res.writeHead(302, { Location: '/loop' }).end();
+      break;
+    case '/slow':
+      setTimeout(() => res.writeHead(200).end(), 500);
+      break;
+    default:
+      res.writeHead(500).end();
+  }
+});
+
+let baseUrl = '';
+const local = { allowPrivateHosts: true, retryDelayMs: 10, timeoutMs: 2000 };
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('checkLinkUrl', () => {
+  it('reports working destinations', async () => {
+    const result = await checkLinkUrl(`${baseUrl}/ok`, local);
+
+    expect(result).toMatchObject({ ok: true, statusCode: 200, error: null });
+  });
+
+  it('reports 404s without retrying them', async () => {
+    const result = await checkLinkUrl(`${baseUrl}/missing`, local);
+
+    expect(result).toMatchObject({ ok: false, statusCode: 404 });
+    expect(hits['/missing']).toEqual(['HEAD', 'GET']);
+  });
+
+  it('falls back to GET when HEAD is not supported', async () => {
+    expect(await checkLinkUrl(`${baseUrl}/no-head`, local)).toMatchObject({ ok: true, statusCode: 200 });
+  });
+
+  it('retries server errors with backoff', async () => {
+    expect(await checkLinkUrl(`${baseUrl}/flaky`, local)).toMatchObject({ ok: true, statusCode: 200 });
+  });
+
+  it('follows redirects and gives up on loops', async () => {
+    expect(await checkLinkUrl(`${baseUrl}/moved`, local)).toMatchObject({ ok: true, statusCode: 200 });
+    expect(await checkLinkUrl(`${baseUrl}/loop`, local)).toMatchObject({ ok: false, error: 'TOO_MANY_REDIRECTS' });
+  });
+
+  it('reports timeouts and refused connections', async () => {
+    expect(await checkLinkUrl(`${baseUrl}/slow`, { ...local, timeoutMs: 100, retries: 0 }))
+      .toMatchObject({ ok: false, statusCode: null, error: 'TIMEOUT' });
+
+    // A port that was just released has nothing listening on it
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+
+    expect(await checkLinkUrl(`http://127.0.0.1:${port}/`, { ...local, retries: 0 }))
+      .toMatchObject({ ok: false, error: 'ECONNREFUSED' });
+  });
+
+  it('refuses private addresses unless allowed', async () => {
+    expect(await checkLinkUrl(`${baseUrl}/ok`, { retries: 0 })).toMatchObject({ ok: false, error: BLOCKED_HOST });
+    expect(isPrivateAddress('10.1.2.3')).toBe(true);
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::ffff:192.168.0.1')).toBe(true);
+    expect(isPrivateAddress('fd00::1')).toBe(true);
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async n => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return n * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50, 60]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('LinkHealthService', () => {
+  const findLinks = prisma.link.findMany as unknown as jest.Mock;
+  const updateLink = prisma.link.update as unknown as jest.Mock;
+  const transaction = prisma.$transaction as unknown as jest.Mock;
+
+  const owner = { id: 'u1', email: 'owner@example.com', username: 'owner' };
+  const link = (id: string, path: string, healthStatus: string, healthFailures: number) => ({
+    id,
+    title: `Link ${id}`,
+    url: `${baseUrl}${path}`,
+    healthStatus,
+    healthFailures,
+    bioPage: { user: owner }
+  });
+
+  beforeEach(() => {
+    findLinks.mockReset();
+    transaction.mockReset().mockResolvedValue([]);
+    updateLink.mockReset().mockImplementation(args => args);
+  });
+
+  it('flags repeat failures as broken and emails the owner once', async () => {
+    const sent: MailMessage[] = [];
+    const service = new LinkHealthService({
+      mailer: { send: async message => { sent.push(message); } },
+      checkOptions: { ...local, retries: 0 }
+    });
+
+    findLinks.mockResolvedValue([
+      link('first-failure', '/missing', 'ok', 0),
+      link('second-failure', '/missing', 'ok', 1),
+      link('still-broken', '/missing', 'broken', 5),
+      link('recovered', '/ok', 'broken', 3)
+    ]);
+
+    const summary = await service.runDueChecks(new Date('2026-10-18T12:00:00Z'));
+
+    expect(summary).toEqual({ checked: 4, broken: 1, recovered: 1 });
+
+    const updates = updateLink.mock.calls.map(([args]) => args);
+    expect(updates.find(u => u.where.id === 'first-failure').data)
+      .toMatchObject({ healthStatus: 'ok', healthFailures: 1, healthCheckDueAt: new Date('2026-10-18T13:00:00Z') });
+    expect(updates.find(u => u.where.id === 'second-failure').data)
+      .toMatchObject({ healthStatus: 'broken', healthFailures: 2, healthCheckDueAt: new Date('2026-10-18T14:00:00Z') });
+    expect(updates.find(u => u.where.id === 'recovered').data)
+      .toMatchObject({ healthStatus: 'ok', healthFailures: 0, healthCheckDueAt: new Date('2026-10-19T12:00:00Z') });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]?.to).toBe('owner@example.com');
+    expect(sent[0]?.text).toContain('Link second-failure');
+    expect(sent[0]?.text).not.toContain('Link still-broken');
+  });
+});
\ No newline at end of file
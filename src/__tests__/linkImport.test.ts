@@ -0,0 +1,86 @@
+import { parseCsv, toCsv } from '../utils/csv';
+import { exportToCsv, parseImport, EXPORT_VERSION } from '../utils/linkImport';
+import { ValidationError } from '../utils/errors';
+import { BioPageExport } from '../types';
+
+const document: BioPageExport = {
+  version: EXPORT_VERSION,
+  exportedAt: '2026-10-18T12:00:00.000Z',
+  bioPage: { themeId: 'default', customColors: null },
+  links: [
+    { kind: 'header', type: 'url', title: 'Music', url: '', iconName: null, isActive: true, activeFrom: null, activeUntil: null },
+    {
+      kind: 'group', type: 'url', title: 'Socials', url: '', iconName: null, isActive: true, activeFrom: null, activeUntil: null,
+      children: [
+        { kind: 'link', type: 'url', title: 'Twitter, mostly', url: 'https://twitter.com/jane', iconName: 'twitter', isActive: false, activeFrom: null, activeUntil: null }
+      ]
+    },
+    { kind: 'link', type: 'url', title: '=HYPERLINK("evil")', url: 'https://example.com', iconName: null, isActive: true, activeFrom: '2026-11-01T00:00:00.000Z', activeUntil: null }
+  ]
+};
+
+describe('CSV helpers', () => {
+  it('parses quoted fields, escaped quotes and embedded newlines', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere']
+    ]);
+  });
+
+  it('neutralises formula cells on export', () => {
+    expect(toCsv([['=1+1', '@cmd', 'plain', null]])).toBe("'=1+1,'@cmd,plain,");
+  });
+});
+
+describe('link import', () => {
+  it('reads the JSON export back with groups flattened by row', () => {
+    const parsed = parseImport('json', JSON.stringify(document));
+
+    expect(parsed.themeId).toBe('default');
+    expect(parsed.links.map(link => [link.row, link.parentRow, link.kind])).toEqual([
+      [1, null, 'header'],
+      [2, null, 'group'],
+      [3, 2, 'link'],
+      [4, null, 'link']
+    ]);
+  });
+
+  it('rejects unknown export versions', () => {
+    expect(() => parseImport('json', { ...document, version: 99 })).toThrow(ValidationError);
+    expect(() => parseImport('json', '{not json')).toThrow(ValidationError);
+  });
+
+  it('round-trips through CSV', () => {
+    const parsed = parseImport('csv', exportToCsv(document));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.links[2]).toMatchObject({ parentRow: 2, title: 'Twitter, mostly', iconName: 'twitter', isActive: 'false' });
+    expect(parsed.links[3]).toMatchObject({ title: '=HYPERLINK("evil")', activeFrom: '2026-11-01T00:00:00.000Z' });
+  });
+
+  it('reports CSV rows that name a missing group', () => {
+    const parsed = parseImport('csv', 'title,url,group\nDocs,https://example.com,Nowhere');
+
+    expect(parsed.errors).toEqual([{ row: 1, field: 'group', message: 'No group titled "Nowhere" above this row' }]);
+  });
+
+  it('requires a CSV header with title and url', () => {
+    expect(() => parseImport('csv', 'name,link\nDocs,https://example.com')).toThrow(ValidationError);
+  });
+
+  it('maps Linktree exports in position order', () => {
+    const parsed = parseImport('linktree', {
+      links: [
+        { title: 'Latest video', url: 'https://youtu.be/abc', type: 'YOUTUBE_VIDEO', position: 2 },
+        { title: 'Watch', url: '', type: 'HEADER', position: 1 },
+        { title: 'Old shop', url: 'https://shop.example.com', type: 'CLASSIC', position: 3, archived: true }
+      ]
+    });
+
+    expect(parsed.links.map(link => [link.kind, link.type, link.title, link.isActive])).toEqual([
+      ['header', 'url', 'Watch', true],
+      ['link', 'youtube', 'Latest video', true],
+      ['link', 'url', 'Old shop', false]
+    ]);
+  });
+});
\ No newline at end of file
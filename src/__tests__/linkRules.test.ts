@@ -0,0 +1,39 @@
+import { findMatchingRule, normalizeRuleCondition } from '../utils/linkRules';
+import { parseUserAgent } from '../utils/userAgent';
+import { ValidationError } from '../utils/errors';
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_PHONE = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+describe('link redirect rules', () => {
+  it('detects operating system and device type from the user agent', () => {
+    expect(parseUserAgent(IPHONE)).toEqual({ os: 'ios', deviceType: 'mobile', browser: 'safari', browserVersion: '17' });
+    expect(parseUserAgent(ANDROID_PHONE)).toEqual({ os: 'android', deviceType: 'mobile', browser: 'chrome', browserVersion: '120' });
+    expect(parseUserAgent(ANDROID_TABLET)).toEqual({ os: 'android', deviceType: 'tablet', browser: 'chrome', browserVersion: '120' });
+    expect(parseUserAgent(MAC)).toEqual({ os: 'macos', deviceType: 'desktop', browser: 'chrome', browserVersion: '120' });
+    expect(parseUserAgent('')).toEqual({ os: 'other', deviceType: 'desktop', browser: 'other', browserVersion: null });
+  });
+
+  it('normalises and validates conditions', () => {
+    expect(normalizeRuleCondition('os', 'iOS')).toBe('ios');
+    expect(normalizeRuleCondition('country', 'de')).toBe('DE');
+    expect(() => normalizeRuleCondition('country', 'Germany')).toThrow(ValidationError);
+    expect(() => normalizeRuleCondition('device', 'watch')).toThrow(ValidationError);
+    expect(() => normalizeRuleCondition('language', 'de')).toThrow(ValidationError);
+  });
+
+  it('returns the first matching rule in order', () => {
+    const rules = [
+      { id: 'ios', conditionType: 'os', conditionValue: 'ios' },
+      { id: 'de', conditionType: 'country', conditionValue: 'DE' },
+      { id: 'mobile', conditionType: 'device', conditionValue: 'mobile' }
+    ];
+
+    expect(findMatchingRule(rules, { ...parseUserAgent(IPHONE), country: 'DE' })?.id).toBe('ios');
+    expect(findMatchingRule(rules, { ...parseUserAgent(ANDROID_PHONE), country: 'DE' })?.id).toBe('de');
+    expect(findMatchingRule(rules, { ...parseUserAgent(ANDROID_PHONE), country: null })?.id).toBe('mobile');
+    expect(findMatchingRule(rules, { ...parseUserAgent(MAC), country: 'US' })).toBeNull();
+  });
+});
\ No newline at end of file
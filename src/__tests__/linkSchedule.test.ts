@@ -0,0 +1,92 @@
+import prisma from '../config/database';
+import { BioPageService } from '../services/bioPageService';
+import { getLinkScheduleStatus, liveLinkWhere } from '../utils/linkSchedule';
+import { validateTimestampWithZone } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    link: { findFirst: jest.fn(), update: jest.fn() }
+  }
+}));
+
+jest.mock('../services/revisionService');
+
+const findLink = prisma.link.findFirst as unknown as jest.Mock;
+const updateLink = prisma.link.update as unknown as jest.Mock;
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+const HOUR_AGO = new Date('2026-10-18T11:00:00Z');
+const IN_AN_HOUR = new Date('2026-10-18T13:00:00Z');
+
+describe('link schedule windows', () => {
+  it('is live inside the window, including its first moment', () => {
+    expect(getLinkScheduleStatus({ activeFrom: null, activeUntil: null }, NOW)).toBe('live');
+    expect(getLinkScheduleStatus({ activeFrom: HOUR_AGO, activeUntil: IN_AN_HOUR }, NOW)).toBe('live');
+    expect(getLinkScheduleStatus({ activeFrom: NOW, activeUntil: null }, NOW)).toBe('live');
+  });
+
+  it('is scheduled before the window and expired from its last moment on', () => {
+    expect(getLinkScheduleStatus({ activeFrom: IN_AN_HOUR, activeUntil: null }, NOW)).toBe('scheduled');
+    expect(getLinkScheduleStatus({ activeFrom: HOUR_AGO, activeUntil: NOW }, NOW)).toBe('expired');
+    expect(getLinkScheduleStatus({ activeFrom: null, activeUntil: HOUR_AGO }, NOW)).toBe('expired');
+  });
+
+  it('filters queries with the same boundaries', () => {
+    expect(liveLinkWhere(NOW)).toEqual({
+      isActive: true,
+      AND: [
+        { OR: [{ activeFrom: null }, { activeFrom: { lte: NOW } }] },
+        { OR: [{ activeUntil: null }, { activeUntil: { gt: NOW } }] }
+      ]
+    });
+  });
+
+  it('only accepts timestamps that say their time zone', () => {
+    expect(validateTimestampWithZone('2026-10-18T12:00:00Z')).toBe(true);
+    expect(validateTimestampWithZone('2026-10-18T12:00+02:00')).toBe(true);
+    expect(validateTimestampWithZone('2026-10-18T12:00:00.250-05:00')).toBe(true);
+    expect(validateTimestampWithZone('2026-10-18T12:00:00')).toBe(false);
+    expect(validateTimestampWithZone('2026-10-18')).toBe(false);
+    expect(validateTimestampWithZone('2026-13-45T12:00:00Z')).toBe(false);
+  });
+});
+
+describe('BioPageService schedule validation', () => {
+  const service = new BioPageService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLink.mockResolvedValue({
+      id: 'l1',
+      kind: 'link',
+      type: 'url',
+      url: 'https://example.com',
+      activeFrom: new Date('2026-11-01T00:00:00Z'),
+      activeUntil: null,
+      gateType: null,
+      gatePasswordHash: null
+    });
+  });
+
+  it('rejects timestamps without an offset', async () => {
+    await expect(service.updateLink('u1', 'l1', { activeFrom: '2026-10-20T09:00:00' }))
+      .rejects.toMatchObject({ field: 'activeFrom' });
+    expect(findLink).not.toHaveBeenCalled();
+  });
+
+  it('rejects an inverted or empty window', async () => {
+    await expect(service.updateLink('u1', 'l1', { activeFrom: '2026-10-21T00:00:00Z', activeUntil: '2026-10-20T00:00:00Z' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(service.updateLink('u1', 'l1', { activeFrom: '2026-10-20T00:00:00Z', activeUntil: '2026-10-20T02:00:00+02:00' }))
+      .rejects.toMatchObject({ field: 'activeUntil' });
+    expect(updateLink).not.toHaveBeenCalled();
+  });
+
+  it('checks a new end against the start already stored', async () => {
+    await expect(service.updateLink('u1', 'l1', { activeUntil: '2026-10-25T00:00:00Z' }))
+      .rejects.toMatchObject({ field: 'activeUntil' });
+    expect(updateLink).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
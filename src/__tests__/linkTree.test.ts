@@ -0,0 +1,36 @@
+import { buildLinkTree, flattenLinkTree } from '../utils/linkTree';
+
+const row = (id: string, kind: string, parentId: string | null = null) => ({ id, kind, parentId, title: id });
+
+describe('link tree', () => {
+  it('nests links under their groups in the given order', () => {
+    const tree = buildLinkTree([
+      row('header', 'header'),
+      row('group', 'group'),
+      row('a', 'link'),
+      row('b', 'link', 'group'),
+      row('divider', 'divider'),
+      row('c', 'link', 'group')
+    ]);
+
+    expect(tree.map(node => node.id)).toEqual(['header', 'group', 'a', 'divider']);
+    expect(tree[1]?.children.map(child => child.id)).toEqual(['b', 'c']);
+  });
+
+  it('drops children whose group is hidden', () => {
+    const tree = buildLinkTree([row('a', 'link'), row('b', 'link', 'hidden-group')]);
+
+    expect(tree.map(node => node.id)).toEqual(['a']);
+  });
+
+  it('flattens the tree into clickable links in display order', () => {
+    const tree = buildLinkTree([
+      row('header', 'header'),
+      row('group', 'group'),
+      row('b', 'link', 'group'),
+      row('a', 'link')
+    ]);
+
+    expect(flattenLinkTree(tree).map(link => link.id)).toEqual(['b', 'a']);
+  });
+});
\ No newline at end of file
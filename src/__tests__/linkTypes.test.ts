@@ -0,0 +1,39 @@
+import { extractYouTubeId, getLinkEmbed, normalizeLinkUrl } from '../utils/linkTypes';
+import { ValidationError } from '../utils/errors';
+
+describe('link types', () => {
+  it('recognises YouTube IDs in every common URL shape', () => {
+    expect(extractYouTubeId('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42')).toBe('dQw4w9WgXcQ');
+    expect(extractYouTubeId('https://youtu.be/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(extractYouTubeId('https://m.youtube.com/shorts/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(extractYouTubeId('https://www.youtube.com/embed/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(extractYouTubeId('dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(extractYouTubeId('https://vimeo.com/12345')).toBeNull();
+  });
+
+  it('normalises destinations to canonical URLs', () => {
+    expect(normalizeLinkUrl('youtube', 'https://youtu.be/dQw4w9WgXcQ')).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(normalizeLinkUrl('spotify', 'spotify:track:4uLU6hMCjMI75M1A2tKUQC')).toBe('https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC');
+    expect(normalizeLinkUrl('spotify', 'https://open.spotify.com/intl-de/album/1DFixLWuPkv3KT3TnV35m3?si=abc')).toBe('https://open.spotify.com/album/1DFixLWuPkv3KT3TnV35m3');
+    expect(normalizeLinkUrl('tweet', 'https://x.com/jack/status/20')).toBe('https://twitter.com/jack/status/20');
+    expect(normalizeLinkUrl('email', 'hello@example.com')).toBe('mailto:hello@example.com');
+    expect(normalizeLinkUrl('url', 'https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+  });
+
+  it('rejects destinations that do not match the type', () => {
+    expect(() => normalizeLinkUrl('youtube', 'https://example.com')).toThrow(ValidationError);
+    expect(() => normalizeLinkUrl('soundcloud', 'https://spotify.com/artist')).toThrow(ValidationError);
+    expect(() => normalizeLinkUrl('email', 'not-an-email')).toThrow(ValidationError);
+    expect(() => normalizeLinkUrl('url', 'javascript:alert(1)')).toThrow(ValidationError);
+  });
+
+  it('returns embed metadata for inline players only', () => {
+    expect(getLinkEmbed('youtube', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toMatchObject({
+      provider: 'youtube',
+      embedUrl: 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ'
+    });
+    expect(getLinkEmbed('spotify', 'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC')?.height).toBe(152);
+    expect(getLinkEmbed('url', 'https://example.com')).toBeNull();
+    expect(getLinkEmbed('email', 'mailto:hello@example.com')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,52 @@
+import nodemailer from 'nodemailer';
+import { SmtpMailer } from '../utils/mailer';
+
+jest.mock('nodemailer', () => ({
+  __esModule: true,
+  default: { createTransport: jest.fn() }
+}));
+
+const createTransport = nodemailer.createTransport as unknown as jest.Mock;
+const sendMail = jest.fn();
+
+describe('SmtpMailer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sendMail.mockResolvedValue({ messageId: 'm1' });
+    createTransport.mockReturnValue({ sendMail });
+  });
+
+  it('sends from the configured address', async () => {
+    const mailer = new SmtpMailer('LinkHub <noreply@linkhub.com>', { host: 'smtp.example.com', port: 587 });
+
+    await mailer.send({ to: 'ada@example.com', subject: 'Reset your password', text: 'Follow the link' });
+
+    expect(sendMail).toHaveBeenCalledWith({
+      from: 'LinkHub <noreply@linkhub.com>',
+      to: 'ada@example.com',
+      subject: 'Reset your password',
+      text: 'Follow the link'
+    });
+  });
+
+  it('uses TLS on port 465 and STARTTLS elsewhere', () => {
+    new SmtpMailer('noreply@linkhub.com', { host: 'smtp.example.com', port: 465 });
+    new SmtpMailer('noreply@linkhub.com', { host: 'smtp.example.com', port: 587 });
+
+    expect(createTransport).toHaveBeenNthCalledWith(1, { host: 'smtp.example.com', port: 465, secure: true });
+    expect(createTransport).toHaveBeenNthCalledWith(2, { host: 'smtp.example.com', port: 587, secure: false });
+  });
+
+  it('authenticates only when a user is configured', () => {
+    new SmtpMailer('noreply@linkhub.com', { host: 'smtp.example.com', port: 587, user: 'mailer', pass: 'secret' });
+
+    expect(createTransport).toHaveBeenCalledWith(expect.objectContaining({ auth: { user: 'mailer', pass: 'secret' } }));
+  });
+
+  it('fails when the server rejects the message', async () => {
+    sendMail.mockRejectedValue(new Error('550 Mailbox unavailable'));
+    const mailer = new SmtpMailer('noreply@linkhub.com', { host: 'smtp.example.com', port: 587 });
+
+    await expect(mailer.send({ to: 'ada@example.com', subject: 'Hi', text: 'Hi' })).rejects.toThrow('550 Mailbox unavailable');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import prisma from '../config/database';
+import { OgImageService } from '../services/ogImageService';
+import { buildOgImageSvg, cardColors, OgImageInput, renderOgImage, wrapText } from '../utils/ogImage';
+import { serializeSnapshot } from '../utils/pageSnapshot';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    bioPage: { findUnique: jest.fn() },
+    theme: { findUnique: jest.fn() }
+  }
+}));
+
+const input = (overrides: Partial<OgImageInput> = {}): OgImageInput => ({
+  name: 'Jane Doe',
+  handle: '@jane',
+  bio: 'Designer and writer',
+  colors: { background: ['#667eea', '#764ba2'], text: '#ffffff', accent: '#ffffff' },
+  avatar: null,
+  ...overrides
+});
+
+describe('share image colors', () => {
+  it('reads gradient stops and text color from theme CSS', () => {
+    const colors = cardColors('.bio-page { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }', null);
+
+    expect(colors).toEqual({ background: ['#667eea', '#764ba2'], text: '#ffffff', accent: '#ffffff' });
+  });
+
+  it('picks dark text for light backgrounds without a text color', () => {
+    expect(cardColors('.bio-page { background: linear-gradient(45deg, #ff9a9e 0%, #fecfef 100%); }', null).text).toBe('#111827');
+    expect(cardColors('.bio-page { background: #1a1a1a; }', null).text).toBe('#ffffff');
+  });
+
+  it('lets valid custom colors override the theme', () => {
+    const colors = cardColors('.bio-page { background: #ffffff; color: #333333; }', {
+      background: '#000000',
+      text: 'not-a-color',
+      primary: '#ff0000'
+    });
+
+    expect(colors).toEqual({ background: ['#000000'], text: '#333333', accent: '#ff0000' });
+  });
+});
+
+describe('share image layout', () => {
+  it('wraps text and marks where it was cut', () => {
+    expect(wrapText('one two three four', 9, 3)).toEqual(['one two', 'three', 'four']);
+    expect(wrapText('one two three four', 9, 2)).toEqual(['one two', 'three…']);
+    expect(wrapText('supercalifragilistic', 10, 1)).toEqual(['supercali…']);
+  });
+
+  it('escapes profile text in the SVG', () => {
+    const svg = buildOgImageSvg(input({ name: '<Jane & "Co">' }));
+
+    expect(svg).toContain('&lt;Jane &amp; &quot;Co&quot;&gt;');
+    expect(svg).not.toContain('<Jane');
+  });
+
+  it('renders a 1200x630 PNG, with or without an avatar', async () => {
+    const avatar = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#e11d48' } }).jpeg().toBuffer();
+
+    for (const png of [await renderOgImage(input()), await renderOgImage(input({ avatar }))]) {
+      const metadata = await sharp(png).metadata();
+      expect(metadata).toMatchObject({ format: 'png', width: 1200, height: 630 });
+    }
+  });
+
+  it('falls back to the initial when the avatar is unreadable', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const png = await renderOgImage(input({ avatar: Buffer.from('not an image') }));
+
+    expect((await sharp(png).metadata()).width).toBe(1200);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('OgImageService', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'og-'));
+    (prisma.bioPage.findUnique as unknown as jest.Mock).mockResolvedValue({
+      id: 'p1',
+      slug: 'home',
+      isPrimary: true,
+      isPublished: true,
+      themeId: 'default',
+      publishedRevision: {
+        snapshot: serializeSnapshot({ themeId: 'default', themeVersion: 1, customColors: null, outboundParams: null, links: [] })
+      },
+      user: { username: 'jane', profileName: 'Jane Doe', profileBio: null, profileImageUrl: null, avatarKey: null }
+    });
+    (prisma.theme.findUnique as unknown as jest.Mock).mockResolvedValue({ id: 'default', version: 1, cssTemplate: '' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('draws a card once and serves it from the cache', async () => {
+    const service = new OgImageService(directory);
+
+    const file = await service.getImage('p1');
+
+    expect(file).toMatch(/p1-[0-9a-f]{16}\.png$/);
+    expect(await service.getImage('p1')).toBe(file);
+    expect(await fs.readdir(directory)).toEqual([path.basename(file as string)]);
+  });
+
+  it('treats losing the rename to a request drawing the same card as success', async () => {
+    const service = new OgImageService(directory);
+    const rename = fs.rename.bind(fs);
+
+    // Another request moves its copy into place first, then ours has gone missing
+    jest.spyOn(fs, 'rename').mockImplementationOnce(async (from, to) => {
+      await rename(from, to);
+      throw Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' });
+    });
+
+    const file = await service.getImage('p1');
+
+    expect(file).not.toBeNull();
+    expect(await fs.readdir(directory)).toEqual([path.basename(file as string)]);
+  });
+
+  it('still fails when the card could not be written', async () => {
+    const service = new OgImageService(directory);
+    jest.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' }));
+
+    await expect(service.getImage('p1')).rejects.toThrow('ENOENT');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
\ No newline at end of file
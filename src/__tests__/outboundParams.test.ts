@@ -0,0 +1,39 @@
+import { applyOutboundParams, normalizeParamTemplate, slugify } from '../utils/outboundParams';
+import { ValidationError } from '../utils/errors';
+
+const context = { username: 'jane', linkId: 'clk123', linkTitle: 'My Café Playlist!' };
+const PAGE = 'utm_source=linkhub&utm_medium=bio&utm_campaign={username}';
+
+describe('outbound parameter templates', () => {
+  it('slugifies link titles', () => {
+    expect(slugify('My Café Playlist!')).toBe('my-cafe-playlist');
+  });
+
+  it('validates templates and their variables', () => {
+    expect(normalizeParamTemplate('?utm_source=linkhub', 'outboundParams')).toBe('utm_source=linkhub');
+    expect(normalizeParamTemplate('  ', 'outboundParams')).toBeNull();
+    expect(normalizeParamTemplate(null, 'outboundParams')).toBeNull();
+    expect(() => normalizeParamTemplate('utm_campaign={campaign}', 'outboundParams')).toThrow(ValidationError);
+    expect(() => normalizeParamTemplate('=value', 'outboundParams')).toThrow(ValidationError);
+  });
+
+  it('fills in variables', () => {
+    expect(applyOutboundParams('https://example.com/shop', [PAGE, 'utm_content={link_slug}-{link_id}'], context))
+      .toBe('https://example.com/shop?utm_source=linkhub&utm_medium=bio&utm_campaign=jane&utm_content=my-cafe-playlist-clk123');
+  });
+
+  it('lets link templates override the page template', () => {
+    expect(applyOutboundParams('https://example.com/', [PAGE, 'utm_medium=story'], context))
+      .toBe('https://example.com/?utm_source=linkhub&utm_medium=story&utm_campaign=jane');
+  });
+
+  it('never clobbers parameters already on the destination', () => {
+    expect(applyOutboundParams('https://example.com/p?utm_source=newsletter&q=a%20b#top', [PAGE], context))
+      .toBe('https://example.com/p?utm_source=newsletter&q=a%20b&utm_medium=bio&utm_campaign=jane#top');
+  });
+
+  it('leaves non-web destinations and untemplated links alone', () => {
+    expect(applyOutboundParams('mailto:jane@example.com', [PAGE], context)).toBe('mailto:jane@example.com');
+    expect(applyOutboundParams('https://example.com/?a=1', [null, null], context)).toBe('https://example.com/?a=1');
+  });
+});
\ No newline at end of file
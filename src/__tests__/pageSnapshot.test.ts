@@ -0,0 +1,159 @@
+import { diffSnapshots, liveSnapshotLinks, PageSnapshot, parseSnapshot, serializeSnapshot, SnapshotLink, takeSnapshot } from '../utils/pageSnapshot';
+
+const link = (id: string, overrides: Partial<SnapshotLink> = {}): SnapshotLink => ({
+  id,
+  kind: 'link',
+  type: 'url',
+  parentId: null,
+  title: id,
+  url: `https://example.com/${id}`,
+  iconName: null,
+  isActive: true,
+  isCollapsed: false,
+  orderIndex: 1,
+  activeFrom: null,
+  activeUntil: null,
+  gateType: null,
+  gatePasswordHash: null,
+  outboundParams: null,
+  variants: [],
+  rules: [],
+  ...overrides
+});
+
+const page = (links: SnapshotLink[], overrides: Partial<PageSnapshot> = {}): PageSnapshot => ({
+  themeId: 'default',
+  themeVersion: 1,
+  customColors: null,
+  outboundParams: null,
+  links,
+  ...overrides
+});
+
+describe('page snapshots', () => {
+  it('round-trips through JSON, sorted by position', () => {
+    const snapshot = takeSnapshot(page([]), [
+      link('b', { orderIndex: 2, activeUntil: new Date('2026-01-01T00:00:00Z') }),
+      link('a', { orderIndex: 1 })
+    ]);
+
+    const parsed = parseSnapshot(serializeSnapshot(snapshot));
+
+    expect(parsed.links.map(item => item.id)).toEqual(['a', 'b']);
+    expect(parsed.links[1]?.activeUntil).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(diffSnapshots(snapshot, parsed).hasChanges).toBe(false);
+  });
+
+  it('reads revisions backfilled by the migration', () => {
+    const parsed = parseSnapshot(JSON.stringify({
+      version: 1,
+      themeId: 'default',
+      customColors: null,
+      outboundParams: null,
+      links: [{ ...link('a'), isActive: 1, activeFrom: 1767225600000, activeUntil: '2026-02-01 12:00:00' }]
+    }));
+
+    expect(parsed.themeVersion).toBe(1);
+    expect(parsed.links[0]).toMatchObject({
+      isActive: true,
+      activeFrom: new Date('2026-01-01T00:00:00Z'),
+      activeUntil: new Date('2026-02-01T12:00:00Z')
+    });
+  });
+
+  it('records variants in creation order and rules in priority order', () => {
+    const snapshot = parseSnapshot(serializeSnapshot(takeSnapshot(page([]), [link('a', {
+      variants: [
+        { id: 'v2', title: 'Sale', url: null, weight: 50, createdAt: new Date('2026-03-02T00:00:00Z') },
+        { id: 'v1', title: null, url: null, weight: 50, createdAt: new Date('2026-03-01T00:00:00Z') }
+      ],
+      rules: [
+        { id: 'r2', conditionType: 'device', conditionValue: 'mobile', targetUrl: 'https://m.example.com', orderIndex: 2 },
+        { id: 'r1', conditionType: 'os', conditionValue: 'ios', targetUrl: 'https://apps.apple.com/app', orderIndex: 1 }
+      ]
+    })])));
+
+    expect(snapshot.links[0]?.variants?.map(variant => variant.id)).toEqual(['v1', 'v2']);
+    expect(snapshot.links[0]?.variants?.[0]?.createdAt).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(snapshot.links[0]?.rules?.map(rule => rule.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('marks variants and rules as unrecorded in revisions published before they were versioned', () => {
+    const { variants, rules, ...legacyLink } = link('a');
+    const parsed = parseSnapshot(JSON.stringify({ version: 2, ...page([]), links: [legacyLink] }));
+
+    expect(parsed.links[0]).toMatchObject({ variants: null, rules: null });
+    expect(diffSnapshots(parsed, page([link('a', { rules: [] })])).hasChanges).toBe(false);
+  });
+
+  it('keeps only links that are on and inside their schedule', () => {
+    const now = new Date('2026-06-01T00:00:00Z');
+    const snapshot = page([
+      link('on'),
+      link('off', { isActive: false }),
+      link('later', { activeFrom: new Date('2026-07-01T00:00:00Z') }),
+      link('over', { activeUntil: new Date('2026-05-01T00:00:00Z') })
+    ]);
+
+    expect(liveSnapshotLinks(snapshot, now).map(item => item.id)).toEqual(['on']);
+  });
+});
+
+describe('snapshot diffs', () => {
+  it('lists added, removed and changed links', () => {
+    const diff = diffSnapshots(
+      page([link('a'), link('b', { orderIndex: 2 })]),
+      page([link('a', { title: 'Renamed' }), link('c', { orderIndex: 3 })], { themeId: 'dark' })
+    );
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.settings).toEqual([{ field: 'themeId', from: 'default', to: 'dark' }]);
+    expect(diff.added.map(item => item.id)).toEqual(['c']);
+    expect(diff.removed.map(item => item.id)).toEqual(['b']);
+    expect(diff.changed).toEqual([
+      { id: 'a', kind: 'link', title: 'Renamed', changes: [{ field: 'title', from: 'a', to: 'Renamed' }] }
+    ]);
+    expect(diff.reordered).toBe(false);
+  });
+
+  it('reports a newer version of the same theme', () => {
+    const live = page([], { themeVersion: 1 });
+
+    expect(diffSnapshots(live, page([], { themeVersion: 3 })).settings)
+      .toEqual([{ field: 'themeVersion', from: 1, to: 3 }]);
+    expect(diffSnapshots(live, page([], { themeId: 'dark', themeVersion: 3 })).settings)
+      .toEqual([{ field: 'themeId', from: 'default', to: 'dark' }]);
+  });
+
+  it('reports password changes without the hash', () => {
+    const diff = diffSnapshots(
+      page([link('a', { gateType: 'password', gatePasswordHash: 'old-hash' })]),
+      page([link('a', { gateType: 'password', gatePasswordHash: 'new-hash' })])
+    );
+
+    expect(diff.changed[0]?.changes).toEqual([{ field: 'gatePassword', from: null, to: null }]);
+  });
+
+  it('reports changed variants and rules as link changes', () => {
+    const variant = { id: 'v1', title: null, url: 'https://example.com/b', weight: 50, createdAt: new Date('2026-03-01T00:00:00Z') };
+    const rule = { id: 'r1', conditionType: 'country', conditionValue: 'DE', targetUrl: 'https://example.de', orderIndex: 1 };
+    const diff = diffSnapshots(
+      page([link('a', { variants: [variant], rules: [rule] })]),
+      page([link('a', { variants: [{ ...variant, weight: 0 }], rules: [rule] })])
+    );
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.changed[0]?.changes).toEqual([{
+      field: 'variants',
+      from: [variant],
+      to: [{ ...variant, weight: 0 }]
+    }]);
+  });
+
+  it('detects reordering among links on both sides only', () => {
+    const before = page([link('a', { orderIndex: 1 }), link('b', { orderIndex: 2 })]);
+
+    expect(diffSnapshots(before, page([link('b', { orderIndex: 1 }), link('a', { orderIndex: 2 })])).reordered).toBe(true);
+    expect(diffSnapshots(before, page([link('new', { orderIndex: 0 }), ...before.links])).reordered).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { classifyTraffic, normalizeReferrer, parseCampaignParams } from '../utils/referrers';
+
+const untagged = parseCampaignParams({});
+
+describe('referrer normalization', () => {
+  it('names well-known sites and their link shims', () => {
+    expect(normalizeReferrer('https://l.instagram.com/?u=https%3A%2F%2Flinkhub.com')).toEqual({ referrerSource: 'Instagram', channel: 'social' });
+    expect(normalizeReferrer('https://t.co/abc123')).toEqual({ referrerSource: 'X/Twitter', channel: 'social' });
+    expect(normalizeReferrer('https://l.facebook.com/l.php?u=x')).toEqual({ referrerSource: 'Facebook', channel: 'social' });
+    expect(normalizeReferrer('https://www.google.co.uk/')).toEqual({ referrerSource: 'Google', channel: 'search' });
+  });
+
+  it('tells webmail apart from the search engine it shares a domain with', () => {
+    expect(normalizeReferrer('https://mail.google.com/mail/u/0/')).toEqual({ referrerSource: 'Gmail', channel: 'email' });
+    expect(normalizeReferrer('android-app://com.google.android.gm/')).toEqual({ referrerSource: 'Gmail', channel: 'email' });
+  });
+
+  it('keeps the hostname of sites it does not know', () => {
+    expect(normalizeReferrer('https://www.example.com/blog/post')).toEqual({ referrerSource: 'example.com', channel: 'other' });
+  });
+
+  it('treats visits without a referrer as direct', () => {
+    expect(normalizeReferrer(null)).toEqual({ referrerSource: null, channel: 'direct' });
+    expect(normalizeReferrer('  ')).toEqual({ referrerSource: null, channel: 'direct' });
+    expect(normalizeReferrer('not a url')).toEqual({ referrerSource: null, channel: 'other' });
+  });
+});
+
+describe('campaign tagging', () => {
+  it('captures utm parameters, trimmed and lowercased', () => {
+    expect(parseCampaignParams({ utm_source: ' Newsletter ', utm_medium: 'Email', utm_campaign: 'spring-sale', utm_term: ['a', 'b'] })).toEqual({
+      utmSource: 'newsletter',
+      utmMedium: 'email',
+      utmCampaign: 'spring-sale',
+      utmTerm: null,
+      utmContent: null
+    });
+  });
+
+  it('lets the referrer decide when nothing is tagged', () => {
+    expect(classifyTraffic('https://x.com/someone', untagged)).toEqual({ referrerSource: 'X/Twitter', channel: 'social' });
+  });
+
+  it('names referrer-less visits after their tagged source', () => {
+    expect(classifyTraffic(null, parseCampaignParams({ utm_source: 'twitter' }))).toEqual({ referrerSource: 'X/Twitter', channel: 'social' });
+    expect(classifyTraffic(null, parseCampaignParams({ utm_source: 'podcast' }))).toEqual({ referrerSource: 'podcast', channel: 'other' });
+  });
+
+  it('takes the channel from a tagged medium', () => {
+    expect(classifyTraffic('https://www.example.com/', parseCampaignParams({ utm_medium: 'newsletter' })))
+      .toEqual({ referrerSource: 'example.com', channel: 'email' });
+    expect(classifyTraffic(null, parseCampaignParams({ utm_medium: 'cpc' }))).toEqual({ referrerSource: null, channel: 'direct' });
+  });
+});
\ No newline at end of file
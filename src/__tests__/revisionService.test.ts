@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { RevisionService } from '../services/revisionService';
+import { serializeSnapshot, SnapshotLink } from '../utils/pageSnapshot';
+import { SubscriptionService } from '../services/subscriptionService';
+import { ConflictError, PlanLimitError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    bioPage: { findMany: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+    bioPageRevision: { findFirst: jest.fn(), create: jest.fn() },
+    link: { findUnique: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn(), update: jest.fn(), create: jest.fn() },
+    linkVariant: { deleteMany: jest.fn(), upsert: jest.fn() },
+    linkRule: { deleteMany: jest.fn(), upsert: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+jest.mock('../services/ogImageService');
+jest.mock('../services/subscriptionService');
+
+const findPages = prisma.bioPage.findMany as unknown as jest.Mock;
+const findLinkRow = prisma.link.findUnique as unknown as jest.Mock;
+const findPage = prisma.bioPage.findFirst as unknown as jest.Mock;
+const updatePage = prisma.bioPage.update as unknown as jest.Mock;
+const findRevision = prisma.bioPageRevision.findFirst as unknown as jest.Mock;
+const createRevision = prisma.bioPageRevision.create as unknown as jest.Mock;
+const findLinkRows = prisma.link.findMany as unknown as jest.Mock;
+const deleteLinks = prisma.link.deleteMany as unknown as jest.Mock;
+const createLink = prisma.link.create as unknown as jest.Mock;
+const transaction = prisma.$transaction as unknown as jest.Mock;
+
+const snapshotLink = (id: string, overrides: Partial<SnapshotLink> = {}): SnapshotLink => ({
+  id,
+  kind: 'link',
+  type: 'url',
+  parentId: null,
+  title: id,
+  url: `https://example.com/${id}`,
+  iconName: null,
+  isActive: true,
+  isCollapsed: false,
+  orderIndex: 1,
+  activeFrom: null,
+  activeUntil: null,
+  gateType: null,
+  gatePasswordHash: null,
+  outboundParams: null,
+  variants: [],
+  rules: [],
+  ...overrides
+});
+
+const snapshotJson = (links: SnapshotLink[], settings: { themeId?: string; customColors?: string | null; outboundParams?: string | null } = {}) => (
+  serializeSnapshot({ themeId: 'default', themeVersion: 1, customColors: null, outboundParams: null, ...settings, links })
+);
+
+const livePage = (links: SnapshotLink[]) => ({
+  id: 'p1',
+  userId: 'u1',
+  isPublished: true,
+  user: { id: 'u1', username: 'jane' },
+  publishedRevision: { snapshot: snapshotJson(links) }
+});
+
+// The page as the owner edits it: link rows, the live revision and the theme
+const draftPage = (links: SnapshotLink[], live: SnapshotLink[]) => ({
+  id: 'p1',
+  themeId: 'default',
+  customColors: null,
+  outboundParams: null,
+  theme: { version: 1 },
+  links,
+  publishedRevision: { id: 'rev2', number: 2, snapshot: snapshotJson(live) }
+});
+
+describe('RevisionService.getLiveLink', () => {
+  const service = new RevisionService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLinkRow.mockResolvedValue({ id: 'l1', variants: [], rules: [] });
+  });
+
+  it('redirects links in a visible group', async () => {
+    findPages.mockResolvedValue([livePage([
+      snapshotLink('g1', { kind: 'group' }),
+      snapshotLink('l1', { parentId: 'g1' })
+    ])]);
+
+    const page = await service.getLiveLink('jane', 'l1');
+
+    expect(page?.link).toMatchObject({ id: 'l1', isInDraft: true });
+  });
+
+  it('hides links inside a hidden group', async () => {
+    findPages.mockResolvedValue([livePage([
+      snapshotLink('g1', { kind: 'group', isActive: false }),
+      snapshotLink('l1', { parentId: 'g1' })
+    ])]);
+
+    const page = await service.getLiveLink('jane', 'l1');
+
+    expect(page).not.toBeNull();
+    expect(page?.link).toBeNull();
+  });
+
+  it('serves the variants and rules that were published, not the draft\'s', async () => {
+    const published = { id: 'v1', title: null, url: 'https://example.com/b', weight: 50, createdAt: new Date('2026-03-01T00:00:00Z') };
+    const rule = { id: 'r1', conditionType: 'os', conditionValue: 'ios', targetUrl: 'https://apps.apple.com/app', orderIndex: 1 };
+    findPages.mockResolvedValue([livePage([snapshotLink('l1', { variants: [published], rules: [rule] })])]);
+    findLinkRow.mockResolvedValue({
+      id: 'l1',
+      variants: [{ ...published, id: 'v2', createdAt: new Date('2026-03-05T00:00:00Z') }],
+      rules: []
+    });
+
+    const page = await service.getLiveLink('jane', 'l1');
+
+    // v1 was deleted from the draft, so clicks on it can't be recorded against it
+    expect(page?.link?.variants).toEqual([{ ...published, isInDraft: false }]);
+    expect(page?.link?.rules).toEqual([rule]);
+  });
+
+  it('uses the draft\'s variants and rules for revisions that didn\'t record them', async () => {
+    const draftVariant = { id: 'v1', linkId: 'l1', title: null, url: null, weight: 50 };
+    findPages.mockResolvedValue([livePage([snapshotLink('l1', { variants: null, rules: null })])]);
+    findLinkRow.mockResolvedValue({ id: 'l1', variants: [draftVariant], rules: [] });
+
+    const page = await service.getLiveLink('jane', 'l1');
+
+    expect(page?.link?.variants).toEqual([{ ...draftVariant, isInDraft: true }]);
+  });
+});
+
+describe('RevisionService publishing', () => {
+  const service = new RevisionService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Interactive transactions run against the same mocked client
+    transaction.mockImplementation(async (work: (tx: typeof prisma) => unknown) => work(prisma));
+    findLinkRows.mockResolvedValue([]);
+    createRevision.mockImplementation(({ data }) => Promise.resolve({ id: `rev${data.number}`, publishedAt: new Date(), ...data }));
+  });
+
+  it('refuses to publish a draft that matches the live revision', async () => {
+    findPage.mockResolvedValue(draftPage([snapshotLink('a')], [snapshotLink('a')]));
+
+    await expect(service.publish('u1')).rejects.toThrow(ValidationError);
+    expect(createRevision).not.toHaveBeenCalled();
+  });
+
+  it('publishes a changed draft as the next revision', async () => {
+    findPage.mockResolvedValue(draftPage([snapshotLink('a', { title: 'Renamed' })], [snapshotLink('a')]));
+    findRevision.mockResolvedValue({ number: 2 });
+
+    const revision = await service.publish('u1');
+
+    expect(revision).toMatchObject({ number: 3, isLive: true, restoredFrom: null });
+    expect(updatePage).toHaveBeenCalledWith({ where: { id: 'p1' }, data: { publishedRevisionId: 'rev3' } });
+  });
+
+  it('turns away a publish that lost the race for the next revision number', async () => {
+    findPage.mockResolvedValue(draftPage([snapshotLink('a', { title: 'Renamed' })], [snapshotLink('a')]));
+    findRevision.mockResolvedValue({ number: 2 });
+    createRevision.mockRejectedValue(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+      meta: { target: ['bio_page_id', 'number'] }
+    }));
+
+    await expect(service.publish('u1')).rejects.toThrow(ConflictError);
+  });
+
+  it('rolls back by re-creating deleted links, groups before the links inside them', async () => {
+    const links = [
+      snapshotLink('l1', { parentId: 'g1', orderIndex: 1 }),
+      snapshotLink('g1', { kind: 'group', url: '', orderIndex: 2 })
+    ];
+    findRevision
+      .mockResolvedValueOnce({ id: 'rev1', number: 1, bioPageId: 'p1', snapshot: snapshotJson(links) })
+      .mockResolvedValueOnce({ number: 4 });
+
+    const revision = await service.rollback('u1', 'rev1');
+
+    expect(deleteLinks).toHaveBeenCalledWith({ where: { bioPageId: 'p1', id: { notIn: ['l1', 'g1'] } } });
+    expect(createLink.mock.calls.map(([{ data }]) => [data.id, data.parentId])).toEqual([['g1', null], ['l1', 'g1']]);
+    expect(revision).toMatchObject({ number: 5, restoredFrom: 1, isLive: true });
+  });
+
+  it('checks a rolled-back revision against the current plan before restoring it', async () => {
+    const links = [snapshotLink('a'), snapshotLink('v', { type: 'youtube' }), snapshotLink('g', { kind: 'group', url: '' })];
+    findRevision.mockResolvedValueOnce({ id: 'rev1', number: 1, bioPageId: 'p1', snapshot: snapshotJson(links) });
+    (SubscriptionService.prototype.assertFeatureAccess as jest.Mock)
+      .mockRejectedValueOnce(new PlanLimitError('Video, music and social embeds are not available on the Free plan.', 'richLinks', 'pro'));
+
+    await expect(service.rollback('u1', 'rev1')).rejects.toThrow(PlanLimitError);
+    // Groups don't count toward the link limit
+    expect(SubscriptionService.prototype.assertWithinLimit).toHaveBeenCalledWith('u1', 'maxLinks', 1);
+    expect(SubscriptionService.prototype.assertFeatureAccess).toHaveBeenCalledWith('u1', 'richLinks');
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('discards the draft by resetting its links and settings to the live revision', async () => {
+    findPage.mockResolvedValue({
+      id: 'p1',
+      publishedRevision: {
+        snapshot: snapshotJson([snapshotLink('a')], { themeId: 'dark', customColors: '{"primary":"#112233"}', outboundParams: 'utm_source=linkhub' })
+      }
+    });
+    findLinkRows.mockResolvedValue([{ id: 'a', url: 'https://example.com/a' }, { id: 'b', url: 'https://example.com/b' }]);
+
+    await service.discardDraft('u1');
+
+    expect(deleteLinks).toHaveBeenCalledWith({ where: { bioPageId: 'p1', id: { notIn: ['a'] } } });
+    expect(updatePage).toHaveBeenCalledWith({
+      where: { id: 'p1' },
+      data: { themeId: 'dark', customColors: '{"primary":"#112233"}', outboundParams: 'utm_source=linkhub' }
+    });
+    expect(createRevision).not.toHaveBeenCalled();
+  });
+
+  it('refuses to discard the draft of a page that was never published', async () => {
+    findPage.mockResolvedValue({ id: 'p1', publishedRevision: null });
+
+    await expect(service.discardDraft('u1')).rejects.toThrow(ValidationError);
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
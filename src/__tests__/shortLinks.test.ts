@@ -0,0 +1,58 @@
+import { generateSlug, normalizeCustomSlug, parseShortLinkSource } from '../utils/shortLinks';
+import { parseQrCodeSize, renderQrCode } from '../utils/qrCode';
+import { validateUsername } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+
+describe('short links', () => {
+  it('generates short, unambiguous slugs', () => {
+    const slug = generateSlug();
+
+    expect(slug).toMatch(/^[a-z2-9]{7}$/);
+    expect(slug).not.toMatch(/[lo01]/);
+  });
+
+  it('normalises custom slugs', () => {
+    expect(normalizeCustomSlug('  Summer-Sale ')).toBe('summer-sale');
+    expect(() => normalizeCustomSlug('ab')).toThrow(ValidationError);
+    expect(() => normalizeCustomSlug('summer--sale')).toThrow(ValidationError);
+    expect(() => normalizeCustomSlug('summer_sale')).toThrow(ValidationError);
+  });
+
+  it('rejects the same reserved names as usernames', () => {
+    expect(() => normalizeCustomSlug('Admin')).toThrow('reserved');
+    expect(validateUsername('admin').isValid).toBe(false);
+  });
+
+  it('only accepts known visit sources', () => {
+    expect(parseShortLinkSource('qr')).toBe('qr');
+    expect(parseShortLinkSource('short_link')).toBe('short_link');
+    expect(parseShortLinkSource('email')).toBeNull();
+    expect(parseShortLinkSource(undefined)).toBeNull();
+  });
+});
+
+describe('QR codes', () => {
+  const colors = { primary: '#f0a', secondary: '#333333', background: '#102030', text: '#ffffff' };
+
+  it('renders SVG in the theme colours', async () => {
+    const svg = await renderQrCode('https://linkhub.com/s/summer-sale?src=qr', 'svg', { size: 256, colors }) as string;
+
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('#ff00aa');
+    expect(svg).toContain('#102030');
+  });
+
+  it('renders PNG at the requested size', async () => {
+    const png = await renderQrCode('https://linkhub.com/s/summer-sale', 'png', { size: 128 }) as Buffer;
+
+    expect(png.subarray(1, 4).toString()).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(128);
+  });
+
+  it('validates the size', () => {
+    expect(parseQrCodeSize(undefined)).toBe(512);
+    expect(parseQrCodeSize('300')).toBe(300);
+    expect(() => parseQrCodeSize('10')).toThrow(ValidationError);
+    expect(() => parseQrCodeSize('big')).toThrow(ValidationError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,92 @@
+import prisma from '../config/database';
+import { SubscriptionService } from '../services/subscriptionService';
+import { PlanLimitError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    user: { findUnique: jest.fn() }
+  }
+}));
+
+const findUser = prisma.user.findUnique as unknown as jest.Mock;
+
+describe('SubscriptionService entitlements', () => {
+  const service = new SubscriptionService();
+
+  beforeEach(() => {
+    findUser.mockReset();
+  });
+
+  it('only limits links on the free plan', () => {
+    expect(service.getPlan('free')?.entitlements.maxLinks).toBe(5);
+    expect(service.getPlan('pro')?.entitlements.maxLinks).toBeNull();
+    expect(service.getPlan('pro-yearly')?.entitlements.maxLinks).toBeNull();
+  });
+
+  it('resolves free users to the free plan', async () => {
+    findUser.mockResolvedValue({ id: 'u1', subscriptionTier: 'free', subscriptions: [] });
+
+    const plan = await service.getUserPlan('u1');
+
+    expect(plan.id).toBe('free');
+    expect(await service.hasFeatureAccess('u1', 'customColors')).toBe(false);
+  });
+
+  it('resolves paying users to their subscribed plan', async () => {
+    findUser.mockResolvedValue({
+      id: 'u2',
+      subscriptionTier: 'pro',
+      subscriptions: [{ planId: 'pro-yearly' }]
+    });
+
+    const plan = await service.getUserPlan('u2');
+
+    expect(plan.id).toBe('pro-yearly');
+    expect(await service.hasFeatureAccess('u2', 'premiumThemes')).toBe(true);
+  });
+
+  it('reads the plan from the newest live subscription', async () => {
+    findUser.mockResolvedValue({ id: 'u2', subscriptionTier: 'pro', subscriptions: [{ planId: 'pro' }] });
+
+    await service.getUserPlan('u2');
+
+    expect(findUser).toHaveBeenCalledWith({
+      where: { id: 'u2' },
+      include: {
+        subscriptions: {
+          where: { status: { in: ['active', 'trialing'] } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    });
+  });
+
+  it('throws PLAN_LIMIT_REACHED naming the limit and the plan that lifts it', async () => {
+    findUser.mockResolvedValue({ id: 'u1', subscriptionTier: 'free', subscriptions: [] });
+
+    await expect(service.assertWithinLimit('u1', 'maxLinks', 4)).resolves.toBeUndefined();
+
+    const error = await service.assertWithinLimit('u1', 'maxLinks', 5).catch(e => e);
+    expect(error).toBeInstanceOf(PlanLimitError);
+    expect(error.code).toBe('PLAN_LIMIT_REACHED');
+    expect(error.limit).toBe('maxLinks');
+    expect(error.requiredPlan).toBe('pro');
+  });
+
+  it('never limits unlimited entitlements', async () => {
+    findUser.mockResolvedValue({ id: 'u2', subscriptionTier: 'pro', subscriptions: [] });
+
+    await expect(service.assertWithinLimit('u2', 'maxLinks', 1000)).resolves.toBeUndefined();
+  });
+
+  it('rejects gated features with the upgrade plan', async () => {
+    findUser.mockResolvedValue(null);
+
+    const error = await service.assertFeatureAccess('missing', 'customDomains').catch(e => e);
+    expect(error).toBeInstanceOf(PlanLimitError);
+    expect(error.limit).toBe('customDomains');
+    expect(error.requiredPlan).toBe('pro');
+  });
+});
\ No newline at end of file
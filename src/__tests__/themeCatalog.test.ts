@@ -0,0 +1,161 @@
+import prisma from '../config/database';
+import { ThemeCatalogService } from '../services/themeCatalogService';
+import { withThemeVersion } from '../utils/themeVersions';
+import { parsePagination, paginationMeta } from '../utils/pagination';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    theme: { findMany: jest.fn(), count: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+    themeVersion: { findUnique: jest.fn(), findMany: jest.fn() },
+    bioPageRevision: { findMany: jest.fn() }
+  }
+}));
+
+const findThemes = prisma.theme.findMany as unknown as jest.Mock;
+const countThemes = prisma.theme.count as unknown as jest.Mock;
+const findTheme = prisma.theme.findUnique as unknown as jest.Mock;
+const findCatalogTheme = prisma.theme.findFirst as unknown as jest.Mock;
+const updateTheme = prisma.theme.update as unknown as jest.Mock;
+const findVersion = prisma.themeVersion.findUnique as unknown as jest.Mock;
+const findVersions = prisma.themeVersion.findMany as unknown as jest.Mock;
+const findRevisions = prisma.bioPageRevision.findMany as unknown as jest.Mock;
+
+const theme = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sunset',
+  name: 'Sunset',
+  isPremium: false,
+  previewImageUrl: null,
+  cssTemplate: '.bio-page { background: #1a1a1a; color: #ffffff; }',
+  colorVariables: '["primary","text"]',
+  tags: '["dark"]',
+  version: 2,
+  retiredAt: null,
+  ownerId: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const snapshot = (themeId: string, themeVersion?: number) => JSON.stringify({
+  version: 2, themeId, ...(themeVersion !== undefined && { themeVersion }), customColors: null, outboundParams: null, links: []
+});
+
+describe('theme catalog', () => {
+  const service = new ThemeCatalogService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateTheme.mockImplementation(async ({ data }) => ({ ...theme(), ...data }));
+  });
+
+  it('filters by tier and tags, one page at a time', async () => {
+    findThemes.mockResolvedValue([theme()]);
+    countThemes.mockResolvedValue(21);
+
+    const { themes, total } = await service.listThemes({ tier: 'free', tags: ['dark', 'minimal'] }, 2, 20);
+
+    expect(findThemes.mock.calls[0][0]).toMatchObject({
+      where: {
+        ownerId: null,
+        retiredAt: null,
+        isPremium: false,
+        AND: [{ tags: { contains: '"dark"' } }, { tags: { contains: '"minimal"' } }]
+      },
+      skip: 20,
+      take: 20
+    });
+    expect(themes[0]).toMatchObject({ id: 'sunset', tags: ['dark'], colorVariables: ['primary', 'text'], version: 2 });
+    expect(paginationMeta(2, 20, total)).toEqual({ page: 2, limit: 20, total: 21, totalPages: 2 });
+  });
+
+  it('parses page and limit from the query', () => {
+    expect(parsePagination({}, 50)).toEqual({ page: 1, limit: 20 });
+    expect(parsePagination({ page: '3', limit: '500' }, 50)).toEqual({ page: 3, limit: 50 });
+    expect(() => parsePagination({ page: '0' }, 50)).toThrow('page must be a positive whole number');
+  });
+
+  it('validates new themes', async () => {
+    findTheme.mockResolvedValue(null);
+
+    await expect(service.createTheme({ id: 'custom-x', name: 'X', cssTemplate: '.bio-page { color: #000; }' }))
+      .rejects.toThrow(ValidationError);
+    await expect(service.createTheme({ id: 'lemon', name: 'Lemon', cssTemplate: '.bio-page { background: #ffff00; color: #ffffff; }' }))
+      .rejects.toThrow('contrast ratio of 1.07:1');
+    await expect(service.createTheme({ id: 'lemon', name: 'Lemon', cssTemplate: '.bio-page { color: #000; }', tags: ['Bright!'] }))
+      .rejects.toThrow('tags must be');
+
+    findTheme.mockResolvedValue(theme());
+    await expect(service.createTheme({ id: 'sunset', name: 'Sunset', cssTemplate: '.bio-page { color: #000; }' }))
+      .rejects.toThrow(ConflictError);
+  });
+
+  it('versions style changes but not metadata', async () => {
+    findCatalogTheme.mockResolvedValue(theme());
+
+    await service.updateTheme('sunset', { name: 'Sunset II', tags: ['dark', 'warm'] });
+    expect(updateTheme.mock.calls[0][0].data).toEqual({ name: 'Sunset II', tags: '["dark","warm"]' });
+
+    const updated = await service.updateTheme('sunset', { cssTemplate: '.bio-page { background: #111827; color: #f9fafb; }' });
+    const css = '.bio-page { background: #111827; color: #f9fafb; }';
+
+    expect(updateTheme.mock.calls[1][0].data).toMatchObject({
+      cssTemplate: css,
+      version: 3,
+      versions: { create: { version: 3, cssTemplate: css, colorVariables: '["primary","text"]' } }
+    });
+    expect(updated.version).toBe(3);
+  });
+
+  it('counts the live pages still on each version', async () => {
+    findCatalogTheme.mockResolvedValue(theme());
+    findVersions.mockResolvedValue([
+      { version: 2, cssTemplate: 'b', colorVariables: '[]', createdAt: new Date() },
+      { version: 1, cssTemplate: 'a', colorVariables: '[]', createdAt: new Date() }
+    ]);
+    findRevisions.mockResolvedValue([
+      { snapshot: snapshot('sunset', 2) },
+      { snapshot: snapshot('sunset') }, // published before themes were versioned
+      { snapshot: snapshot('sunset', 1) },
+      { snapshot: snapshot('sunset-pro', 2) }
+    ]);
+
+    const versions = await service.listVersions('sunset');
+
+    expect(versions.map(version => [version.version, version.pageCount])).toEqual([[2, 1], [1, 2]]);
+  });
+
+  it('keeps the default theme in the catalog', async () => {
+    findCatalogTheme.mockResolvedValue(theme({ id: 'default' }));
+    await expect(service.retireTheme('default')).rejects.toThrow(ValidationError);
+
+    findCatalogTheme.mockResolvedValue(null);
+    await expect(service.retireTheme('nope')).rejects.toThrow(NotFoundError);
+  });
+
+  it('previews an earlier version', async () => {
+    findCatalogTheme.mockResolvedValue(theme());
+    findVersion.mockResolvedValue({ cssTemplate: '.bio-page { background: #fef3c7; color: #1f2937; }', colorVariables: '[]' });
+
+    const html = await service.previewTheme('sunset', 1);
+
+    expect(html).toContain('#fef3c7');
+    expect(html).toContain('My Portfolio');
+
+    findVersion.mockResolvedValue(null);
+    await expect(service.previewTheme('sunset', 9)).rejects.toThrow('Theme version not found');
+  });
+});
+
+describe('pinned theme versions', () => {
+  it('swaps in the styles a revision was published with', async () => {
+    findVersion.mockResolvedValue({ cssTemplate: 'old', colorVariables: '["text"]' });
+
+    expect(await withThemeVersion(theme(), 1)).toMatchObject({ id: 'sunset', cssTemplate: 'old', colorVariables: '["text"]' });
+
+    findVersion.mockClear();
+    expect((await withThemeVersion(theme(), 2)).cssTemplate).toContain('#1a1a1a');
+    expect(findVersion).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { buildThemeCss, compileThemeSettings, isAllowedAssetUrl, normalizeThemeSettings, sanitizeThemeCss } from '../utils/themeCss';
+import { cardColors } from '../utils/ogImage';
+import { ValidationError } from '../utils/errors';
+
+describe('custom theme CSS sanitizer', () => {
+  const appUrl = process.env['APP_URL'];
+  const cdnUrl = process.env['CDN_BASE_URL'];
+
+  beforeAll(() => {
+    process.env['APP_URL'] = 'https://linkhub.com';
+    process.env['CDN_BASE_URL'] = 'https://cdn.linkhub.com';
+  });
+
+  afterAll(() => {
+    process.env['APP_URL'] = appUrl;
+    process.env['CDN_BASE_URL'] = cdnUrl;
+  });
+
+  it('scopes every selector to the page', () => {
+    const css = sanitizeThemeCss(`
+      /* buttons */
+      .bio-link, a:hover { border-radius: 0; color: #fff }
+      body { letter-spacing: 0.02em; }
+      .bio-page h1 { font-weight: 800; }
+    `);
+
+    expect(css).toBe([
+      '.bio-page .bio-link, .bio-page a:hover { border-radius: 0; color: #fff; }',
+      '.bio-page { letter-spacing: 0.02em; }',
+      '.bio-page h1 { font-weight: 800; }'
+    ].join('\n'));
+  });
+
+  it('keeps @media but rejects every other at-rule', () => {
+    expect(sanitizeThemeCss('@media (max-width: 600px) { h1 { font-size: 1.5rem; } }'))
+      .toBe('@media (max-width: 600px) {\n  .bio-page h1 { font-size: 1.5rem; }\n}');
+
+    expect(() => sanitizeThemeCss('@import url("https://evil.example/x.css");')).toThrow(ValidationError);
+    expect(() => sanitizeThemeCss('h1 { color: red; } @import "x.css"; h2 { color: blue; }')).toThrow('not allowed');
+    expect(() => sanitizeThemeCss('@font-face { font-family: x; src: url(/uploads/x.woff); }')).toThrow('@font-face');
+    expect(() => sanitizeThemeCss('@media print { @media screen { h1 { color: red; } } }')).toThrow(ValidationError);
+  });
+
+  it('only allows url() to uploads and the CDN', () => {
+    expect(sanitizeThemeCss('.bio-page { background: url("/uploads/bg.webp") center / cover; }'))
+      .toContain('url("/uploads/bg.webp")');
+    expect(sanitizeThemeCss('.bio-page { background: url(https://cdn.linkhub.com/bg.webp); }'))
+      .toContain('cdn.linkhub.com');
+
+    expect(() => sanitizeThemeCss('h1 { background: url(https://evil.example/track.gif); }')).toThrow('not allowed');
+    expect(() => sanitizeThemeCss('h1 { background: url(//evil.example/track.gif); }')).toThrow('not allowed');
+    expect(() => sanitizeThemeCss('h1 { background: url(/uploads/../secrets.txt); }')).toThrow('not allowed');
+    expect(() => sanitizeThemeCss('h1 { background: image-set("https://evil.example/a.png" 1x); }')).toThrow('not allowed');
+  });
+
+  it('rejects expressions, escapes, markup and script behaviours', () => {
+    expect(() => sanitizeThemeCss('h1 { width: expression(alert(1)); }')).toThrow('not allowed');
+    expect(() => sanitizeThemeCss('h1 { background: url(javascript:alert(1)); }')).toThrow(ValidationError);
+    expect(() => sanitizeThemeCss('h1 { behavior: url(/uploads/x.htc); }')).toThrow('behavior');
+    expect(() => sanitizeThemeCss('h1 { background: u\\72l(https://evil.example/a.png); }')).toThrow('Escapes');
+    expect(() => sanitizeThemeCss('h1 { color: red; }</style><script>alert(1)</script>')).toThrow('Markup');
+    expect(() => sanitizeThemeCss('h1 { color: red; ')).toThrow('Unclosed');
+  });
+
+  it('checks asset URLs', () => {
+    expect(isAllowedAssetUrl('/uploads/avatars/u1/a-400.webp')).toBe(true);
+    expect(isAllowedAssetUrl('https://linkhub.com/uploads/bg.png')).toBe(true);
+    expect(isAllowedAssetUrl('http://cdn.linkhub.com/bg.png')).toBe(false);
+    expect(isAllowedAssetUrl('/uploads/bg.png") ; x: url("')).toBe(false);
+  });
+});
+
+describe('theme builder', () => {
+  it('fills in defaults and validates settings', () => {
+    const settings = normalizeThemeSettings({ font: 'serif', buttonShape: 'pill' });
+
+    expect(settings.font).toBe('serif');
+    expect(settings.buttonStyle).toBe('glass');
+    expect(settings.background).toEqual({ type: 'gradient', from: '#667eea', to: '#764ba2', angle: 135 });
+
+    expect(() => normalizeThemeSettings({ font: 'comic-sans' })).toThrow('font must be one of');
+    expect(() => normalizeThemeSettings({ font: 'constructor' })).toThrow('font must be one of');
+    expect(() => normalizeThemeSettings({ buttonShape: 'toString' })).toThrow('buttonShape must be one of');
+    expect(() => normalizeThemeSettings({ textColor: 'red' })).toThrow('textColor must be a hex color');
+    expect(() => normalizeThemeSettings({ background: { type: 'image', url: 'https://evil.example/a.png' } }))
+      .toThrow('background.url');
+  });
+
+  it('compiles settings into CSS the share image can read', () => {
+    const settings = normalizeThemeSettings({
+      font: 'mono',
+      buttonShape: 'square',
+      buttonStyle: 'solid',
+      background: { type: 'solid', color: '#fef3c7' },
+      textColor: '#1f2937',
+      buttonColor: '#f59e0b',
+      buttonTextColor: '#111827'
+    });
+
+    const css = buildThemeCss(settings, '.bio-page h1 { font-weight: 800; }');
+
+    expect(compileThemeSettings(settings)).toContain('body.bio-page .bio-link { border-radius: 0; color: #111827; background: #f59e0b;');
+    expect(css).toContain('font-family: ui-monospace');
+    expect(css.endsWith('.bio-page h1 { font-weight: 800; }')).toBe(true);
+    expect(cardColors(css, null)).toEqual({ background: ['#fef3c7'], text: '#1f2937', accent: '#1f2937' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { parseUserAgent } from '../utils/userAgent';
+
+describe('user agent parsing', () => {
+  it('finds the browser family and major version', () => {
+    const cases: Array<[string, string, string | null]> = [
+      ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1', 'safari', '17'],
+      ['Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4.1 Safari/605.1.15', 'safari', '17'],
+      ['Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36', 'chrome', '124'],
+      ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1', 'chrome', '124'],
+      ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51', 'edge', '124'],
+      ['Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:125.0) Gecko/20100101 Firefox/125.0', 'firefox', '125'],
+      ['Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36', 'samsung', '24'],
+      ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 OPR/109.0.0.0', 'opera', '109'],
+      ['Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:126.0) Gecko/20100101 Firefox/126.0 Brave', 'firefox', '126']
+    ];
+
+    cases.forEach(([userAgent, browser, browserVersion]) => {
+      expect(parseUserAgent(userAgent)).toMatchObject({ browser, browserVersion });
+    });
+  });
+
+  it('tells in-app browsers apart from the engine they embed', () => {
+    expect(parseUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/21E236 Instagram 330.0.3.22.86 (iPhone15,2; iOS 17_4; en_US)'
+    )).toEqual({ os: 'ios', deviceType: 'mobile', browser: 'instagram', browserVersion: '330' });
+
+    expect(parseUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/21E236 [FBAN/FBIOS;FBAV/458.0.0.39.110;FBBV/1]'
+    )).toMatchObject({ browser: 'facebook', browserVersion: '458' });
+
+    expect(parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/UQ1A; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0.6367.82 Mobile Safari/537.36 trill_340205 BytedanceWebview/d8a21c6'
+    )).toMatchObject({ os: 'android', browser: 'tiktok', browserVersion: null });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { applyVariant, compareConversionRates, pickVariant } from '../utils/variants';
+
+describe('A/B variants', () => {
+  const variants = [
+    { id: 'a', weight: 70, title: null, url: null },
+    { id: 'b', weight: 30, title: 'Shop the drop', url: 'https://example.com/b' }
+  ];
+
+  it('serves the same variant to the same visitor', () => {
+    const first = pickVariant(variants, 'visitor-hash', 'link-1');
+
+    for (let i = 0; i < 10; i++) {
+      expect(pickVariant(variants, 'visitor-hash', 'link-1')).toBe(first);
+    }
+  });
+
+  it('splits traffic roughly by weight', () => {
+    let served = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickVariant(variants, `visitor-${i}`, 'link-1')?.id === 'b') {
+        served++;
+      }
+    }
+
+    expect(served / 2000).toBeGreaterThan(0.25);
+    expect(served / 2000).toBeLessThan(0.35);
+  });
+
+  it('serves nothing when every variant is paused', () => {
+    expect(pickVariant([{ id: 'a', weight: 0 }], 'visitor-hash', 'link-1')).toBeNull();
+  });
+
+  it('falls back to the link title and URL', () => {
+    const link = { id: 'link-1', title: 'Shop', url: 'https://example.com', variants: [variants[0]!] };
+
+    expect(applyVariant(link, 'visitor-hash')).toEqual({
+      id: 'link-1',
+      title: 'Shop',
+      url: 'https://example.com',
+      variantId: 'a'
+    });
+  });
+
+  it('flags significant CTR differences', () => {
+    expect(compareConversionRates(
+      { impressions: 1000, conversions: 100 },
+      { impressions: 1000, conversions: 150 }
+    ).significance).toBe('significant');
+
+    expect(compareConversionRates(
+      { impressions: 1000, conversions: 100 },
+      { impressions: 1000, conversions: 105 }
+    ).significance).toBe('not_significant');
+
+    expect(compareConversionRates(
+      { impressions: 10, conversions: 1 },
+      { impressions: 10, conversions: 5 }
+    ).significance).toBe('insufficient_data');
+  });
+});
\ No newline at end of file
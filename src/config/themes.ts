@@ -0,0 +1,51 @@
+// The themes every account can choose from, seeded by prisma/seed.ts.
+// Each sets its text color explicitly, so contrast checks read what the page shows.
+const COLOR_VARIABLES = JSON.stringify(['primary', 'secondary', 'background', 'text']);
+
+export const BUILT_IN_THEMES = [
+  {
+    id: 'default',
+    name: 'Default',
+    isPremium: false,
+    previewImageUrl: '/themes/default-preview.png',
+    cssTemplate: '.bio-page { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; }',
+    tags: JSON.stringify(['gradient', 'colorful']),
+    colorVariables: COLOR_VARIABLES
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    isPremium: false,
+    previewImageUrl: '/themes/minimal-preview.png',
+    cssTemplate: '.bio-page { background: #ffffff; color: #333333; }',
+    tags: JSON.stringify(['light', 'minimal']),
+    colorVariables: COLOR_VARIABLES
+  },
+  {
+    id: 'dark',
+    name: 'Dark Mode',
+    isPremium: false,
+    previewImageUrl: '/themes/dark-preview.png',
+    cssTemplate: '.bio-page { background: #1a1a1a; color: #ffffff; }',
+    tags: JSON.stringify(['dark', 'minimal']),
+    colorVariables: COLOR_VARIABLES
+  },
+  {
+    id: 'glass',
+    name: 'Glass Morphism',
+    isPremium: true,
+    previewImageUrl: '/themes/glass-preview.png',
+    cssTemplate: '.bio-page { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; backdrop-filter: blur(20px); }',
+    tags: JSON.stringify(['gradient', 'glass']),
+    colorVariables: COLOR_VARIABLES
+  },
+  {
+    id: 'gradient-pro',
+    name: 'Gradient Pro',
+    isPremium: true,
+    previewImageUrl: '/themes/gradient-pro-preview.png',
+    cssTemplate: '.bio-page { background: linear-gradient(45deg, #ff9a9e 0%, #fecfef 100%); color: #1f2937; }',
+    tags: JSON.stringify(['gradient', 'light']),
+    colorVariables: COLOR_VARIABLES
+  }
+];
\ No newline at end of file
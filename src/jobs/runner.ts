@@ -0,0 +1,38 @@
+import logger from '../utils/logger';
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+// Run a job now and then every `intervalMs`, never overlapping a run that's still going.
+// Returns a function that stops the job.
+export const startJob = (job: Job): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      logger.warn('Job still running, skipping tick', { job: job.name });
+      return;
+    }
+
+    running = true;
+    const startedAt = Date.now();
+    try {
+      const result = await job.run();
+      logger.info('Job finished', { job: job.name, durationMs: Date.now() - startedAt, result });
+    } catch (error) {
+      logger.error('Job failed', { job: job.name, error });
+    } finally {
+      running = false;
+    }
+  };
+
+  // Don't keep the process alive just for background jobs
+  const timer = setInterval(tick, job.intervalMs);
+  timer.unref();
+  setImmediate(tick);
+
+  return () => clearInterval(timer);
+};
\ No newline at end of file
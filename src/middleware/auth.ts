@@ -34,7 +34,8 @@ export const authenticateToken = async (
         email: true,
         username: true,
         subscriptionTier: true,
-        emailVerified: true
+        emailVerified: true,
+        isAdmin: true
       }
     });
 
@@ -54,7 +55,8 @@ export const authenticateToken = async (
       id: user.id,
       email: user.email,
       username: user.username,
-      subscriptionTier: user.subscriptionTier as 'free' | 'premium'
+      subscriptionTier: user.subscriptionTier as 'free' | 'premium',
+      isAdmin: user.isAdmin
     };
 
     next();
@@ -119,5 +121,35 @@ export const requirePremium = (
     return;
   }
 
+  next();
+};
+
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'AUTHENTICATION_ERROR',
+        message: 'Authentication required'
+      }
+    });
+    return;
+  }
+
+  if (!req.user.isAdmin) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'AUTHORIZATION_ERROR',
+        message: 'Admin access required'
+      }
+    });
+    return;
+  }
+
   next();
 };
\ No newline at end of file
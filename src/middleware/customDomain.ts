@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { CustomDomainService } from '../services/customDomainService';
+import { appHostname, hostnameFromHeader } from '../utils/customDomains';
+
+const customDomainService = new CustomDomainService();
+
+// Hosts that are always the app itself, never a custom domain
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Serve the connected page at the root of a verified custom domain, e.g. links.creator.com -> /creator.
+// Only the root is rewritten: link redirects, uploads and share images keep their usual paths on any host.
+export const routeCustomDomains = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.path !== '/' || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    next();
+    return;
+  }
+
+  const hostname = hostnameFromHeader(req.get('host'));
+  if (!hostname || hostname === appHostname() || LOCAL_HOSTNAMES.includes(hostname)) {
+    next();
+    return;
+  }
+
+  try {
+    const pagePath = await customDomainService.resolveHostname(hostname);
+
+    if (pagePath) {
+      const query = req.url.indexOf('?');
+      req.url = query === -1 ? pagePath : `${pagePath}${req.url.slice(query)}`;
+
+      // The public page route uses this for canonical and Open Graph URLs
+      res.locals['customDomain'] = hostname;
+    }
+  } catch (error) {
+    console.error('Failed to resolve custom domain:', error);
+  }
+
+  next();
+};
\ No newline at end of file
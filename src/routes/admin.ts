@@ -0,0 +1,281 @@
+import express from 'express';
+import { ThemeCatalogService, MAX_CATALOG_PAGE_SIZE } from '../services/themeCatalogService';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { parsePagination, paginationMeta } from '../utils/pagination';
+import { AuthenticatedRequest, CatalogTheme, PaginatedResponse } from '../types';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+
+const router = express.Router();
+const themeCatalogService = new ThemeCatalogService();
+
+// Every built-in theme, retired ones included
+router.get('/themes', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { page, limit } = parsePagination(req.query, MAX_CATALOG_PAGE_SIZE);
+    const { themes, total } = await themeCatalogService.listThemes({ includeRetired: true }, page, limit);
+
+    const response: PaginatedResponse<CatalogTheme> = {
+      success: true,
+      data: themes,
+      pagination: paginationMeta(page, limit, total)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Admin list themes error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list themes'
+      }
+    });
+  }
+});
+
+// Add a theme to the catalog as version 1
+router.post('/themes', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, name, isPremium, previewImageUrl, cssTemplate, colorVariables, tags } = req.body;
+
+    const theme = await themeCatalogService.createTheme({ id, name, isPremium, previewImageUrl, cssTemplate, colorVariables, tags });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme created successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Admin create theme error:', error);
+
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to create theme'
+      }
+    });
+  }
+});
+
+// Update a theme; new CSS or color variables become a new version, which live pages get when they're republished
+router.put('/themes/:id', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, isPremium, previewImageUrl, cssTemplate, colorVariables, tags } = req.body;
+
+    const theme = await themeCatalogService.updateTheme(req.params['id'] as string, {
+      name, isPremium, previewImageUrl, cssTemplate, colorVariables, tags
+    });
+
+    res.json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Admin update theme error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update theme'
+      }
+    });
+  }
+});
+
+// A theme's versions, newest first, with how many live pages still use each
+router.get('/themes/:id/versions', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const versions = await themeCatalogService.listVersions(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: { versions }
+    });
+  } catch (error) {
+    console.error('Admin list theme versions error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list theme versions'
+      }
+    });
+  }
+});
+
+// A sample page in the theme as HTML; ?version= shows an earlier version
+router.get('/themes/:id/preview', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const version = req.query['version'] !== undefined ? Number(req.query['version']) : undefined;
+
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Version must be a positive whole number',
+          field: 'version'
+        }
+      });
+      return;
+    }
+
+    const html = await themeCatalogService.previewTheme(req.params['id'] as string, version);
+
+    res.set('X-Robots-Tag', 'noindex');
+    res.set('Cache-Control', 'private, no-store');
+    res.type('html').send(html);
+  } catch (error) {
+    console.error('Admin preview theme error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to preview theme'
+      }
+    });
+  }
+});
+
+// Take a theme out of the catalog; pages already using it keep it
+router.post('/themes/:id/retire', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const theme = await themeCatalogService.retireTheme(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme retired. Pages using it keep it.'
+      }
+    });
+  } catch (error) {
+    console.error('Admin retire theme error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to retire theme'
+      }
+    });
+  }
+});
+
+// Put a retired theme back in the catalog
+router.post('/themes/:id/reinstate', authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const theme = await themeCatalogService.reinstateTheme(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme is back in the catalog.'
+      }
+    });
+  } catch (error) {
+    console.error('Admin reinstate theme error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to reinstate theme'
+      }
+    });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -2,12 +2,14 @@ import express from 'express';
 import { AnalyticsService } from '../services/analyticsService';
 import { authenticateToken } from '../middleware/auth';
 import { AuthenticatedRequest } from '../types';
-import { ValidationError } from '../utils/errors';
+import { ValidationError, NotFoundError, PlanLimitError } from '../utils/errors';
+import { BROWSER_FAMILIES, DEVICE_TYPES, OPERATING_SYSTEMS } from '../utils/userAgent';
 
 const router = express.Router();
 const analyticsService = new AnalyticsService();
 
-// Get analytics summary (last 30 days, 7 days, today)
+// Get analytics summary (last 30 days, 7 days, today); ?pageId= picks a page other than the primary,
+// ?includeBots=true counts crawlers and scripts too
 router.get('/summary', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
@@ -21,7 +23,10 @@ router.get('/summary', authenticateToken, async (req: AuthenticatedRequest, res)
       return;
     }
 
-    const summary = await analyticsService.getAnalyticsSummary(req.user.id);
+    const pageId = req.query['pageId'];
+    const summary = await analyticsService.getAnalyticsSummary(req.user.id, typeof pageId === 'string' ? pageId : undefined, {
+      includeBots: req.query['includeBots'] === 'true'
+    });
 
     res.json({
       success: true,
@@ -29,6 +34,18 @@ router.get('/summary', authenticateToken, async (req: AuthenticatedRequest, res)
     });
   } catch (error) {
     console.error('Get analytics summary error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: {
@@ -39,6 +56,13 @@ router.get('/summary', authenticateToken, async (req: AuthenticatedRequest, res)
   }
 });
 
+// Audience filters for detailed analytics, e.g. ?deviceType=mobile for clicks from phones only
+const AUDIENCE_FILTERS: Array<{ field: 'deviceType' | 'os' | 'browser'; values: string[] }> = [
+  { field: 'deviceType', values: DEVICE_TYPES },
+  { field: 'os', values: OPERATING_SYSTEMS },
+  { field: 'browser', values: BROWSER_FAMILIES }
+];
+
 // Get detailed analytics with custom date range
 router.get('/detailed', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
@@ -53,10 +77,14 @@ router.get('/detailed', authenticateToken, async (req: AuthenticatedRequest, res
       return;
     }
 
-    const { startDate, endDate, period } = req.query;
+    const { startDate, endDate, period, pageId } = req.query;
 
     // Validate and parse dates
     const filters: any = {};
+
+    if (typeof pageId === 'string' && pageId) {
+      filters.bioPageId = pageId;
+    }
     
     if (startDate) {
       const parsedStartDate = new Date(startDate as string);
@@ -106,6 +134,50 @@ router.get('/detailed', authenticateToken, async (req: AuthenticatedRequest, res
       filters.period = period;
     }
 
+    if (req.query['includeBots'] === 'true') {
+      filters.includeBots = true;
+    }
+
+    for (const { field, values } of AUDIENCE_FILTERS) {
+      const value = req.query[field];
+
+      if (value === undefined) {
+        continue;
+      }
+
+      if (typeof value !== 'string' || !values.includes(value)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `${field} must be one of: ${values.join(', ')}`,
+            field
+          }
+        });
+        return;
+      }
+
+      filters[field] = value;
+    }
+
+    const country = req.query['country'];
+
+    if (country !== undefined) {
+      if (typeof country !== 'string' || !/^[a-z]{2}$/i.test(country)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'country must be a two-letter ISO country code such as US',
+            field: 'country'
+          }
+        });
+        return;
+      }
+
+      filters.country = country.toUpperCase();
+    }
+
     const analytics = await analyticsService.getBioPageAnalytics(req.user.id, filters);
 
     res.json({
@@ -115,20 +187,38 @@ router.get('/detailed', authenticateToken, async (req: AuthenticatedRequest, res
         filters: {
           startDate: filters.startDate?.toISOString(),
           endDate: filters.endDate?.toISOString(),
-          period: filters.period
+          period: filters.period,
+          includeBots: !!filters.includeBots,
+          deviceType: filters.deviceType,
+          os: filters.os,
+          browser: filters.browser,
+          country: filters.country
         }
       }
     });
   } catch (error) {
     console.error('Get detailed analytics error:', error);
 
-    if (error instanceof ValidationError) {
+    if (error instanceof PlanLimitError) {
       res.status(error.status).json({
         success: false,
         error: {
           code: error.code,
           message: error.message,
-          ...(error.field && { field: error.field })
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
         }
       });
       return;
@@ -144,4 +234,89 @@ router.get('/detailed', authenticateToken, async (req: AuthenticatedRequest, res
   }
 });
 
+// Get A/B test results for a link's variants
+router.get('/links/:linkId/variants', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+    const { startDate, endDate } = req.query;
+
+    const filters: any = {};
+
+    if (startDate) {
+      const parsedStartDate = new Date(startDate as string);
+      if (isNaN(parsedStartDate.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid start date format',
+            field: 'startDate'
+          }
+        });
+        return;
+      }
+      filters.startDate = parsedStartDate;
+    }
+
+    if (endDate) {
+      const parsedEndDate = new Date(endDate as string);
+      if (isNaN(parsedEndDate.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid end date format',
+            field: 'endDate'
+          }
+        });
+        return;
+      }
+      filters.endDate = parsedEndDate;
+    }
+
+    if (req.query['includeBots'] === 'true') {
+      filters.includeBots = true;
+    }
+
+    const experiment = await analyticsService.getLinkExperimentStats(req.user.id, linkId as string, filters);
+
+    res.json({
+      success: true,
+      data: { experiment }
+    });
+  } catch (error) {
+    console.error('Get link experiment error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get experiment results'
+      }
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,11 +1,34 @@
 import express from 'express';
 import { BioPageService } from '../services/bioPageService';
+import { LinkRuleService } from '../services/linkRuleService';
+import { LinkHealthService } from '../services/linkHealthService';
+import { ShortLinkService } from '../services/shortLinkService';
+import { ImportExportService } from '../services/importExportService';
+import { RevisionService } from '../services/revisionService';
+import { CustomDomainService } from '../services/customDomainService';
 import { authenticateToken } from '../middleware/auth';
 import { AuthenticatedRequest } from '../types';
-import { ValidationError, NotFoundError, AuthorizationError } from '../utils/errors';
+import { ValidationError, NotFoundError, PlanLimitError, ConflictError } from '../utils/errors';
+import { parseQrCodeSize, renderQrCode, QR_CODE_FORMATS, QrCodeFormat } from '../utils/qrCode';
+import { exportToCsv, EXPORT_FORMATS, IMPORT_FORMATS, ExportFormat, ImportFormat } from '../utils/linkImport';
 
-const router = express.Router();
+// Also mounted at /api/bio-page/pages/:pageId, where page-level routes act on that page
+// instead of the primary one
+const router = express.Router({ mergeParams: true });
 const bioPageService = new BioPageService();
+const linkRuleService = new LinkRuleService();
+const linkHealthService = new LinkHealthService();
+const shortLinkService = new ShortLinkService();
+const importExportService = new ImportExportService();
+const revisionService = new RevisionService();
+const customDomainService = new CustomDomainService();
+
+const pageIdParam = (req: express.Request): string | undefined => req.params['pageId'];
+
+// Short URLs are absolute so they can be shared as-is
+const absoluteUrl = (req: express.Request, path: string): string => {
+  return `${process.env['APP_URL'] || `${req.protocol}://${req.get('host')}`}${path}`;
+};
 
 // Get user's bio page
 router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
@@ -21,13 +44,25 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       return;
     }
 
-    let bioPage = await bioPageService.getBioPageByUserId(req.user.id);
+    const pageId = pageIdParam(req);
+    let bioPage = await bioPageService.getBioPage(req.user.id, pageId);
 
-    // Create bio page if it doesn't exist
-    if (!bioPage) {
+    // Create the primary bio page if the account doesn't have one yet
+    if (!bioPage && !pageId) {
       bioPage = await bioPageService.createBioPage(req.user.id);
     }
 
+    if (!bioPage) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND_ERROR',
+          message: 'Bio page not found'
+        }
+      });
+      return;
+    }
+
     res.json({
       success: true,
       data: { bioPage }
@@ -58,14 +93,18 @@ router.put('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       return;
     }
 
-    const { themeId, customColors, isPublished } = req.body;
+    const { themeId, customColors, isPublished, slug, isPrimary, outboundParams, linkOutboundParams } = req.body;
 
     const updates: any = {};
     if (themeId !== undefined) updates.themeId = themeId;
     if (customColors !== undefined) updates.customColors = customColors;
     if (isPublished !== undefined) updates.isPublished = isPublished;
+    if (slug !== undefined) updates.slug = slug;
+    if (isPrimary !== undefined) updates.isPrimary = isPrimary;
+    if (outboundParams !== undefined) updates.outboundParams = outboundParams;
+    if (linkOutboundParams !== undefined) updates.linkOutboundParams = linkOutboundParams;
 
-    const bioPage = await bioPageService.updateBioPage(req.user.id, updates);
+    const bioPage = await bioPageService.updateBioPage(req.user.id, updates, pageIdParam(req));
 
     res.json({
       success: true,
@@ -77,13 +116,26 @@ router.put('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   } catch (error) {
     console.error('Update bio page error:', error);
 
-    if (error instanceof ValidationError || error instanceof AuthorizationError) {
+    if (error instanceof PlanLimitError) {
       res.status(error.status).json({
         success: false,
         error: {
           code: error.code,
           message: error.message,
-          ...(error instanceof ValidationError && error.field && { field: error.field })
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(!(error instanceof NotFoundError) && error.field && { field: error.field })
         }
       });
       return;
@@ -99,8 +151,8 @@ router.put('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// Add new link
-router.post('/links', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Delete one of the account's pages (DELETE /api/bio-page/pages/:pageId)
+router.delete('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -113,32 +165,32 @@ router.post('/links', authenticateToken, async (req: AuthenticatedRequest, res)
       return;
     }
 
-    const { title, url, iconName } = req.body;
+    const pageId = pageIdParam(req);
 
-    if (!title || !url) {
+    if (!pageId) {
       res.status(400).json({
         success: false,
         error: {
           code: 'VALIDATION_ERROR',
-          message: 'Title and URL are required'
+          message: 'Page ID is required',
+          field: 'pageId'
         }
       });
       return;
     }
 
-    const bioPage = await bioPageService.addLink(req.user.id, { title, url, iconName });
+    await bioPageService.deleteBioPage(req.user.id, pageId);
 
-    res.status(201).json({
+    res.json({
       success: true,
       data: {
-        bioPage,
-        message: 'Link added successfully!'
+        message: 'Bio page deleted successfully!'
       }
     });
   } catch (error) {
-    console.error('Add link error:', error);
+    console.error('Delete bio page error:', error);
 
-    if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof AuthorizationError) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
       res.status(error.status).json({
         success: false,
         error: {
@@ -154,14 +206,14 @@ router.post('/links', authenticateToken, async (req: AuthenticatedRequest, res)
       success: false,
       error: {
         code: 'INTERNAL_SERVER_ERROR',
-        message: 'Failed to add link'
+        message: 'Failed to delete bio page'
       }
     });
   }
 });
 
-// Update link
-router.put('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// List the account's pages, primary first
+router.get('/pages', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -174,46 +226,76 @@ router.put('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest
       return;
     }
 
-    const { linkId } = req.params;
-    
-    if (!linkId) {
-      res.status(400).json({
+    const pages = await bioPageService.listBioPages(req.user.id);
+
+    res.json({
+      success: true,
+      data: { pages }
+    });
+  } catch (error) {
+    console.error('List bio pages error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list bio pages'
+      }
+    });
+  }
+});
+
+// Create another page, served at /:username/:slug
+router.post('/pages', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
         success: false,
         error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Link ID is required'
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
         }
       });
       return;
     }
 
-    const { title, url, iconName, isActive } = req.body;
+    const { slug, themeId } = req.body;
 
-    const updates: any = {};
-    if (title !== undefined) updates.title = title;
-    if (url !== undefined) updates.url = url;
-    if (iconName !== undefined) updates.iconName = iconName;
-    if (isActive !== undefined) updates.isActive = isActive;
+    const data: any = {};
+    if (slug !== undefined) data.slug = slug;
+    if (themeId !== undefined) data.themeId = themeId;
 
-    const bioPage = await bioPageService.updateLink(req.user.id, linkId, updates);
+    const bioPage = await bioPageService.createBioPage(req.user.id, data);
 
-    res.json({
+    res.status(201).json({
       success: true,
       data: {
         bioPage,
-        message: 'Link updated successfully!'
+        message: 'Bio page created successfully!'
       }
     });
   } catch (error) {
-    console.error('Update link error:', error);
+    console.error('Create bio page error:', error);
 
-    if (error instanceof ValidationError || error instanceof NotFoundError) {
+    if (error instanceof PlanLimitError) {
       res.status(error.status).json({
         success: false,
         error: {
           code: error.code,
           message: error.message,
-          ...(error instanceof ValidationError && error.field && { field: error.field })
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.field && { field: error.field })
         }
       });
       return;
@@ -223,14 +305,14 @@ router.put('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest
       success: false,
       error: {
         code: 'INTERNAL_SERVER_ERROR',
-        message: 'Failed to update link'
+        message: 'Failed to create bio page'
       }
     });
   }
 });
 
-// Delete link
-router.delete('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Compare the draft with what's live
+router.get('/draft', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -243,30 +325,111 @@ router.delete('/links/:linkId', authenticateToken, async (req: AuthenticatedRequ
       return;
     }
 
-    const { linkId } = req.params;
-    
-    if (!linkId) {
-      res.status(400).json({
+    const status = await revisionService.getDraftStatus(req.user.id, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Get draft status error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
         success: false,
         error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Link ID is required'
+          code: error.code,
+          message: error.message
         }
       });
       return;
     }
 
-    const bioPage = await bioPageService.deleteLink(req.user.id, linkId);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get draft status'
+      }
+    });
+  }
+});
+
+// Throw away unpublished changes
+router.post('/draft/discard', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const pageId = pageIdParam(req);
+    await revisionService.discardDraft(req.user.id, pageId);
+    const bioPage = await bioPageService.getBioPage(req.user.id, pageId);
 
     res.json({
       success: true,
       data: {
         bioPage,
-        message: 'Link deleted successfully!'
+        message: 'Unpublished changes discarded'
       }
     });
   } catch (error) {
-    console.error('Delete link error:', error);
+    console.error('Discard draft error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to discard changes'
+      }
+    });
+  }
+});
+
+// Signed link that shows the draft without logging in
+router.post('/draft/preview', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const preview = await revisionService.createPreview(req.user.id, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        token: preview.token,
+        expiresIn: preview.expiresIn,
+        url: absoluteUrl(req, preview.path)
+      }
+    });
+  } catch (error) {
+    console.error('Create preview error:', error);
 
     if (error instanceof NotFoundError) {
       res.status(error.status).json({
@@ -283,14 +446,14 @@ router.delete('/links/:linkId', authenticateToken, async (req: AuthenticatedRequ
       success: false,
       error: {
         code: 'INTERNAL_SERVER_ERROR',
-        message: 'Failed to delete link'
+        message: 'Failed to create preview link'
       }
     });
   }
 });
 
-// Reorder links
-router.put('/links/reorder', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Make the draft live as a new revision
+router.post('/publish', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({
@@ -303,39 +466,115 @@ router.put('/links/reorder', authenticateToken, async (req: AuthenticatedRequest
       return;
     }
 
-    const { linkIds } = req.body;
+    const revision = await revisionService.publish(req.user.id, pageIdParam(req));
 
-    if (!Array.isArray(linkIds)) {
-      res.status(400).json({
+    res.status(201).json({
+      success: true,
+      data: {
+        revision,
+        message: 'Bio page published successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Publish bio page error:', error);
+
+    if (error instanceof ValidationError || error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
         success: false,
         error: {
-          code: 'VALIDATION_ERROR',
-          message: 'linkIds must be an array',
-          field: 'linkIds'
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to publish bio page'
+      }
+    });
+  }
+});
+
+// Published revisions, newest first
+router.get('/revisions', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
         }
       });
       return;
     }
 
-    const bioPage = await bioPageService.reorderLinks(req.user.id, linkIds);
+    const revisions = await revisionService.listRevisions(req.user.id, pageIdParam(req));
 
     res.json({
       success: true,
-      data: {
-        bioPage,
-        message: 'Links reordered successfully!'
+      data: { revisions }
+    });
+  } catch (error) {
+    console.error('List revisions error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list revisions'
       }
     });
+  }
+});
+
+// What a revision changed; ?against=previous (default), live, draft or another revision's ID
+router.get('/revisions/:revisionId/diff', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { revisionId } = req.params;
+    const against = typeof req.query['against'] === 'string' && req.query['against'] ? req.query['against'] : 'previous';
+
+    const result = await revisionService.diffRevision(req.user.id, revisionId as string, against);
+
+    res.json({
+      success: true,
+      data: result
+    });
   } catch (error) {
-    console.error('Reorder links error:', error);
+    console.error('Diff revision error:', error);
 
-    if (error instanceof ValidationError || error instanceof NotFoundError) {
+    if (error instanceof NotFoundError) {
       res.status(error.status).json({
         success: false,
         error: {
           code: error.code,
-          message: error.message,
-          ...(error instanceof ValidationError && error.field && { field: error.field })
+          message: error.message
         }
       });
       return;
@@ -345,7 +584,1531 @@ router.put('/links/reorder', authenticateToken, async (req: AuthenticatedRequest
       success: false,
       error: {
         code: 'INTERNAL_SERVER_ERROR',
-        message: 'Failed to reorder links'
+        message: 'Failed to compare revisions'
+      }
+    });
+  }
+});
+
+// Restore a revision: it replaces the draft and goes live again as a new revision
+router.post('/revisions/:revisionId/rollback', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { revisionId } = req.params;
+    const revision = await revisionService.rollback(req.user.id, revisionId as string);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        revision,
+        message: `Revision ${revision.restoredFrom} restored and published`
+      }
+    });
+  } catch (error) {
+    console.error('Rollback revision error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to roll back'
+      }
+    });
+  }
+});
+
+// Add new link
+router.post('/links', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { title, url, iconName, kind, type, parentId, activeFrom, activeUntil, gateType, gatePassword } = req.body;
+
+    // Headers, dividers and groups have no URL
+    if ((kind === undefined || kind === 'link') && (!title || !url)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Title and URL are required'
+        }
+      });
+      return;
+    }
+
+    const bioPage = await bioPageService.addLink(req.user.id, {
+      title,
+      url,
+      iconName,
+      kind,
+      type,
+      parentId,
+      activeFrom,
+      activeUntil,
+      gateType,
+      gatePassword
+    }, pageIdParam(req));
+
+    res.status(201).json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Link added successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Add link error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to add link'
+      }
+    });
+  }
+});
+
+// Reorder links
+router.put('/links/reorder', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    // items: [{ id, parentId }] moves links between groups; linkIds is the flat legacy form
+    const { linkIds, items } = req.body;
+    const layout = items !== undefined ? items : linkIds;
+
+    if (!Array.isArray(layout)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'linkIds must be an array',
+          field: 'linkIds'
+        }
+      });
+      return;
+    }
+
+    const isValidItem = (item: any) =>
+      typeof item === 'string' || (item && typeof item.id === 'string');
+
+    if (!layout.every(isValidItem)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Each item must be a link ID or an object with an id',
+          field: items !== undefined ? 'items' : 'linkIds'
+        }
+      });
+      return;
+    }
+
+    const bioPage = await bioPageService.reorderLinks(req.user.id, layout, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Links reordered successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Reorder links error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to reorder links'
+      }
+    });
+  }
+});
+
+// Update link
+router.put('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+    
+    if (!linkId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID is required'
+        }
+      });
+      return;
+    }
+
+    const { title, url, type, iconName, isActive, isCollapsed, activeFrom, activeUntil, gateType, gatePassword } = req.body;
+
+    const updates: any = {};
+    if (title !== undefined) updates.title = title;
+    if (url !== undefined) updates.url = url;
+    if (type !== undefined) updates.type = type;
+    if (iconName !== undefined) updates.iconName = iconName;
+    if (isActive !== undefined) updates.isActive = isActive;
+    if (isCollapsed !== undefined) updates.isCollapsed = isCollapsed;
+    if (activeFrom !== undefined) updates.activeFrom = activeFrom;
+    if (activeUntil !== undefined) updates.activeUntil = activeUntil;
+    if (gateType !== undefined) updates.gateType = gateType;
+    if (gatePassword !== undefined) updates.gatePassword = gatePassword;
+
+    const bioPage = await bioPageService.updateLink(req.user.id, linkId, updates);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Link updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Update link error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update link'
+      }
+    });
+  }
+});
+
+// Delete link
+router.delete('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+    
+    if (!linkId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID is required'
+        }
+      });
+      return;
+    }
+
+    const bioPage = await bioPageService.deleteLink(req.user.id, linkId);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Link deleted successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Delete link error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete link'
+      }
+    });
+  }
+});
+
+// Add A/B variant to a link
+router.post('/links/:linkId/variants', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+
+    if (!linkId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID is required'
+        }
+      });
+      return;
+    }
+
+    const { title, url, weight } = req.body;
+
+    const variant: any = {};
+    if (title !== undefined) variant.title = title;
+    if (url !== undefined) variant.url = url;
+    if (weight !== undefined) variant.weight = weight;
+
+    const bioPage = await bioPageService.addLinkVariant(req.user.id, linkId, variant);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Variant added successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Add variant error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to add variant'
+      }
+    });
+  }
+});
+
+// Update A/B variant
+router.put('/links/:linkId/variants/:variantId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId, variantId } = req.params;
+
+    if (!linkId || !variantId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID and variant ID are required'
+        }
+      });
+      return;
+    }
+
+    const { title, url, weight } = req.body;
+
+    const updates: any = {};
+    if (title !== undefined) updates.title = title;
+    if (url !== undefined) updates.url = url;
+    if (weight !== undefined) updates.weight = weight;
+
+    const bioPage = await bioPageService.updateLinkVariant(req.user.id, linkId, variantId, updates);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Variant updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Update variant error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update variant'
+      }
+    });
+  }
+});
+
+// Delete A/B variant
+router.delete('/links/:linkId/variants/:variantId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId, variantId } = req.params;
+
+    if (!linkId || !variantId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID and variant ID are required'
+        }
+      });
+      return;
+    }
+
+    const bioPage = await bioPageService.deleteLinkVariant(req.user.id, linkId, variantId);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Variant deleted successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Delete variant error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete variant'
+      }
+    });
+  }
+});
+
+// Promote winning variant and end the experiment
+router.post('/links/:linkId/variants/:variantId/promote', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId, variantId } = req.params;
+
+    if (!linkId || !variantId) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Link ID and variant ID are required'
+        }
+      });
+      return;
+    }
+
+    const bioPage = await bioPageService.promoteLinkVariant(req.user.id, linkId, variantId);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Variant promoted successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Promote variant error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to promote variant'
+      }
+    });
+  }
+});
+
+// Get recent health checks for a link
+router.get('/links/:linkId/health', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+
+    const checks = await linkHealthService.getHealthHistory(req.user.id, linkId as string);
+
+    res.json({
+      success: true,
+      data: { checks }
+    });
+  } catch (error) {
+    console.error('Get link health error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get link health'
+      }
+    });
+  }
+});
+
+// Get redirect rules for a link
+router.get('/links/:linkId/rules', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+
+    const rules = await linkRuleService.getRules(req.user.id, linkId as string);
+
+    res.json({
+      success: true,
+      data: { rules }
+    });
+  } catch (error) {
+    console.error('Get rules error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get rules'
+      }
+    });
+  }
+});
+
+// Add redirect rule to a link
+router.post('/links/:linkId/rules', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+
+    const { conditionType, conditionValue, targetUrl } = req.body;
+
+    if (!conditionType || !conditionValue || !targetUrl) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'conditionType, conditionValue and targetUrl are required'
+        }
+      });
+      return;
+    }
+
+    const rules = await linkRuleService.createRule(req.user.id, linkId as string, {
+      conditionType,
+      conditionValue,
+      targetUrl
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        rules,
+        message: 'Rule added successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Add rule error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to add rule'
+      }
+    });
+  }
+});
+
+// Reorder redirect rules
+router.put('/links/:linkId/rules/reorder', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId } = req.params;
+
+    const { ruleIds } = req.body;
+
+    if (!Array.isArray(ruleIds)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'ruleIds must be an array',
+          field: 'ruleIds'
+        }
+      });
+      return;
+    }
+
+    const rules = await linkRuleService.reorderRules(req.user.id, linkId as string, ruleIds);
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        message: 'Rules reordered successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Reorder rules error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to reorder rules'
+      }
+    });
+  }
+});
+
+// Update redirect rule
+router.put('/links/:linkId/rules/:ruleId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId, ruleId } = req.params;
+
+    const { conditionType, conditionValue, targetUrl } = req.body;
+
+    const updates: any = {};
+    if (conditionType !== undefined) updates.conditionType = conditionType;
+    if (conditionValue !== undefined) updates.conditionValue = conditionValue;
+    if (targetUrl !== undefined) updates.targetUrl = targetUrl;
+
+    const rules = await linkRuleService.updateRule(req.user.id, linkId as string, ruleId as string, updates);
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        message: 'Rule updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Update rule error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update rule'
+      }
+    });
+  }
+});
+
+// Delete redirect rule
+router.delete('/links/:linkId/rules/:ruleId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { linkId, ruleId } = req.params;
+
+    const rules = await linkRuleService.deleteRule(req.user.id, linkId as string, ruleId as string);
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        message: 'Rule deleted successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Delete rule error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete rule'
+      }
+    });
+  }
+});
+
+// Get the short link for the bio page or one of its links
+router.get(['/short-link', '/links/:linkId/short-link'], authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const shortLink = await shortLinkService.getShortLink(req.user.id, req.params['linkId'] ?? null, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        shortLink: { ...shortLink, url: absoluteUrl(req, shortLink.path) }
+      }
+    });
+  } catch (error) {
+    console.error('Get short link error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get short link'
+      }
+    });
+  }
+});
+
+// Set a custom slug; null switches back to a generated one. Unlike the page's content this isn't
+// part of the draft: the new slug works and the old one stops at once, without publishing.
+router.put(['/short-link', '/links/:linkId/short-link'], authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { slug } = req.body;
+
+    if (slug === undefined) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Slug is required',
+          field: 'slug'
+        }
+      });
+      return;
+    }
+
+    const shortLink = await shortLinkService.setSlug(req.user.id, req.params['linkId'] ?? null, slug, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        shortLink: { ...shortLink, url: absoluteUrl(req, shortLink.path) },
+        message: 'Short link updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Update short link error:', error);
+
+    if (error instanceof ValidationError || error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(!(error instanceof NotFoundError) && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update short link'
+      }
+    });
+  }
+});
+
+// QR code for a short link (?format=svg|png&size=512&theme=true&download=true)
+router.get(['/short-link/qr', '/links/:linkId/short-link/qr'], authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const format = (req.query['format'] || 'svg') as QrCodeFormat;
+
+    if (!QR_CODE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Format must be one of: ${QR_CODE_FORMATS.join(', ')}`,
+          field: 'format'
+        }
+      });
+      return;
+    }
+
+    const size = parseQrCodeSize(req.query['size']);
+    const shortLink = await shortLinkService.getShortLink(req.user.id, req.params['linkId'] ?? null, pageIdParam(req));
+    const colors = req.query['theme'] === 'true'
+      ? await shortLinkService.getQrColors(req.user.id, req.params['linkId'] ?? null, pageIdParam(req))
+      : null;
+
+    // Scans are told apart from short link clicks by the src parameter
+    const qrCode = await renderQrCode(`${absoluteUrl(req, shortLink.path)}?src=qr`, format, { size, colors });
+
+    const disposition = req.query['download'] === 'true' ? 'attachment' : 'inline';
+    res.setHeader('Content-Disposition', `${disposition}; filename="qr-${shortLink.slug}.${format}"`);
+    res.type(format === 'svg' ? 'image/svg+xml' : 'image/png').send(qrCode);
+  } catch (error) {
+    console.error('Get QR code error:', error);
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to generate QR code'
+      }
+    });
+  }
+});
+
+// Get the custom domain connected to the bio page, with the TXT record that verifies it
+router.get('/domain', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const customDomain = await customDomainService.getDomain(req.user.id, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: { customDomain }
+    });
+  } catch (error) {
+    console.error('Get custom domain error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to get custom domain'
+      }
+    });
+  }
+});
+
+// Connect a domain such as links.example.com; it serves the page once verified
+router.put('/domain', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const customDomain = await customDomainService.setDomain(req.user.id, req.body.hostname, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        customDomain,
+        message: 'Custom domain added. Publish the TXT record, then verify the domain.'
+      }
+    });
+  } catch (error) {
+    console.error('Set custom domain error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(!(error instanceof NotFoundError) && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to set custom domain'
+      }
+    });
+  }
+});
+
+// Check the domain's TXT record
+router.post('/domain/verify', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const customDomain = await customDomainService.verifyDomain(req.user.id, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        customDomain,
+        message: customDomain.status === 'verified'
+          ? 'Custom domain verified!'
+          : customDomain.lastError || 'Custom domain could not be verified'
+      }
+    });
+  } catch (error) {
+    console.error('Verify custom domain error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to verify custom domain'
+      }
+    });
+  }
+});
+
+// Disconnect the custom domain
+router.delete('/domain', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    await customDomainService.removeDomain(req.user.id, pageIdParam(req));
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Custom domain removed successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Remove custom domain error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to remove custom domain'
+      }
+    });
+  }
+});
+
+// Export the bio page as versioned JSON or CSV (?format=json|csv)
+router.get('/export', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const format = (req.query['format'] || 'json') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+          field: 'format'
+        }
+      });
+      return;
+    }
+
+    const document = await importExportService.exportBioPage(req.user.id, pageIdParam(req));
+    const filename = `linkhub-${req.user.username || 'bio-page'}-${document.exportedAt.slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(exportToCsv(document));
+      return;
+    }
+
+    res.type('application/json').send(JSON.stringify(document, null, 2));
+  } catch (error) {
+    console.error('Export bio page error:', error);
+
+    if (error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to export bio page'
+      }
+    });
+  }
+});
+
+// Import links and page settings; dryRun previews the result with per-row errors
+router.post('/import', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { format, data, mode = 'append' } = req.body;
+    const dryRun = req.body.dryRun === true || req.query['dryRun'] === 'true';
+
+    if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Format must be one of: ${IMPORT_FORMATS.join(', ')}`,
+          field: 'format'
+        }
+      });
+      return;
+    }
+
+    if (mode !== 'append' && mode !== 'replace') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Mode must be append or replace',
+          field: 'mode'
+        }
+      });
+      return;
+    }
+
+    if (data === undefined || data === null || data === '') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Import data is required',
+          field: 'data'
+        }
+      });
+      return;
+    }
+
+    const result = await importExportService.importBioPage(req.user.id, format, data, { mode, dryRun }, pageIdParam(req));
+
+    // Nothing is imported unless every row is valid
+    if (!dryRun && !result.valid) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${result.errors.length} problem(s) found, nothing was imported`
+        },
+        data: result
+      });
+      return;
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      data: {
+        ...result,
+        message: dryRun ? 'Import preview ready' : 'Bio page imported successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Import bio page error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to import bio page'
       }
     });
   }
@@ -1,42 +1,110 @@
 import express from 'express';
 import path from 'path';
+import { promises as fs } from 'fs';
+import rateLimit from 'express-rate-limit';
 import prisma from '../config/database';
-import { hashIP } from '../utils/crypto';
+import { hashIP, comparePassword } from '../utils/crypto';
+import { getLinkScheduleStatus } from '../utils/linkSchedule';
+import { pickVariant } from '../utils/variants';
+import { findMatchingRule } from '../utils/linkRules';
+import { parseUserAgent } from '../utils/userAgent';
+import { lookupLocation } from '../utils/geoip';
+import { applyOutboundParams } from '../utils/outboundParams';
+import { parseShortLinkSource } from '../utils/shortLinks';
+import { classifyRequest } from '../utils/botDetection';
+import { buildPublicPage, recordPageView } from '../utils/publicPage';
+import { renderBioPage } from '../utils/bioPageHtml';
+import { bioPagePath } from '../utils/bioPages';
+import { isReservedName } from '../utils/validation';
+import { ShortLinkService } from '../services/shortLinkService';
+import { RevisionService } from '../services/revisionService';
+import { ogImagePath } from '../services/ogImageService';
+import { isLinkUnlocked, issueUnlockToken, readUnlockToken, unlockCookieName, UNLOCK_TOKEN_TTL_SECONDS } from '../utils/linkGate';
 
 const router = express.Router();
+const shortLinkService = new ShortLinkService();
+const revisionService = new RevisionService();
 
-// Get public bio page by username
-router.get('/:username', async (req, res) => {
+// Password guesses are limited per IP, independently of the API limiter
+const unlockLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Too many unlock attempts, please try again later'
+    }
+  }
+});
+
+// Interstitial for gated links, told which gate to show
+const renderGatePage = async (gateType: string): Promise<string> => {
+  const html = await fs.readFile(path.join(__dirname, '../../public/gate.html'), 'utf8');
+  return html.replace('{{gateType}}', gateType);
+};
+
+// Resolve a short link; scanned QR codes carry ?src=qr
+router.get('/s/:slug', async (req, res) => {
   try {
-    const { username } = req.params;
-    
-    // Check if this is a request for the HTML page (from browser)
-    const acceptsHtml = req.headers.accept && req.headers.accept.includes('text/html');
-    
-    if (acceptsHtml) {
-      // Serve the bio page HTML template
-      res.sendFile(path.join(__dirname, '../../public/bio.html'));
+    const target = await shortLinkService.resolveSlug(req.params.slug);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'SHORT_LINK_NOT_FOUND',
+          message: 'Short link not found'
+        }
+      });
       return;
     }
 
-    // API request - return JSON data
-    // Find user and their bio page
-    const user = await prisma.user.findUnique({
-      where: { username: username.toLowerCase() },
-      include: {
-        bioPage: {
-          include: {
-            links: {
-              where: { isActive: true },
-              orderBy: { orderIndex: 'asc' }
-            },
-            theme: true
-          }
-        }
+    // The page or link redirect records the visit, tagged with where it came from
+    const via = req.query['src'] === 'qr' ? 'qr' : 'short_link';
+
+    res.redirect(302, `${target.path}?via=${via}`);
+  } catch (error) {
+    console.error('Error resolving short link:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to resolve short link'
       }
     });
+  }
+});
+
+// Get public bio page by username; pages other than the primary are at /:username/:pageSlug
+router.get(['/:username', '/:username/:pageSlug'], async (req: express.Request<{ username: string; pageSlug?: string }>, res, next) => {
+  try {
+    const { username, pageSlug } = req.params;
+
+    // Reserved names (api, uploads, ...) are never usernames; let them reach the 404 handler
+    if (isReservedName(username)) {
+      next();
+      return;
+    }
+    
+    // Browsers get the rendered page, API clients the JSON data
+    const acceptsHtml = req.headers.accept && req.headers.accept.includes('text/html');
+
+    // A preview link shows the page's draft instead of the published revision
+    const previewToken = acceptsHtml && typeof req.query['preview'] === 'string' ? req.query['preview'] : null;
+
+    const bioPage = previewToken
+      ? await revisionService.getPreviewPage(previewToken)
+      : await revisionService.getLivePage(username, pageSlug);
+
+    if (!bioPage) {
+      if (acceptsHtml) {
+        res.status(404).sendFile(path.join(__dirname, '../../public/not-found.html'));
+        return;
+      }
 
-    if (!user || !user.bioPage || !user.bioPage.isPublished) {
       res.status(404).json({
         success: false,
         error: {
@@ -47,70 +115,39 @@ router.get('/:username', async (req, res) => {
       return;
     }
 
-    // Record page view for analytics
-    const visitorIP = req.ip || req.connection.remoteAddress || 'unknown';
-    const visitorIPHash = hashIP(visitorIP);
-    const userAgent = req.get('User-Agent') || '';
-    const referrer = req.get('Referer') || null;
+    const visitorIPHash = hashIP(req.ip || req.connection.remoteAddress || 'unknown');
+    const { data, servedLinks } = buildPublicPage(bioPage, visitorIPHash);
 
-    // Record analytics event (fire and forget)
-    prisma.analyticsEvent.create({
-      data: {
-        bioPageId: user.bioPage.id,
-        userId: user.id,
-        eventType: 'page_view',
-        visitorIpHash: visitorIPHash,
-        userAgent,
-        referrer
-      }
-    }).catch(error => {
-      console.error('Failed to record page view:', error);
-    });
+    // Previews aren't visits
+    if (!previewToken) {
+      recordPageView(req, bioPage, servedLinks, visitorIPHash);
+    }
 
-    // Parse custom colors if they exist
-    let customColors = null;
-    if (user.bioPage.customColors) {
-      try {
-        customColors = JSON.parse(user.bioPage.customColors);
-      } catch (error) {
-        console.error('Failed to parse custom colors:', error);
+    if (acceptsHtml) {
+      // On a custom domain the page lives at that domain's root
+      const customDomain: string | undefined = res.locals['customDomain'];
+
+      const html = await renderBioPage(data, {
+        origin: customDomain
+          ? `${req.protocol}://${customDomain}`
+          : process.env['APP_URL'] || `${req.protocol}://${req.get('host')}`,
+        path: customDomain ? '/' : bioPagePath(bioPage.user.username || username.toLowerCase(), bioPage),
+        shareImagePath: ogImagePath(bioPage.id)
+      }, { preview: !!previewToken });
+
+      if (previewToken) {
+        res.set('X-Robots-Tag', 'noindex');
+        res.set('Cache-Control', 'private, no-store');
       }
-    }
 
-    // Parse theme color variables
-    let themeColorVariables = [];
-    try {
-      themeColorVariables = JSON.parse(user.bioPage.theme.colorVariables);
-    } catch (error) {
-      console.error('Failed to parse theme color variables:', error);
+      res.type('html').send(html);
+      return;
     }
 
     // Return bio page data
     res.json({
       success: true,
-      data: {
-        user: {
-          username: user.username,
-          profileName: user.profileName,
-          profileBio: user.profileBio,
-          profileImageUrl: user.profileImageUrl
-        },
-        bioPage: {
-          id: user.bioPage.id,
-          themeId: user.bioPage.themeId,
-          customColors,
-          links: user.bioPage.links,
-          createdAt: user.bioPage.createdAt,
-          updatedAt: user.bioPage.updatedAt
-        },
-        theme: {
-          id: user.bioPage.theme.id,
-          name: user.bioPage.theme.name,
-          isPremium: user.bioPage.theme.isPremium,
-          cssTemplate: user.bioPage.theme.cssTemplate,
-          colorVariables: themeColorVariables
-        }
-      }
+      data
     });
   } catch (error) {
     console.error('Error fetching bio page:', error);
@@ -129,24 +166,10 @@ router.get('/:username/link/:linkId', async (req, res) => {
   try {
     const { username, linkId } = req.params;
 
-    // Find user, bio page, and link
-    const user = await prisma.user.findUnique({
-      where: { username: username.toLowerCase() },
-      include: {
-        bioPage: {
-          include: {
-            links: {
-              where: { 
-                id: linkId,
-                isActive: true 
-              }
-            }
-          }
-        }
-      }
-    });
+    // Find the published link, whichever of the user's pages it is on
+    const bioPage = await revisionService.getLiveLink(username, linkId);
 
-    if (!user || !user.bioPage || !user.bioPage.isPublished) {
+    if (!bioPage || !bioPage.isPublished) {
       res.status(404).json({
         success: false,
         error: {
@@ -157,8 +180,31 @@ router.get('/:username/link/:linkId', async (req, res) => {
       return;
     }
 
-    const link = user.bioPage.links[0];
-    if (!link) {
+    const { user } = bioPage;
+
+    const { link } = bioPage;
+    const scheduleStatus = link ? getLinkScheduleStatus(link) : null;
+
+    if (scheduleStatus === 'expired') {
+      const acceptsHtml = req.headers.accept && req.headers.accept.includes('text/html');
+
+      if (acceptsHtml) {
+        res.status(410).sendFile(path.join(__dirname, '../../public/expired.html'));
+        return;
+      }
+
+      res.status(410).json({
+        success: false,
+        error: {
+          code: 'LINK_EXPIRED',
+          message: 'This link has expired'
+        }
+      });
+      return;
+    }
+
+    // Links that haven't started yet are treated as missing
+    if (!link || scheduleStatus !== 'live') {
       res.status(404).json({
         success: false,
         error: {
@@ -169,29 +215,98 @@ router.get('/:username/link/:linkId', async (req, res) => {
       return;
     }
 
+    // Events can only point at links and variants that still exist; ones deleted from the draft are still live until the next publish
+    const analyticsLinkId = link.isInDraft ? link.id : null;
+
     // Record link click for analytics
     const visitorIP = req.ip || req.connection.remoteAddress || 'unknown';
     const visitorIPHash = hashIP(visitorIP);
     const userAgent = req.get('User-Agent') || '';
     const referrer = req.get('Referer') || null;
+    const { isBot } = classifyRequest(req, visitorIPHash);
+    const device = parseUserAgent(userAgent);
+    const location = await lookupLocation(visitorIP);
+
+    // Gated links only redirect once the visitor has unlocked them
+    if (!isLinkUnlocked(link, readUnlockToken(req, link.id))) {
+      prisma.analyticsEvent.create({
+        data: {
+          bioPageId: bioPage.id,
+          userId: user.id,
+          eventType: 'gate_view',
+          linkId: analyticsLinkId,
+          visitorIpHash: visitorIPHash,
+          userAgent,
+          ...device,
+          ...location,
+          referrer,
+          source: parseShortLinkSource(req.query['via']),
+          isBot
+        }
+      }).catch(error => {
+        console.error('Failed to record gate view:', error);
+      });
+
+      const acceptsHtml = req.headers.accept && req.headers.accept.includes('text/html');
+
+      if (acceptsHtml) {
+        res.status(403).type('html').send(await renderGatePage(link.gateType as string));
+        return;
+      }
+
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'LINK_LOCKED',
+          message: link.gateType === 'password' ? 'This link is password protected' : 'This link may contain sensitive content',
+          gateType: link.gateType as string
+        }
+      });
+      return;
+    }
+
+    // Serve the same variant this visitor saw on the page
+    const variant = pickVariant(link.variants, visitorIPHash, link.id);
+    let destination = variant?.url || link.url;
+
+    // Targeting rules take precedence over variants
+    if (link.rules.length > 0) {
+      const rule = findMatchingRule(link.rules, { ...device, country: location.country });
+
+      if (rule) {
+        destination = rule.targetUrl;
+      }
+    }
+
+    // Tag the click with the page's and then the link's parameter templates
+    destination = applyOutboundParams(destination, [bioPage.outboundParams, link.outboundParams], {
+      username: user.username || username.toLowerCase(),
+      linkId: link.id,
+      linkTitle: variant?.title || link.title
+    });
 
     // Record analytics event (fire and forget)
     prisma.analyticsEvent.create({
       data: {
-        bioPageId: user.bioPage.id,
+        bioPageId: bioPage.id,
         userId: user.id,
         eventType: 'link_click',
-        linkId: link.id,
+        linkId: analyticsLinkId,
+        variantId: variant?.isInDraft ? variant.id : null,
         visitorIpHash: visitorIPHash,
         userAgent,
-        referrer
+        ...device,
+        ...location,
+        referrer,
+        source: parseShortLinkSource(req.query['via']),
+        isBot
       }
     }).catch(error => {
       console.error('Failed to record link click:', error);
     });
 
     // Redirect to the target URL
-    res.redirect(302, link.url);
+    res.redirect(302, destination);
   } catch (error) {
     console.error('Error processing link click:', error);
     res.status(500).json({
@@ -204,4 +319,124 @@ router.get('/:username/link/:linkId', async (req, res) => {
   }
 });
 
+// Unlock a gated link with its password or a sensitive-content confirmation
+router.post('/:username/link/:linkId/unlock', unlockLimiter, async (req: express.Request<{ username: string; linkId: string }>, res) => {
+  try {
+    const { username, linkId } = req.params;
+    const { password, confirm } = req.body || {};
+
+    const bioPage = await revisionService.getLiveLink(username, linkId);
+    const link = bioPage?.isPublished ? bioPage.link : null;
+
+    if (!bioPage || !link || getLinkScheduleStatus(link) !== 'live') {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'LINK_NOT_FOUND',
+          message: 'Link not found'
+        }
+      });
+      return;
+    }
+
+    if (!link.gateType) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'LINK_NOT_GATED',
+          message: 'This link is not locked'
+        }
+      });
+      return;
+    }
+
+    if (link.gateType === 'password') {
+      if (!password || typeof password !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Password is required',
+            field: 'password'
+          }
+        });
+        return;
+      }
+
+      if (!link.gatePasswordHash || !(await comparePassword(password, link.gatePasswordHash))) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'INVALID_PASSWORD',
+            message: 'Incorrect password',
+            field: 'password'
+          }
+        });
+        return;
+      }
+    } else if (confirm !== true) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Please confirm you want to view sensitive content',
+          field: 'confirm'
+        }
+      });
+      return;
+    }
+
+    const token = issueUnlockToken(link);
+    const redirectUrl = `/${username.toLowerCase()}/link/${link.id}`;
+
+    res.cookie(unlockCookieName(link.id), token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env['NODE_ENV'] === 'production',
+      maxAge: UNLOCK_TOKEN_TTL_SECONDS * 1000,
+      path: redirectUrl
+    });
+
+    // Record analytics event (fire and forget)
+    const visitorIP = req.ip || req.connection.remoteAddress || 'unknown';
+    const visitorIPHash = hashIP(visitorIP);
+    const location = await lookupLocation(visitorIP);
+
+    prisma.analyticsEvent.create({
+      data: {
+        bioPageId: bioPage.id,
+        userId: bioPage.userId,
+        eventType: 'gate_unlock',
+        linkId: link.isInDraft ? link.id : null,
+        visitorIpHash: visitorIPHash,
+        userAgent: req.get('User-Agent') || '',
+        ...parseUserAgent(req.get('User-Agent')),
+        ...location,
+        referrer: req.get('Referer') || null,
+        isBot: classifyRequest(req, visitorIPHash).isBot
+      }
+    }).catch(error => {
+      console.error('Failed to record gate unlock:', error);
+    });
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        expiresIn: UNLOCK_TOKEN_TTL_SECONDS,
+        redirectUrl
+      }
+    });
+  } catch (error) {
+    console.error('Error unlocking link:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to unlock link'
+      }
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
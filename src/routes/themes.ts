@@ -1,49 +1,401 @@
 import express from 'express';
 import prisma from '../config/database';
+import { ThemeService } from '../services/themeService';
+import { ThemeCatalogService, MAX_CATALOG_PAGE_SIZE } from '../services/themeCatalogService';
+import { authenticateToken } from '../middleware/auth';
+import { parsePagination, paginationMeta } from '../utils/pagination';
+import { AuthenticatedRequest, CatalogTheme, PaginatedResponse } from '../types';
+import { ValidationError, NotFoundError, PlanLimitError, ConflictError } from '../utils/errors';
 
 const router = express.Router();
+const themeService = new ThemeService();
+const themeCatalogService = new ThemeCatalogService();
 
-// Get all available themes
-router.get('/', async (_req, res) => {
+// Browse the theme catalog: ?tier=free|premium, ?tags=dark,minimal (all must match), ?page and ?limit.
+// Custom themes are only listed to their owner, retired ones to nobody.
+router.get('/', async (req, res) => {
   try {
-    const themes = await prisma.theme.findMany({
-      select: {
-        id: true,
-        name: true,
-        isPremium: true,
-        previewImageUrl: true,
-        colorVariables: true,
-      },
-      orderBy: [
-        { isPremium: 'asc' }, // Free themes first
-        { name: 'asc' }
-      ]
-    });
-
-    // Parse colorVariables JSON strings back to arrays
-    const themesWithParsedColors = themes.map(theme => ({
-      ...theme,
-      colorVariables: JSON.parse(theme.colorVariables)
-    }));
+    const tier = req.query['tier'];
+
+    if (tier !== undefined && tier !== 'free' && tier !== 'premium') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Tier must be one of: free, premium',
+          field: 'tier'
+        }
+      });
+      return;
+    }
+
+    const tags = typeof req.query['tags'] === 'string'
+      ? req.query['tags'].split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+      : [];
+    const { page, limit } = parsePagination(req.query, MAX_CATALOG_PAGE_SIZE);
+
+    const { themes, total } = await themeCatalogService.listThemes({
+      ...(tier && { tier }),
+      tags
+    }, page, limit);
+
+    const response: PaginatedResponse<CatalogTheme> = {
+      success: true,
+      data: themes,
+      pagination: paginationMeta(page, limit, total)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching themes:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to fetch themes',
+        code: 'THEMES_FETCH_ERROR'
+      }
+    });
+  }
+});
+
+// List the account's custom themes
+router.get('/custom', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const themes = await themeService.listCustomThemes(req.user.id);
 
     res.json({
+      success: true,
+      data: { themes }
+    });
+  } catch (error) {
+    console.error('List custom themes error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list custom themes'
+      }
+    });
+  }
+});
+
+// Build a theme: fonts, button shape, background and optional CSS scoped to the page
+router.post('/custom', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { name, settings, customCss } = req.body;
+
+    const theme = await themeService.createTheme(req.user.id, { name, settings, customCss });
+
+    res.status(201).json({
       success: true,
       data: {
-        themes: themesWithParsedColors,
-        counts: {
-          total: themes.length,
-          free: themes.filter(t => !t.isPremium).length,
-          premium: themes.filter(t => t.isPremium).length
+        theme,
+        message: 'Theme created successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Create custom theme error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
         }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to create theme'
+      }
+    });
+  }
+});
+
+// Update a custom theme; pages using it show the change once published
+router.put('/custom/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { name, settings, customCss } = req.body;
+
+    const theme = await themeService.updateTheme(req.user.id, req.params['id'] as string, { name, settings, customCss });
+
+    res.json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme updated successfully!'
       }
     });
   } catch (error) {
-    console.error('Error fetching themes:', error);
+    console.error('Update custom theme error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       error: {
-        message: 'Failed to fetch themes',
-        code: 'THEMES_FETCH_ERROR'
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to update theme'
+      }
+    });
+  }
+});
+
+// Delete a custom theme that no page uses
+router.delete('/custom/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    await themeService.deleteTheme(req.user.id, req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Theme deleted successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Delete custom theme error:', error);
+
+    if (error instanceof ConflictError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ConflictError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to delete theme'
+      }
+    });
+  }
+});
+
+// Copy a built-in or custom theme into a new custom theme
+router.post('/:id/duplicate', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const theme = await themeService.duplicateTheme(req.user.id, req.params['id'] as string, req.body.name);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        theme,
+        message: 'Theme duplicated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Duplicate theme error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to duplicate theme'
+      }
+    });
+  }
+});
+
+// Use a custom theme on a page (the primary page without a pageId); it goes live when the page is published
+router.post('/custom/:id/apply', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const { pageId } = req.body;
+
+    const bioPage = await themeService.applyTheme(req.user.id, req.params['id'] as string, typeof pageId === 'string' ? pageId : undefined);
+
+    res.json({
+      success: true,
+      data: {
+        bioPage,
+        message: 'Theme applied. Publish the page to make it live.'
+      }
+    });
+  } catch (error) {
+    console.error('Apply custom theme error:', error);
+
+    if (error instanceof PlanLimitError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          limit: error.limit,
+          requiredPlan: error.requiredPlan
+        }
+      });
+      return;
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error instanceof ValidationError && error.field && { field: error.field })
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to apply theme'
       }
     });
   }
@@ -54,8 +406,9 @@ router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     
-    const theme = await prisma.theme.findUnique({
-      where: { id }
+    // Custom themes are private; their owners get them from /custom
+    const theme = await prisma.theme.findFirst({
+      where: { id, ownerId: null }
     });
 
     if (!theme) {
@@ -69,10 +422,11 @@ router.get('/:id', async (req, res) => {
       return;
     }
 
-    // Parse colorVariables JSON string back to array
+    // Parse colorVariables and tags JSON strings back to arrays
     const themeWithParsedColors = {
       ...theme,
-      colorVariables: JSON.parse(theme.colorVariables)
+      colorVariables: JSON.parse(theme.colorVariables),
+      tags: JSON.parse(theme.tags)
     };
 
     res.json({
@@ -1,9 +1,11 @@
 import express from 'express';
+import multer from 'multer';
 import prisma from '../config/database';
 import { UserService } from '../services/userService';
 import { authenticateToken } from '../middleware/auth';
 import { AuthenticatedRequest } from '../types';
 import { ValidationError, ConflictError } from '../utils/errors';
+import { allowedAvatarTypes, maxAvatarBytes } from '../utils/avatar';
 
 const router = express.Router();
 const userService = new UserService();
@@ -106,6 +108,139 @@ router.put('/profile', authenticateToken, async (req: AuthenticatedRequest, res)
   }
 });
 
+// Read the uploaded image into memory; multer's errors become validation errors
+const receiveAvatar = (req: express.Request, res: express.Response): Promise<Express.Multer.File | undefined> => {
+  const allowedTypes = allowedAvatarTypes();
+  const maxBytes = maxAvatarBytes();
+
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!allowedTypes.includes(file.mimetype)) {
+        callback(new ValidationError(`Avatar must be one of: ${allowedTypes.join(', ')}`, 'avatar'));
+        return;
+      }
+      callback(null, true);
+    }
+  }).single('avatar');
+
+  return new Promise((resolve, reject) => {
+    upload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        reject(new ValidationError(
+          error.code === 'LIMIT_FILE_SIZE'
+            ? `Avatar must be smaller than ${Math.round(maxBytes / 1024 / 1024 * 10) / 10} MB`
+            : error.message,
+          'avatar'
+        ));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolve(req.file);
+      }
+    });
+  });
+};
+
+// Upload a profile image (multipart field "avatar"); it's cropped square and resized
+router.post('/profile/avatar', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const file = await receiveAvatar(req, res);
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Avatar image is required',
+          field: 'avatar'
+        }
+      });
+      return;
+    }
+
+    const { user, avatar } = await userService.uploadAvatar(req.user.id, file.buffer);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user,
+        avatar,
+        message: 'Profile image updated successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Upload avatar error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(error.status).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          field: error.field
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to upload profile image'
+      }
+    });
+  }
+});
+
+// Remove the profile image
+router.delete('/profile/avatar', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Authentication required'
+        }
+      });
+      return;
+    }
+
+    const user = await userService.removeAvatar(req.user.id);
+
+    res.json({
+      success: true,
+      data: {
+        user,
+        message: 'Profile image removed successfully!'
+      }
+    });
+  } catch (error) {
+    console.error('Remove avatar error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to remove profile image'
+      }
+    });
+  }
+});
+
 // Get user profile
 router.get('/profile', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
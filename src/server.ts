@@ -14,7 +14,15 @@ dotenv.config();
 import prisma from './config/database';
 import logger from './utils/logger';
 import { checkHealth } from './utils/healthCheck';
+import { hashIP } from './utils/crypto';
+import { buildPublicPage, recordPageView } from './utils/publicPage';
 import { requestLogger, errorTracker, performanceMonitor } from './middleware/monitoring';
+import { routeCustomDomains } from './middleware/customDomain';
+import { startJob } from './jobs/runner';
+import { LinkHealthService } from './services/linkHealthService';
+import { AnalyticsRollupService } from './services/analyticsRollupService';
+import { RevisionService } from './services/revisionService';
+import { OgImageService } from './services/ogImageService';
 
 // Import routes (will be created in subsequent tasks)
 import themeRoutes from './routes/themes';
@@ -25,9 +33,11 @@ import publicRoutes from './routes/public';
 import analyticsRoutes from './routes/analytics';
 import subscriptionRoutes from './routes/subscription';
 import webhookRoutes from './routes/webhooks';
-// import adminRoutes from './routes/admin';
+import adminRoutes from './routes/admin';
 
 const app = express();
+const revisionService = new RevisionService();
+const ogImageService = new OgImageService();
 const PORT = process.env['PORT'] || 3000;
 
 // Security middleware
@@ -40,6 +50,7 @@ app.use(helmet({
       imgSrc: ["'self'", "data:", "https:"],
       scriptSrc: ["'self'", "'unsafe-inline'", "https://cdn.tailwindcss.com", "https://unpkg.com"],
       connectSrc: ["'self'", "https://api.stripe.com"],
+      frameSrc: ["https://www.youtube-nocookie.com", "https://open.spotify.com", "https://w.soundcloud.com", "https://platform.twitter.com"],
     },
   },
   hsts: {
@@ -84,6 +95,9 @@ if (process.env['NODE_ENV'] !== 'test') {
   }
 }
 
+// Custom domains serve their page at the root (before static files, which would serve index.html there)
+app.use(routeCustomDomains);
+
 // Static file serving for uploads and public files
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 app.use(express.static(path.join(__dirname, '../public')));
@@ -113,32 +127,20 @@ app.get('/', (_req, res) => {
 app.use('/api/themes', themeRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
+app.use('/api/bio-page/pages/:pageId', bioPageRoutes);
 app.use('/api/bio-page', bioPageRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/subscription', subscriptionRoutes);
 
 // Public bio page API endpoint
-app.get('/api/bio-page/public/:username', async (req, res) => {
+app.get(['/api/bio-page/public/:username', '/api/bio-page/public/:username/:pageSlug'], async (req: express.Request<{ username: string; pageSlug?: string }>, res) => {
   try {
-    const { username } = req.params;
-
-    // Find user and their bio page
-    const user = await prisma.user.findUnique({
-      where: { username: username.toLowerCase() },
-      include: {
-        bioPage: {
-          include: {
-            links: {
-              where: { isActive: true },
-              orderBy: { orderIndex: 'asc' }
-            },
-            theme: true
-          }
-        }
-      }
-    });
+    const { username, pageSlug } = req.params;
 
-    if (!user || !user.bioPage || !user.bioPage.isPublished) {
+    // Visitors see the page's published revision, not the draft
+    const bioPage = await revisionService.getLivePage(username, pageSlug);
+
+    if (!bioPage) {
       res.status(404).json({
         success: false,
         error: {
@@ -149,50 +151,15 @@ app.get('/api/bio-page/public/:username', async (req, res) => {
       return;
     }
 
-    // Parse custom colors if they exist
-    let customColors = null;
-    if (user.bioPage.customColors) {
-      try {
-        customColors = JSON.parse(user.bioPage.customColors);
-      } catch (error) {
-        console.error('Failed to parse custom colors:', error);
-      }
-    }
+    const visitorIPHash = hashIP(req.ip || req.socket.remoteAddress || 'unknown');
+    const { data, servedLinks } = buildPublicPage(bioPage, visitorIPHash);
 
-    // Parse theme color variables
-    let themeColorVariables = [];
-    try {
-      themeColorVariables = JSON.parse(user.bioPage.theme.colorVariables);
-    } catch (error) {
-      console.error('Failed to parse theme color variables:', error);
-    }
+    recordPageView(req, bioPage, servedLinks, visitorIPHash);
 
     // Return bio page data
     res.json({
       success: true,
-      data: {
-        user: {
-          username: user.username,
-          profileName: user.profileName,
-          profileBio: user.profileBio,
-          profileImageUrl: user.profileImageUrl
-        },
-        bioPage: {
-          id: user.bioPage.id,
-          themeId: user.bioPage.themeId,
-          customColors,
-          links: user.bioPage.links,
-          createdAt: user.bioPage.createdAt,
-          updatedAt: user.bioPage.updatedAt
-        },
-        theme: {
-          id: user.bioPage.theme.id,
-          name: user.bioPage.theme.name,
-          isPremium: user.bioPage.theme.isPremium,
-          cssTemplate: user.bioPage.theme.cssTemplate,
-          colorVariables: themeColorVariables
-        }
-      }
+      data
     });
   } catch (error) {
     console.error('Error fetching public bio page:', error);
@@ -206,7 +173,71 @@ app.get('/api/bio-page/public/:username', async (req, res) => {
   }
 });
 
-// app.use('/api/admin', adminRoutes);
+// A page's draft, for whoever has its preview link; nothing is recorded in analytics
+app.get('/api/bio-page/preview/:token', async (req: express.Request<{ token: string }>, res) => {
+  try {
+    const bioPage = await revisionService.getPreviewPage(req.params.token);
+
+    if (!bioPage) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'PREVIEW_NOT_FOUND',
+          message: 'This preview link is invalid or has expired'
+        }
+      });
+      return;
+    }
+
+    const visitorIPHash = hashIP(req.ip || req.socket.remoteAddress || 'unknown');
+
+    res.json({
+      success: true,
+      data: buildPublicPage(bioPage, visitorIPHash).data
+    });
+  } catch (error) {
+    console.error('Error fetching bio page preview:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to load preview'
+      }
+    });
+  }
+});
+
+// Share image for a public page, drawn on first request and whenever the page or profile changes
+app.get('/api/bio-page/og-image/:bioPageId.png', async (req: express.Request<{ bioPageId: string }>, res) => {
+  try {
+    const file = await ogImageService.getImage(req.params.bioPageId);
+
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'PAGE_NOT_FOUND',
+          message: 'Bio page not found'
+        }
+      });
+      return;
+    }
+
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.type('png').sendFile(file);
+  } catch (error) {
+    console.error('Error rendering share image:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to render share image'
+      }
+    });
+  }
+});
+
+app.use('/api/admin', adminRoutes);
 
 // Public bio page routes (must come after API routes)
 app.use('/', publicRoutes);
@@ -266,6 +297,25 @@ if (process.env['NODE_ENV'] !== 'test') {
     console.log(`🌍 Environment: ${process.env['NODE_ENV']}`);
   });
 
+  // Background jobs
+  if (process.env['LINK_HEALTH_CHECKS'] !== 'disabled') {
+    const linkHealthService = new LinkHealthService();
+    startJob({
+      name: 'link-health',
+      intervalMs: parseInt(process.env['LINK_HEALTH_CHECK_INTERVAL_MS'] || '900000'), // 15 minutes
+      run: () => linkHealthService.runDueChecks()
+    });
+  }
+
+  if (process.env['ANALYTICS_ROLLUPS'] !== 'disabled') {
+    const analyticsRollupService = new AnalyticsRollupService();
+    startJob({
+      name: 'analytics-rollup',
+      intervalMs: parseInt(process.env['ANALYTICS_ROLLUP_INTERVAL_MS'] || '300000'), // 5 minutes
+      run: () => analyticsRollupService.rollUp()
+    });
+  }
+
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     logger.info('SIGTERM received, shutting down gracefully');
@@ -0,0 +1,65 @@
+import { ValidationError } from '../utils/errors';
+import { THEME_COLOR_KEYS, validateHexColor } from '../utils/validation';
+import { cardColors } from '../utils/ogImage';
+import { contrastRatio, suggestAccessibleColor, WCAG_AA_CONTRAST, WCAG_AA_LARGE_CONTRAST } from '../utils/contrast';
+import { ContrastCheck, ThemeColors } from '../types';
+
+// Text is read on the page background, and on buttons bordered and tinted in the primary color
+const COLOR_PAIRS: Array<[keyof ThemeColors, keyof ThemeColors]> = [
+  ['text', 'background'],
+  ['text', 'primary']
+];
+
+export class AccessibilityService {
+  checkPair(foreground: string, background: string, foregroundColor: string, backgroundColor: string): ContrastCheck {
+    const ratio = contrastRatio(foregroundColor, backgroundColor);
+    const level = ratio >= WCAG_AA_CONTRAST ? 'pass' : ratio >= WCAG_AA_LARGE_CONTRAST ? 'warn' : 'fail';
+
+    return {
+      foreground,
+      background,
+      foregroundColor,
+      backgroundColor,
+      ratio: Math.round(ratio * 100) / 100,
+      level,
+      suggestion: level === 'pass' ? null : suggestAccessibleColor(foregroundColor, backgroundColor, WCAG_AA_CONTRAST)
+    };
+  }
+
+  // A page's custom colors
+  checkColors(colors: ThemeColors): ContrastCheck[] {
+    return COLOR_PAIRS.map(([foreground, background]) =>
+      this.checkPair(foreground, background, colors[foreground], colors[background]));
+  }
+
+  // A theme's text against each stop of its background, as read from its CSS
+  checkTheme(cssTemplate: string): ContrastCheck[] {
+    const { background, text } = cardColors(cssTemplate, null);
+    return background.map(stop => this.checkPair('text', 'background', text, stop));
+  }
+
+  // Custom colors must all be hex, and text that's hard to read even at large sizes is refused
+  assertReadableColors(colors: unknown): void {
+    if (typeof colors !== 'object' || colors === null) {
+      throw new ValidationError('Custom colors must be an object', 'customColors');
+    }
+
+    const values = colors as Record<string, unknown>;
+
+    for (const key of THEME_COLOR_KEYS) {
+      if (typeof values[key] !== 'string' || !validateHexColor(values[key] as string)) {
+        throw new ValidationError(`customColors.${key} must be a hex color such as #1f2937`, `customColors.${key}`);
+      }
+    }
+
+    const failed = this.checkColors(values as unknown as ThemeColors).find(check => check.level === 'fail');
+
+    if (failed) {
+      throw new ValidationError(
+        `Text in ${failed.foregroundColor} on ${failed.backgroundColor} (${failed.background}) has a contrast ratio of ${failed.ratio}:1, ` +
+        `below the minimum of ${WCAG_AA_LARGE_CONTRAST}:1. Try ${failed.suggestion} instead.`,
+        `customColors.${failed.foreground}`
+      );
+    }
+  }
+}
\ No newline at end of file
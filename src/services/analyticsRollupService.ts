@@ -0,0 +1,312 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { HyperLogLog } from '../utils/hyperLogLog';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const STATE_ID = 'analytics_events';
+
+// Events are recorded fire-and-forget, so an hour is left a few minutes for stragglers before it's rolled up
+const SETTLE_MS = 5 * 60 * 1000;
+// The first run, or one after downtime, catches up a week at a time
+const MAX_HOURS_PER_RUN = 7 * 24;
+const EVENT_BATCH_SIZE = 5000;
+
+export interface RollupRunSummary {
+  hours: number;
+  rows: number;
+  rolledUpTo: Date | null;
+}
+
+export interface DayTotals {
+  views: number;
+  clicks: number;
+  uniqueVisitors: number;
+}
+
+export interface PageTotals {
+  totalViews: number;
+  totalClicks: number;
+  uniqueVisitors: number;
+  linkClicks: Map<string, number>;
+  days: Map<string, DayTotals>; // by UTC date, e.g. "2026-10-18"
+}
+
+interface Bucket {
+  bioPageId: string;
+  linkId: string | null;
+  isBot: boolean;
+  views: number;
+  clicks: number;
+  visitors: HyperLogLog | null; // pages only; links are read for their clicks alone
+}
+
+interface Tally {
+  views: number;
+  clicks: number;
+  visitors: HyperLogLog;
+}
+
+const floorTo = (date: Date, ms: number): Date => new Date(Math.floor(date.getTime() / ms) * ms);
+const ceilTo = (date: Date, ms: number): Date => new Date(Math.ceil(date.getTime() / ms) * ms);
+const dateKey = (date: Date): string => date.toISOString().split('T')[0] as string;
+
+// Keeps hourly and daily totals per page and link, so analytics over long ranges read a row per day
+// instead of every event. Only the hours the job hasn't reached yet are read from raw events.
+export class AnalyticsRollupService {
+  // Roll up every settled hour since the last run; each day's totals are built once its last hour is in
+  async rollUp(now: Date = new Date()): Promise<RollupRunSummary> {
+    const from = (await this.getRolledUpTo()) || (await this.firstEventHour());
+
+    if (!from) {
+      return { hours: 0, rows: 0, rolledUpTo: null };
+    }
+
+    const until = floorTo(new Date(now.getTime() - SETTLE_MS), HOUR_MS);
+    let hour = from;
+    let hours = 0;
+    let rows = 0;
+
+    while (hour < until && hours < MAX_HOURS_PER_RUN) {
+      const next = new Date(hour.getTime() + HOUR_MS);
+
+      rows += await this.rollUpHour(hour);
+      if (next.getTime() % DAY_MS === 0) {
+        rows += await this.rollUpDay(floorTo(hour, DAY_MS));
+      }
+
+      await prisma.analyticsRollupState.upsert({
+        where: { id: STATE_ID },
+        create: { id: STATE_ID, rolledUpTo: next },
+        update: { rolledUpTo: next }
+      });
+
+      hour = next;
+      hours++;
+    }
+
+    return { hours, rows, rolledUpTo: hour };
+  }
+
+  // Views, clicks and unique visitors for a page: rollups for the hours the job has covered,
+  // raw events for the rest (the current hour, and partial hours at either end of the range)
+  async getPageTotals(bioPageId: string, startDate: Date, endDate: Date, includeBots: boolean): Promise<PageTotals> {
+    const rolledUpTo = await this.getRolledUpTo();
+    const firstHour = ceilTo(startDate, HOUR_MS);
+    const rolledEnd = rolledUpTo && rolledUpTo < endDate ? rolledUpTo : floorTo(endDate, HOUR_MS);
+    const useRollups = !!rolledUpTo && rolledEnd > firstHour;
+    const bots = includeBots ? {} : { isBot: false };
+
+    const buckets = useRollups ? this.rollupBuckets(firstHour, rolledEnd) : [];
+    const rawRanges = useRollups
+      ? [{ gte: startDate, lt: firstHour }, { gte: rolledEnd, lte: endDate }]
+      : [{ gte: startDate, lte: endDate }];
+
+    const [pageRows, linkRows, events] = await Promise.all([
+      buckets.length > 0
+        ? prisma.analyticsRollup.findMany({
+          where: { bioPageId, linkId: null, ...bots, OR: buckets },
+          select: { bucketStart: true, views: true, clicks: true, visitors: true }
+        })
+        : [],
+      buckets.length > 0
+        ? prisma.analyticsRollup.groupBy({
+          by: ['linkId'],
+          where: { bioPageId, linkId: { not: null }, ...bots, OR: buckets },
+          _sum: { clicks: true }
+        })
+        : [],
+      prisma.analyticsEvent.findMany({
+        where: { bioPageId, ...bots, OR: rawRanges.map(createdAt => ({ createdAt })) },
+        select: { eventType: true, linkId: true, visitorIpHash: true, createdAt: true }
+      })
+    ]);
+
+    const total: Tally = { views: 0, clicks: 0, visitors: new HyperLogLog() };
+    const days = new Map<string, Tally>();
+    const linkClicks = new Map<string, number>();
+
+    const tally = (date: Date): Tally => {
+      const key = dateKey(date);
+      const day = days.get(key) || { views: 0, clicks: 0, visitors: new HyperLogLog() };
+      days.set(key, day);
+      return day;
+    };
+
+    for (const row of pageRows) {
+      const day = tally(row.bucketStart);
+      const visitors = new HyperLogLog(row.visitors);
+
+      day.views += row.views;
+      day.clicks += row.clicks;
+      day.visitors.merge(visitors);
+      total.views += row.views;
+      total.clicks += row.clicks;
+      total.visitors.merge(visitors);
+    }
+
+    for (const row of linkRows) {
+      linkClicks.set(row.linkId as string, row._sum.clicks || 0);
+    }
+
+    for (const event of events) {
+      const day = tally(event.createdAt);
+
+      day.visitors.add(event.visitorIpHash);
+      total.visitors.add(event.visitorIpHash);
+
+      if (event.eventType === 'page_view') {
+        day.views++;
+        total.views++;
+      } else if (event.eventType === 'link_click') {
+        day.clicks++;
+        total.clicks++;
+        if (event.linkId) {
+          linkClicks.set(event.linkId, (linkClicks.get(event.linkId) || 0) + 1);
+        }
+      }
+    }
+
+    return {
+      totalViews: total.views,
+      totalClicks: total.clicks,
+      uniqueVisitors: total.visitors.count(),
+      linkClicks,
+      days: new Map(Array.from(days, ([key, day]) => [key, {
+        views: day.views,
+        clicks: day.clicks,
+        uniqueVisitors: day.visitors.count()
+      }]))
+    };
+  }
+
+  // Whole days in the middle of the range come from daily rows, the hours either side from hourly rows
+  private rollupBuckets(firstHour: Date, rolledEnd: Date): Prisma.AnalyticsRollupWhereInput[] {
+    const firstDay = ceilTo(firstHour, DAY_MS);
+    const lastDay = floorTo(rolledEnd, DAY_MS);
+
+    if (firstDay >= lastDay) {
+      return [{ granularity: 'hour', bucketStart: { gte: firstHour, lt: rolledEnd } }];
+    }
+
+    return [
+      { granularity: 'hour', bucketStart: { gte: firstHour, lt: firstDay } },
+      { granularity: 'day', bucketStart: { gte: firstDay, lt: lastDay } },
+      { granularity: 'hour', bucketStart: { gte: lastDay, lt: rolledEnd } }
+    ];
+  }
+
+  private async getRolledUpTo(): Promise<Date | null> {
+    const state = await prisma.analyticsRollupState.findUnique({ where: { id: STATE_ID } });
+    return state?.rolledUpTo || null;
+  }
+
+  private async firstEventHour(): Promise<Date | null> {
+    const first = await prisma.analyticsEvent.findFirst({
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true }
+    });
+
+    return first ? floorTo(first.createdAt, HOUR_MS) : null;
+  }
+
+  // Rebuilt from scratch each time, so a run that's repeated or interrupted leaves the same rows
+  private async rollUpHour(hour: Date): Promise<number> {
+    const buckets = new Map<string, Bucket>();
+    let cursor: string | undefined;
+
+    for (;;) {
+      const events = await prisma.analyticsEvent.findMany({
+        where: { createdAt: { gte: hour, lt: new Date(hour.getTime() + HOUR_MS) } },
+        select: { id: true, bioPageId: true, linkId: true, eventType: true, visitorIpHash: true, isBot: true },
+        orderBy: { id: 'asc' },
+        take: EVENT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      for (const event of events) {
+        const page = this.bucket(buckets, event.bioPageId, null, event.isBot);
+        page.visitors?.add(event.visitorIpHash);
+
+        if (event.eventType === 'page_view') {
+          page.views++;
+        } else if (event.eventType === 'link_click') {
+          page.clicks++;
+
+          if (event.linkId) {
+            this.bucket(buckets, event.bioPageId, event.linkId, event.isBot).clicks++;
+          }
+        }
+      }
+
+      if (events.length < EVENT_BATCH_SIZE) {
+        break;
+      }
+      cursor = events[events.length - 1]?.id;
+    }
+
+    await this.replaceRows({ granularity: 'hour', bucketStart: hour }, Array.from(buckets.values()));
+
+    return buckets.size;
+  }
+
+  // One page at a time, since each hourly page row carries a sketch
+  private async rollUpDay(day: Date): Promise<number> {
+    const hours = { granularity: 'hour', bucketStart: { gte: day, lt: new Date(day.getTime() + DAY_MS) } };
+    const pages = await prisma.analyticsRollup.groupBy({ by: ['bioPageId'], where: hours });
+    let rows = 0;
+
+    for (const { bioPageId } of pages) {
+      const hourlyRows = await prisma.analyticsRollup.findMany({ where: { ...hours, bioPageId } });
+      const buckets = new Map<string, Bucket>();
+
+      for (const row of hourlyRows) {
+        const bucket = this.bucket(buckets, bioPageId, row.linkId, row.isBot);
+        bucket.views += row.views;
+        bucket.clicks += row.clicks;
+        if (row.visitors) {
+          bucket.visitors?.merge(new HyperLogLog(row.visitors));
+        }
+      }
+
+      await this.replaceRows({ granularity: 'day', bucketStart: day, bioPageId }, Array.from(buckets.values()));
+      rows += buckets.size;
+    }
+
+    return rows;
+  }
+
+  private bucket(buckets: Map<string, Bucket>, bioPageId: string, linkId: string | null, isBot: boolean): Bucket {
+    const key = `${bioPageId}:${linkId || ''}:${isBot}`;
+    let bucket = buckets.get(key);
+
+    if (!bucket) {
+      bucket = { bioPageId, linkId, isBot, views: 0, clicks: 0, visitors: linkId ? null : new HyperLogLog() };
+      buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  private async replaceRows(
+    scope: { granularity: 'hour' | 'day'; bucketStart: Date; bioPageId?: string },
+    buckets: Bucket[]
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.analyticsRollup.deleteMany({ where: scope }),
+      prisma.analyticsRollup.createMany({
+        data: buckets.map(bucket => ({
+          bioPageId: bucket.bioPageId,
+          linkId: bucket.linkId,
+          granularity: scope.granularity,
+          bucketStart: scope.bucketStart,
+          isBot: bucket.isBot,
+          views: bucket.views,
+          clicks: bucket.clicks,
+          visitors: bucket.visitors?.toBuffer() ?? null
+        }))
+      })
+    ]);
+  }
+}
\ No newline at end of file
@@ -1,7 +1,25 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { NotFoundError } from '../utils/errors';
+import { PlanEntitlements, SubscriptionService } from './subscriptionService';
+import { AnalyticsRollupService, DayTotals, PageTotals } from './analyticsRollupService';
+import { compareConversionRates, SignificanceLevel } from '../utils/variants';
+import { ownedPageWhere } from '../utils/bioPages';
+import { BrowserFamily, DeviceType, OperatingSystem } from '../utils/userAgent';
+import { TrafficSources } from '../types';
 
-export interface AnalyticsData {
+// Visitor dimensions parsed from the user agent, or looked up from the IP, when an event is recorded
+export type AudienceDimension = 'deviceType' | 'os' | 'browser' | 'country' | 'region' | 'city';
+
+export interface DimensionBreakdown {
+  value: string; // "unknown" for events recorded before the dimension was, or when it couldn't be resolved
+  views: number;
+  clicks: number;
+  share: number; // of page views, 0 to 1
+}
+
+// Totals for a period; cheap enough for the dashboard summary, since most of it comes from the rollups
+export interface AnalyticsTotals {
   totalViews: number;
   totalClicks: number;
   uniqueVisitors: number;
@@ -19,17 +37,94 @@ export interface AnalyticsData {
   }>;
 }
 
+// The detailed view adds audience breakdowns and traffic sources, which group the raw events.
+// Both are advanced analytics, and null on plans without it.
+export interface AnalyticsData extends AnalyticsTotals {
+  breakdowns: Record<AudienceDimension, DimensionBreakdown[]> | null;
+  traffic: TrafficSources | null;
+}
+
+export interface VariantStats {
+  variantId: string;
+  title: string;
+  url: string;
+  weight: number;
+  impressions: number;
+  clicks: number;
+  uniqueClicks: number;
+  ctr: number; // unique clickers who were shown the variant, over unique visitors it was shown to
+  zScore: number | null;
+  pValue: number | null;
+  significance: SignificanceLevel;
+}
+
+export interface LinkExperimentStats {
+  linkId: string;
+  title: string;
+  variants: VariantStats[];
+  // Best variant that beats the control with p < 0.05, if any
+  recommendedVariantId: string | null;
+}
+
 export interface AnalyticsFilters {
+  bioPageId?: string; // defaults to the primary page
   startDate?: Date;
   endDate?: Date;
   period?: 'day' | 'week' | 'month';
+  includeBots?: boolean; // events classified as crawlers, monitors or scripts are left out by default
+  deviceType?: DeviceType; // e.g. only visits from phones
+  os?: OperatingSystem;
+  browser?: BrowserFamily;
+  country?: string; // ISO 3166-1 alpha-2 code
 }
 
+// Columns each breakdown groups by; regions and cities carry their country, as names repeat across countries
+const AUDIENCE_DIMENSIONS: Record<AudienceDimension, AudienceDimension[]> = {
+  deviceType: ['deviceType'],
+  os: ['os'],
+  browser: ['browser'],
+  country: ['country'],
+  region: ['region', 'country'],
+  city: ['city', 'region', 'country']
+};
+
+const TOP_TRAFFIC_SOURCES = 10;
+
 export class AnalyticsService {
+  private subscriptionService = new SubscriptionService();
+  private analyticsRollupService = new AnalyticsRollupService();
+
   async getBioPageAnalytics(userId: string, filters: AnalyticsFilters = {}): Promise<AnalyticsData> {
+    // Narrowing to an audience is advanced analytics too
+    if (this.hasAudienceFilter(filters)) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'advancedAnalytics');
+    }
+
+    const { totals, where, entitlements } = await this.getTotals(userId, filters);
+
+    const [breakdowns, traffic] = entitlements.advancedAnalytics
+      ? await Promise.all([
+        this.getBreakdowns(where, totals.totalViews),
+        this.getTrafficSources(where, totals.totalViews)
+      ])
+      : [null, null];
+
+    return {
+      ...totals,
+      breakdowns,
+      traffic
+    };
+  }
+
+  // Totals for the page and period, and the event filter and plan the detailed view goes on with
+  private async getTotals(userId: string, filters: AnalyticsFilters): Promise<{
+    totals: AnalyticsTotals;
+    where: Prisma.AnalyticsEventWhereInput;
+    entitlements: PlanEntitlements;
+  }> {
     // Verify user owns the bio page
     const bioPage = await prisma.bioPage.findFirst({
-      where: { userId },
+      where: ownedPageWhere(userId, filters.bioPageId),
       include: {
         links: true
       }
@@ -39,7 +134,8 @@ export class AnalyticsService {
       throw new NotFoundError('Bio page not found');
     }
 
-    const { startDate, endDate } = this.getDateRange(filters);
+    const entitlements = await this.subscriptionService.getEntitlements(userId);
+    const { startDate, endDate } = this.getDateRange(filters, entitlements.analyticsRetentionDays);
 
     // Build where clause for analytics events
     const whereClause = {
@@ -47,20 +143,279 @@ export class AnalyticsService {
       createdAt: {
         gte: startDate,
         lte: endDate
+      },
+      ...this.eventFilter(filters)
+    };
+
+    // Audience filters need the individual events; otherwise the rollups have the totals
+    const { totalViews, totalClicks, uniqueVisitors, linkClicks, days } = this.hasAudienceFilter(filters)
+      ? await this.getEventTotals(whereClause)
+      : await this.analyticsRollupService.getPageTotals(bioPage.id, startDate, endDate, !!filters.includeBots);
+
+    // Top links by clicks, with link details
+    const topLinks = Array.from(linkClicks)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([linkId, clicks]) => {
+        const link = bioPage.links.find(l => l.id === linkId);
+        return {
+          linkId,
+          title: link?.title || 'Unknown Link',
+          url: link?.url || '',
+          clicks
+        };
+      });
+
+    const dailyStats = this.getDailyStats(startDate, endDate, days);
+
+    return {
+      totals: {
+        totalViews,
+        totalClicks,
+        uniqueVisitors,
+        topLinks,
+        dailyStats
+      },
+      where: whereClause,
+      entitlements
+    };
+  }
+
+  // CTR per A/B variant: unique clickers over unique visitors the variant was shown to.
+  // The oldest variant is the control every other variant is tested against.
+  async getLinkExperimentStats(userId: string, linkId: string, filters: AnalyticsFilters = {}): Promise<LinkExperimentStats> {
+    const link = await prisma.link.findFirst({
+      where: {
+        id: linkId,
+        bioPage: { userId }
+      },
+      include: {
+        variants: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    if (!link) {
+      throw new NotFoundError('Link not found');
+    }
+
+    const { analyticsRetentionDays } = await this.subscriptionService.getEntitlements(userId);
+    const { startDate, endDate } = this.getDateRange(filters, analyticsRetentionDays);
+
+    const events = await prisma.analyticsEvent.findMany({
+      where: {
+        linkId,
+        variantId: { not: null },
+        eventType: { in: ['variant_impression', 'link_click'] },
+        createdAt: {
+          gte: startDate,
+          lte: endDate
+        },
+        ...this.eventFilter(filters)
+      },
+      select: {
+        eventType: true,
+        variantId: true,
+        visitorIpHash: true
+      }
+    });
+
+    const counts = new Map<string, { viewers: Set<string>; clickers: Set<string>; clicks: number }>();
+    link.variants.forEach(variant => {
+      counts.set(variant.id, { viewers: new Set(), clickers: new Set(), clicks: 0 });
+    });
+
+    events.forEach(event => {
+      const variantCounts = counts.get(event.variantId as string);
+      if (!variantCounts) {
+        return;
+      }
+
+      if (event.eventType === 'variant_impression') {
+        variantCounts.viewers.add(event.visitorIpHash);
+      } else {
+        variantCounts.clicks++;
+        variantCounts.clickers.add(event.visitorIpHash);
+      }
+    });
+
+    // Only clickers who were shown the variant convert; some arrive straight from a short link
+    const arms = link.variants.map(variant => {
+      const variantCounts = counts.get(variant.id)!;
+      return {
+        variant,
+        impressions: variantCounts.viewers.size,
+        conversions: Array.from(variantCounts.clickers).filter(visitor => variantCounts.viewers.has(visitor)).length,
+        uniqueClicks: variantCounts.clickers.size,
+        clicks: variantCounts.clicks
+      };
+    });
+
+    const control = arms[0];
+    const variants: VariantStats[] = arms.map((arm, index) => {
+      const comparison = index === 0 || !control
+        ? { zScore: null, pValue: null, significance: 'control' as SignificanceLevel }
+        : compareConversionRates(control, arm);
+
+      return {
+        variantId: arm.variant.id,
+        title: arm.variant.title || link.title,
+        url: arm.variant.url || link.url,
+        weight: arm.variant.weight,
+        impressions: arm.impressions,
+        clicks: arm.clicks,
+        uniqueClicks: arm.uniqueClicks,
+        ctr: arm.impressions > 0 ? arm.conversions / arm.impressions : 0,
+        ...comparison
+      };
+    });
+
+    const controlCtr = variants[0]?.ctr || 0;
+    const winner = variants
+      .filter(variant => variant.significance === 'significant' && variant.ctr > controlCtr)
+      .sort((a, b) => b.ctr - a.ctr)[0];
+
+    return {
+      linkId: link.id,
+      title: link.title,
+      variants,
+      recommendedVariantId: winner?.variantId || null
+    };
+  }
+
+  private getDateRange(filters: AnalyticsFilters, retentionDays: number | null): { startDate: Date; endDate: Date } {
+    const endDate = filters.endDate || new Date();
+    let startDate = filters.startDate;
+
+    if (!startDate) {
+      // Default to last 30 days
+      startDate = new Date();
+      startDate.setDate(startDate.getDate() - 30);
+    }
+
+    // Never reach further back than the plan's analytics history
+    if (retentionDays !== null) {
+      const earliest = new Date();
+      earliest.setDate(earliest.getDate() - retentionDays);
+      if (startDate < earliest) {
+        startDate = earliest;
       }
+    }
+
+    return { startDate, endDate };
+  }
+
+  private eventFilter(filters: AnalyticsFilters) {
+    return {
+      ...(!filters.includeBots && { isBot: false }),
+      ...(filters.deviceType && { deviceType: filters.deviceType }),
+      ...(filters.os && { os: filters.os }),
+      ...(filters.browser && { browser: filters.browser }),
+      ...(filters.country && { country: filters.country })
     };
+  }
+
+  // Views and clicks per device type, OS, browser family and location, most views first
+  private async getBreakdowns(where: Prisma.AnalyticsEventWhereInput, totalViews: number): Promise<Record<AudienceDimension, DimensionBreakdown[]>> {
+    const dimensions = Object.entries(AUDIENCE_DIMENSIONS) as Array<[AudienceDimension, AudienceDimension[]]>;
+
+    const groups = await Promise.all(dimensions.map(([, fields]) => prisma.analyticsEvent.groupBy({
+      by: [...fields, 'eventType'],
+      where: { ...where, eventType: { in: ['page_view', 'link_click'] } },
+      _count: { id: true }
+    })));
+
+    const entries = dimensions.map(([dimension, fields], index) => {
+      const totals = new Map<string, { views: number; clicks: number }>();
+
+      (groups[index] || []).forEach(group => {
+        // e.g. "Lyon, Auvergne-Rhône-Alpes, FR"; unknown when the dimension itself is
+        const parts = fields.map(field => (group as Partial<Record<AudienceDimension, string | null>>)[field] || null);
+        const value = parts[0] ? parts.filter(Boolean).join(', ') : 'unknown';
+        const counts = totals.get(value) || { views: 0, clicks: 0 };
+
+        if (group.eventType === 'page_view') {
+          counts.views += group._count.id;
+        } else {
+          counts.clicks += group._count.id;
+        }
+        totals.set(value, counts);
+      });
+
+      const breakdown = Array.from(totals, ([value, counts]) => ({
+        value,
+        ...counts,
+        share: totalViews > 0 ? counts.views / totalViews : 0
+      })).sort((a, b) => b.views - a.views || b.clicks - a.clicks);
+
+      return [dimension, breakdown] as const;
+    });
 
-    // Get total views and clicks
+    return Object.fromEntries(entries) as Record<AudienceDimension, DimensionBreakdown[]>;
+  }
+
+  // Where page views came from: top referring sources, channels, and tagged campaigns
+  private async getTrafficSources(where: Prisma.AnalyticsEventWhereInput, totalViews: number): Promise<TrafficSources> {
+    const views = { ...where, eventType: 'page_view' };
+
+    const [sources, channels, campaigns] = await Promise.all([
+      prisma.analyticsEvent.groupBy({
+        by: ['referrerSource'],
+        where: { ...views, referrerSource: { not: null } },
+        _count: { id: true },
+        orderBy: { _count: { id: 'desc' } },
+        take: TOP_TRAFFIC_SOURCES
+      }),
+      prisma.analyticsEvent.groupBy({
+        by: ['channel'],
+        where: views,
+        _count: { id: true }
+      }),
+      prisma.analyticsEvent.groupBy({
+        by: ['utmCampaign', 'utmSource', 'utmMedium'],
+        where: { ...views, utmCampaign: { not: null } },
+        _count: { id: true },
+        orderBy: { _count: { id: 'desc' } },
+        take: TOP_TRAFFIC_SOURCES
+      })
+    ]);
+
+    return {
+      topSources: sources.map(group => ({
+        referrer: group.referrerSource as string,
+        count: group._count.id
+      })),
+      channels: channels
+        .map(group => ({
+          channel: group.channel || 'unknown',
+          views: group._count.id,
+          share: totalViews > 0 ? group._count.id / totalViews : 0
+        }))
+        .sort((a, b) => b.views - a.views),
+      campaigns: campaigns.map(group => ({
+        campaign: group.utmCampaign as string,
+        source: group.utmSource,
+        medium: group.utmMedium,
+        views: group._count.id
+      }))
+    };
+  }
+
+  private hasAudienceFilter(filters: AnalyticsFilters): boolean {
+    return !!(filters.deviceType || filters.os || filters.browser || filters.country);
+  }
+
+  // Totals straight from the events, for audiences the rollups don't split by
+  private async getEventTotals(where: Prisma.AnalyticsEventWhereInput): Promise<PageTotals> {
     const [totalViews, totalClicks] = await Promise.all([
       prisma.analyticsEvent.count({
         where: {
-          ...whereClause,
+          ...where,
           eventType: 'page_view'
         }
       }),
       prisma.analyticsEvent.count({
         where: {
-          ...whereClause,
+          ...where,
           eventType: 'link_click'
         }
       })
@@ -68,7 +423,7 @@ export class AnalyticsService {
 
     // Get unique visitors (based on IP hash)
     const uniqueVisitorsResult = await prisma.analyticsEvent.findMany({
-      where: whereClause,
+      where,
       select: {
         visitorIpHash: true
       },
@@ -76,73 +431,21 @@ export class AnalyticsService {
     });
     const uniqueVisitors = uniqueVisitorsResult.filter((v: any) => v.visitorIpHash).length;
 
-    // Get top links by clicks
-    const topLinksData = await prisma.analyticsEvent.groupBy({
+    const linkClicks = await prisma.analyticsEvent.groupBy({
       by: ['linkId'],
       where: {
-        ...whereClause,
+        ...where,
         eventType: 'link_click',
         linkId: { not: null }
       },
       _count: {
         id: true
-      },
-      orderBy: {
-        _count: {
-          id: 'desc'
-        }
-      },
-      take: 10
+      }
     });
 
-    // Enrich top links with link details
-    const topLinks = await Promise.all(
-      topLinksData.map(async (item: any) => {
-        const link = bioPage.links.find((l: any) => l.id === item.linkId);
-        return {
-          linkId: item.linkId!,
-          title: link?.title || 'Unknown Link',
-          url: link?.url || '',
-          clicks: item._count.id
-        };
-      })
-    );
-
-    // Get daily stats
-    const dailyStats = await this.getDailyStats(bioPage.id, startDate, endDate);
-
-    return {
-      totalViews,
-      totalClicks,
-      uniqueVisitors,
-      topLinks,
-      dailyStats
-    };
-  }
-
-  private getDateRange(filters: AnalyticsFilters): { startDate: Date; endDate: Date } {
-    const endDate = filters.endDate || new Date();
-    let startDate = filters.startDate;
-
-    if (!startDate) {
-      // Default to last 30 days
-      startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
-    }
-
-    return { startDate, endDate };
-  }
-
-  private async getDailyStats(bioPageId: string, startDate: Date, endDate: Date) {
     // Get all events in the date range
     const events = await prisma.analyticsEvent.findMany({
-      where: {
-        bioPageId,
-        createdAt: {
-          gte: startDate,
-          lte: endDate
-        }
-      },
+      where,
       select: {
         eventType: true,
         visitorIpHash: true,
@@ -179,6 +482,21 @@ export class AnalyticsService {
       dayData.uniqueVisitors.add(event.visitorIpHash);
     });
 
+    return {
+      totalViews,
+      totalClicks,
+      uniqueVisitors,
+      linkClicks: new Map(linkClicks.map(item => [item.linkId as string, item._count.id])),
+      days: new Map(Array.from(dailyData, ([date, day]) => [date, {
+        views: day.views,
+        clicks: day.clicks,
+        uniqueVisitors: day.uniqueVisitors.size
+      }]))
+    };
+  }
+
+  // One entry per day in the range, empty days included
+  private getDailyStats(startDate: Date, endDate: Date, days: Map<string, DayTotals>) {
     // Convert to array format
     const dailyStats: Array<{
       date: string;
@@ -190,13 +508,13 @@ export class AnalyticsService {
     
     while (currentDate <= endDate) {
       const dateKey = currentDate.toISOString().split('T')[0] as string;
-      const dayData = dailyData.get(dateKey);
+      const dayData = days.get(dateKey);
       
       dailyStats.push({
         date: dateKey,
         views: dayData?.views || 0,
         clicks: dayData?.clicks || 0,
-        uniqueVisitors: dayData?.uniqueVisitors.size || 0
+        uniqueVisitors: dayData?.uniqueVisitors || 0
       });
       
       currentDate.setDate(currentDate.getDate() + 1);
@@ -205,10 +523,11 @@ export class AnalyticsService {
     return dailyStats;
   }
 
-  async getAnalyticsSummary(userId: string): Promise<{
-    last30Days: AnalyticsData;
-    last7Days: AnalyticsData;
-    today: AnalyticsData;
+  // Totals only: breakdowns and traffic sources are left to the detailed view
+  async getAnalyticsSummary(userId: string, bioPageId?: string, options: { includeBots?: boolean } = {}): Promise<{
+    last30Days: AnalyticsTotals;
+    last7Days: AnalyticsTotals;
+    today: AnalyticsTotals;
   }> {
     const now = new Date();
     
@@ -226,16 +545,21 @@ export class AnalyticsService {
     const todayEnd = new Date();
     todayEnd.setHours(23, 59, 59, 999);
 
+    const page = {
+      ...(bioPageId && { bioPageId }),
+      ...(options.includeBots && { includeBots: true })
+    };
+
     const [last30Days, last7Days, today] = await Promise.all([
-      this.getBioPageAnalytics(userId, { startDate: thirtyDaysAgo, endDate: now }),
-      this.getBioPageAnalytics(userId, { startDate: sevenDaysAgo, endDate: now }),
-      this.getBioPageAnalytics(userId, { startDate: todayStart, endDate: todayEnd })
+      this.getTotals(userId, { ...page, startDate: thirtyDaysAgo, endDate: now }),
+      this.getTotals(userId, { ...page, startDate: sevenDaysAgo, endDate: now }),
+      this.getTotals(userId, { ...page, startDate: todayStart, endDate: todayEnd })
     ]);
 
     return {
-      last30Days,
-      last7Days,
-      today
+      last30Days: last30Days.totals,
+      last7Days: last7Days.totals,
+      today: today.totals
     };
   }
 }
\ No newline at end of file
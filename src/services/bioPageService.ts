@@ -1,65 +1,133 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
-import { ValidationError, NotFoundError, AuthorizationError } from '../utils/errors';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
 import { SubscriptionService } from './subscriptionService';
-import { validateUrl } from '../utils/validation';
-import { BioPage, BioPageUpdate } from '../types';
+import { hasHexColors, validateTimestampWithZone } from '../utils/validation';
+import { buildLinkTree, LINK_KINDS } from '../utils/linkTree';
+import { getLinkEmbed, normalizeLinkUrl, LINK_TYPES } from '../utils/linkTypes';
+import { LINK_GATE_TYPES } from '../utils/linkGate';
+import { UNCHECKED_LINK_HEALTH } from '../utils/linkHealth';
+import { normalizeParamTemplate } from '../utils/outboundParams';
+import { hashPassword } from '../utils/crypto';
+import { diffSnapshots, parseSnapshot, takeSnapshot } from '../utils/pageSnapshot';
+import { RevisionService } from './revisionService';
+import { OgImageService } from './ogImageService';
+import { AccessibilityService } from './accessibilityService';
+import { formatCustomDomain } from '../utils/customDomains';
+import { bioPagePath, normalizePageSlug, ownedPageWhere, DEFAULT_PAGE_SLUG } from '../utils/bioPages';
+import { BioPage, BioPageSummary, BioPageUpdate, LinkGateType, LinkItem, LinkKind, LinkType } from '../types';
+
+const MAX_VARIANTS_PER_LINK = 5;
+
+// Everything formatBioPage needs for the owner's view of a page
+const BIO_PAGE_INCLUDE = {
+  links: {
+    orderBy: { orderIndex: 'asc' as const },
+    include: {
+      variants: { orderBy: { createdAt: 'asc' as const } },
+      rules: true
+    }
+  },
+  theme: true,
+  publishedRevision: {
+    select: { number: true, snapshot: true }
+  },
+  customDomain: true,
+  user: {
+    select: {
+      username: true,
+      profileName: true,
+      profileBio: true,
+      profileImageUrl: true
+    }
+  }
+};
 
 export class BioPageService {
   private subscriptionService = new SubscriptionService();
-  async createBioPage(userId: string): Promise<BioPage> {
-    // Check if user already has a bio page
-    const existingBioPage = await prisma.bioPage.findUnique({
+  private revisionService = new RevisionService();
+  private ogImageService = new OgImageService();
+  private accessibilityService = new AccessibilityService();
+
+  // The account's first page becomes its primary page; further pages count toward the plan's page limit
+  async createBioPage(userId: string, data: { slug?: string; themeId?: string } = {}): Promise<BioPage> {
+    const pageCount = await prisma.bioPage.count({
       where: { userId }
     });
 
+    if (pageCount > 0) {
+      await this.subscriptionService.assertWithinLimit(userId, 'maxBioPages', pageCount);
+
+      if (data.slug === undefined) {
+        throw new ValidationError('Slug is required', 'slug');
+      }
+    }
+
+    const slug = data.slug !== undefined ? normalizePageSlug(data.slug) : DEFAULT_PAGE_SLUG;
+
+    const existingBioPage = await prisma.bioPage.findUnique({
+      where: { userId_slug: { userId, slug } }
+    });
+
     if (existingBioPage) {
-      throw new ValidationError('User already has a bio page', 'userId');
+      throw new ConflictError('You already have a page with this slug', 'slug');
+    }
+
+    if (data.themeId !== undefined) {
+      await this.validateTheme(userId, data.themeId);
     }
 
     // Create bio page with default theme
     const bioPage = await prisma.bioPage.create({
       data: {
         userId,
-        themeId: 'default'
-      },
-      include: {
-        links: {
-          orderBy: { orderIndex: 'asc' }
-        },
-        theme: true,
-        user: {
-          select: {
-            username: true,
-            profileName: true,
-            profileBio: true,
-            profileImageUrl: true
-          }
-        }
+        slug,
+        isPrimary: pageCount === 0,
+        themeId: data.themeId || 'default'
       }
     });
 
-    return this.formatBioPage(bioPage);
+    // A new page goes live as revision 1, so visitors never see a page without a revision
+    await this.revisionService.publishCurrent(bioPage.id);
+
+    return await this.getBioPage(userId, bioPage.id) as BioPage;
   }
 
-  async getBioPageByUserId(userId: string): Promise<BioPage | null> {
-    const bioPage = await prisma.bioPage.findUnique({
+  async listBioPages(userId: string): Promise<BioPageSummary[]> {
+    const bioPages = await prisma.bioPage.findMany({
       where: { userId },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
       include: {
-        links: {
-          orderBy: { orderIndex: 'asc' }
-        },
-        theme: true,
-        user: {
-          select: {
-            username: true,
-            profileName: true,
-            profileBio: true,
-            profileImageUrl: true
-          }
-        }
+        user: { select: { username: true } },
+        _count: { select: { links: { where: { kind: 'link' } } } }
       }
     });
 
+    return bioPages.map(bioPage => ({
+      id: bioPage.id,
+      slug: bioPage.slug,
+      isPrimary: bioPage.isPrimary,
+      isPublished: bioPage.isPublished,
+      path: bioPagePath(bioPage.user.username || '', bioPage),
+      themeId: bioPage.themeId,
+      linkCount: bioPage._count.links,
+      createdAt: bioPage.createdAt,
+      updatedAt: bioPage.updatedAt
+    }));
+  }
+
+  // The account's primary page
+  async getBioPageByUserId(userId: string): Promise<BioPage | null> {
+    return this.getBioPage(userId);
+  }
+
+  // One of the account's pages by ID, or the primary page when no ID is given
+  async getBioPage(userId: string, pageId?: string): Promise<BioPage | null> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: BIO_PAGE_INCLUDE
+    });
+
     if (!bioPage) {
       return null;
     }
@@ -67,149 +135,206 @@ export class BioPageService {
     return this.formatBioPage(bioPage);
   }
 
-  async getBioPageByUsername(username: string): Promise<BioPage | null> {
-    const user = await prisma.user.findUnique({
-      where: { username: username.toLowerCase() },
-      include: {
-        bioPage: {
-          include: {
-            links: {
-              where: { isActive: true },
-              orderBy: { orderIndex: 'asc' }
-            },
-            theme: true
-          }
-        }
-      }
-    });
+  async updateBioPage(userId: string, updates: BioPageUpdate, pageId?: string): Promise<BioPage> {
+    const existingBioPage = await this.findOwnedPage(userId, pageId);
 
-    if (!user || !user.bioPage) {
-      return null;
+    // Validate theme exists if provided; a retired theme can be kept but not chosen again
+    if (updates.themeId && updates.themeId !== existingBioPage.themeId) {
+      await this.validateTheme(userId, updates.themeId);
     }
 
-    const bioPageData = {
-      ...user.bioPage,
-      user: {
-        username: user.username,
-        profileName: user.profileName,
-        profileBio: user.profileBio,
-        profileImageUrl: user.profileImageUrl
-      }
-    };
+    // Validate custom colors if provided
+    if (updates.customColors) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'customColors');
 
-    return this.formatBioPage(bioPageData);
-  }
+      // Unreadable text is refused; borderline pairs are saved and listed in contrastWarnings
+      this.accessibilityService.assertReadableColors(updates.customColors);
+    }
 
-  async updateBioPage(userId: string, updates: BioPageUpdate): Promise<BioPage> {
-    // Validate theme exists if provided
-    if (updates.themeId) {
-      const theme = await prisma.theme.findUnique({
-        where: { id: updates.themeId }
-      });
+    const slug = updates.slug !== undefined ? normalizePageSlug(updates.slug) : undefined;
 
-      if (!theme) {
-        throw new ValidationError('Theme not found', 'themeId');
-      }
+    if (slug !== undefined && slug !== existingBioPage.slug) {
+      const taken = await prisma.bioPage.findUnique({
+        where: { userId_slug: { userId, slug } }
+      });
 
-      // Check if user has premium access for premium themes
-      if (theme.isPremium) {
-        const hasAccess = await this.subscriptionService.hasFeatureAccess(userId, 'premium_themes');
-        if (!hasAccess) {
-          throw new AuthorizationError('Premium subscription required for this theme');
-        }
+      if (taken) {
+        throw new ConflictError('You already have a page with this slug', 'slug');
       }
     }
 
-    // Validate custom colors if provided
-    if (updates.customColors) {
-      // Custom colors are a premium feature
-      const hasAccess = await this.subscriptionService.hasFeatureAccess(userId, 'custom_colors');
-      if (!hasAccess) {
-        throw new AuthorizationError('Premium subscription required for custom colors');
-      }
+    if (updates.isPrimary !== undefined && updates.isPrimary !== true) {
+      throw new ValidationError('Make another page primary instead', 'isPrimary');
     }
 
+    const outboundParams = updates.outboundParams !== undefined
+      ? normalizeParamTemplate(updates.outboundParams, 'outboundParams')
+      : undefined;
+
+    // Link-level templates are set in the same request, keyed by link ID, and saved with the page
+    const linkUpdates = updates.linkOutboundParams !== undefined
+      ? await this.linkOutboundParamUpdates(existingBioPage.id, updates.linkOutboundParams)
+      : [];
+
     // Prepare update data
     const updateData: any = {};
     if (updates.themeId !== undefined) updateData.themeId = updates.themeId;
     if (updates.isPublished !== undefined) updateData.isPublished = updates.isPublished;
+    if (slug !== undefined) updateData.slug = slug;
+    if (outboundParams !== undefined) updateData.outboundParams = outboundParams;
     if (updates.customColors !== undefined) {
       updateData.customColors = updates.customColors ? JSON.stringify(updates.customColors) : null;
     }
 
-    const bioPage = await prisma.bioPage.update({
-      where: { userId },
-      data: updateData,
-      include: {
-        links: {
-          orderBy: { orderIndex: 'asc' }
-        },
-        theme: true,
-        user: {
-          select: {
-            username: true,
-            profileName: true,
-            profileBio: true,
-            profileImageUrl: true
-          }
-        }
-      }
-    });
+    // Only one page per account can be primary
+    const makePrimary = updates.isPrimary === true && !existingBioPage.isPrimary;
+    if (makePrimary) {
+      updateData.isPrimary = true;
+    }
 
-    return this.formatBioPage(bioPage);
+    await prisma.$transaction([
+      ...linkUpdates,
+      ...(makePrimary
+        ? [prisma.bioPage.updateMany({
+          where: { userId, isPrimary: true },
+          data: { isPrimary: false }
+        })]
+        : []),
+      prisma.bioPage.update({
+        where: { id: existingBioPage.id },
+        data: updateData
+      })
+    ]);
+
+    if (makePrimary) {
+      // Both pages' paths changed, and share images show them
+      this.ogImageService.refreshForUser(userId);
+    } else {
+      // The share image shows the page's path, and only public pages have one
+      this.ogImageService.refresh(existingBioPage.id);
+    }
+
+    return this.getBioPage(userId, existingBioPage.id) as Promise<BioPage>;
   }
 
-  async addLink(userId: string, linkData: { title: string; url: string; iconName?: string }): Promise<BioPage> {
-    const { title, url, iconName } = linkData;
+  // Deleting a page removes its links and analytics; the primary page has to be replaced first
+  async deleteBioPage(userId: string, pageId: string): Promise<void> {
+    const bioPage = await this.findOwnedPage(userId, pageId);
 
-    // Get bio page first to check current link count
-    const bioPage = await prisma.bioPage.findUnique({
-      where: { userId },
-      include: { links: true }
+    if (bioPage.isPrimary) {
+      throw new ValidationError('Make another page primary before deleting this one', 'isPrimary');
+    }
+
+    await prisma.bioPage.delete({
+      where: { id: bioPage.id }
     });
+  }
 
-    if (!bioPage) {
-      throw new NotFoundError('Bio page not found');
+  async addLink(userId: string, linkData: {
+    title?: string;
+    url?: string;
+    iconName?: string;
+    kind?: LinkKind;
+    type?: LinkType;
+    parentId?: string | null;
+    activeFrom?: string | null;
+    activeUntil?: string | null;
+    gateType?: LinkGateType | null;
+    gatePassword?: string;
+  }, pageId?: string): Promise<BioPage> {
+    const { title = '', url = '', iconName } = linkData;
+    const kind = linkData.kind || 'link';
+    const type = linkData.type || 'url';
+    const parentId = linkData.parentId || null;
+
+    if (!LINK_KINDS.includes(kind)) {
+      throw new ValidationError(`Kind must be one of: ${LINK_KINDS.join(', ')}`, 'kind');
     }
 
-    // Check link limits for free users
-    const hasUnlimitedLinks = await this.subscriptionService.hasFeatureAccess(userId, 'unlimited_links');
-    if (!hasUnlimitedLinks && bioPage.links.length >= 5) {
-      throw new AuthorizationError('Free accounts are limited to 5 links. Upgrade to Pro for unlimited links.');
+    if (!LINK_TYPES.includes(type)) {
+      throw new ValidationError(`Type must be one of: ${LINK_TYPES.join(', ')}`, 'type');
     }
 
-    // Validate input
-    if (!title || title.trim().length === 0) {
-      throw new ValidationError('Link title is required', 'title');
+    if (kind !== 'link' && type !== 'url') {
+      throw new ValidationError('Only links can have a type', 'type');
+    }
+
+    // Get bio page first to check current link count
+    const bioPage = await this.findOwnedPage(userId, pageId);
+
+    // Only clickable links count toward the plan's link limit
+    if (kind === 'link') {
+      const linkCount = bioPage.links.filter(link => link.kind === 'link').length;
+      await this.subscriptionService.assertWithinLimit(userId, 'maxLinks', linkCount);
     }
 
-    if (title.length > 100) {
-      throw new ValidationError('Link title must be less than 100 characters', 'title');
+    // Validate input; dividers carry no text and only links have a URL
+    if (kind !== 'divider') {
+      if (!title || title.trim().length === 0) {
+        throw new ValidationError('Link title is required', 'title');
+      }
+
+      if (title.length > 100) {
+        throw new ValidationError('Link title must be less than 100 characters', 'title');
+      }
+    }
+
+    const normalizedUrl = kind === 'link' ? normalizeLinkUrl(type, url) : '';
+
+    // Anything other than a plain URL is a rich link
+    if (type !== 'url') {
+      await this.subscriptionService.assertFeatureAccess(userId, 'richLinks');
     }
 
-    if (!url || !validateUrl(url)) {
-      throw new ValidationError('Valid URL is required', 'url');
+    if (parentId) {
+      this.validateParent(bioPage.links, kind, parentId);
     }
 
-    // Calculate next order index
-    const maxOrder = bioPage.links.reduce((max, link) => Math.max(max, link.orderIndex), 0);
+    const activeFrom = this.parseScheduleDate(linkData.activeFrom, 'activeFrom') ?? null;
+    const activeUntil = this.parseScheduleDate(linkData.activeUntil, 'activeUntil') ?? null;
+    this.validateScheduleWindow(activeFrom, activeUntil);
+
+    const gate = await this.resolveGate(kind, linkData.gateType ?? null, linkData.gatePassword, null);
+
+    // Calculate next order index among the new item's siblings
+    const maxOrder = bioPage.links
+      .filter(link => link.parentId === parentId)
+      .reduce((max, link) => Math.max(max, link.orderIndex), 0);
 
     // Create link
     await prisma.link.create({
       data: {
         bioPageId: bioPage.id,
-        title: title.trim(),
-        url,
+        kind,
+        type,
+        parentId,
+        title: kind === 'divider' ? '' : title.trim(),
+        url: normalizedUrl,
         iconName: iconName || null,
-        orderIndex: maxOrder + 1
+        orderIndex: maxOrder + 1,
+        activeFrom,
+        activeUntil,
+        gateType: gate.gateType,
+        gatePasswordHash: gate.gatePasswordHash
       }
     });
 
     // Return updated bio page
-    return this.getBioPageByUserId(userId) as Promise<BioPage>;
+    return this.getBioPage(userId, bioPage.id) as Promise<BioPage>;
   }
 
-  async updateLink(userId: string, linkId: string, updates: { title?: string; url?: string; iconName?: string; isActive?: boolean }): Promise<BioPage> {
+  async updateLink(userId: string, linkId: string, updates: {
+    title?: string;
+    url?: string;
+    type?: LinkType;
+    iconName?: string;
+    isActive?: boolean;
+    isCollapsed?: boolean;
+    activeFrom?: string | null;
+    activeUntil?: string | null;
+    gateType?: LinkGateType | null;
+    gatePassword?: string;
+  }): Promise<BioPage> {
     // Validate input
     if (updates.title !== undefined) {
       if (!updates.title || updates.title.trim().length === 0) {
@@ -220,10 +345,13 @@ export class BioPageService {
       }
     }
 
-    if (updates.url !== undefined && (!updates.url || !validateUrl(updates.url))) {
-      throw new ValidationError('Valid URL is required', 'url');
+    if (updates.type !== undefined && !LINK_TYPES.includes(updates.type)) {
+      throw new ValidationError(`Type must be one of: ${LINK_TYPES.join(', ')}`, 'type');
     }
 
+    const activeFrom = this.parseScheduleDate(updates.activeFrom, 'activeFrom');
+    const activeUntil = this.parseScheduleDate(updates.activeUntil, 'activeUntil');
+
     // Check if link belongs to user
     const link = await prisma.link.findFirst({
       where: {
@@ -236,12 +364,55 @@ export class BioPageService {
       throw new NotFoundError('Link not found');
     }
 
+    if ((updates.url !== undefined || updates.type !== undefined) && link.kind !== 'link') {
+      throw new ValidationError('Only links can have a URL', 'url');
+    }
+
+    // Re-validate the destination against the resulting type
+    const type = updates.type ?? link.type as LinkType;
+    const normalizedUrl = updates.url !== undefined || updates.type !== undefined
+      ? normalizeLinkUrl(type, updates.url ?? link.url)
+      : undefined;
+
+    if (updates.type !== undefined && type !== 'url') {
+      await this.subscriptionService.assertFeatureAccess(userId, 'richLinks');
+    }
+
+    if (updates.isCollapsed !== undefined && link.kind !== 'group') {
+      throw new ValidationError('Only groups can be collapsed', 'isCollapsed');
+    }
+
+    // Validate the resulting window against the bound that isn't changing
+    this.validateScheduleWindow(
+      activeFrom !== undefined ? activeFrom : link.activeFrom,
+      activeUntil !== undefined ? activeUntil : link.activeUntil
+    );
+
+    // A new password alone keeps the link's password gate and replaces the password
+    const gate = updates.gateType !== undefined || updates.gatePassword !== undefined
+      ? await this.resolveGate(
+          link.kind,
+          updates.gateType !== undefined ? updates.gateType : link.gateType as LinkGateType | null,
+          updates.gatePassword,
+          link.gatePasswordHash
+        )
+      : undefined;
+
     // Update link
     const updateData: any = {};
     if (updates.title !== undefined) updateData.title = updates.title.trim();
-    if (updates.url !== undefined) updateData.url = updates.url;
+    if (normalizedUrl !== undefined) updateData.url = normalizedUrl;
+    if (normalizedUrl !== undefined && normalizedUrl !== link.url) Object.assign(updateData, UNCHECKED_LINK_HEALTH);
+    if (updates.type !== undefined) updateData.type = updates.type;
     if (updates.iconName !== undefined) updateData.iconName = updates.iconName || null;
     if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
+    if (updates.isCollapsed !== undefined) updateData.isCollapsed = updates.isCollapsed;
+    if (activeFrom !== undefined) updateData.activeFrom = activeFrom;
+    if (activeUntil !== undefined) updateData.activeUntil = activeUntil;
+    if (gate !== undefined) {
+      updateData.gateType = gate.gateType;
+      updateData.gatePasswordHash = gate.gatePasswordHash;
+    }
 
     await prisma.link.update({
       where: { id: linkId },
@@ -249,7 +420,7 @@ export class BioPageService {
     });
 
     // Return updated bio page
-    return this.getBioPageByUserId(userId) as Promise<BioPage>;
+    return this.getBioPage(userId, link.bioPageId) as Promise<BioPage>;
   }
 
   async deleteLink(userId: string, linkId: string): Promise<BioPage> {
@@ -265,46 +436,387 @@ export class BioPageService {
       throw new NotFoundError('Link not found');
     }
 
-    // Delete link
-    await prisma.link.delete({
-      where: { id: linkId }
-    });
+    if (link.kind === 'group') {
+      await this.deleteGroup(link);
+    } else {
+      // Delete link
+      await prisma.link.delete({
+        where: { id: linkId }
+      });
+    }
 
     // Return updated bio page
-    return this.getBioPageByUserId(userId) as Promise<BioPage>;
+    return this.getBioPage(userId, link.bioPageId) as Promise<BioPage>;
   }
 
-  async reorderLinks(userId: string, linkIds: string[]): Promise<BioPage> {
-    // Get bio page and verify all links belong to user
-    const bioPage = await prisma.bioPage.findUnique({
-      where: { userId },
-      include: { links: true }
-    });
+  // A deleted group's links move to the top level where the group was, and the top level is renumbered around them
+  private async deleteGroup(group: { id: string; bioPageId: string; orderIndex: number }): Promise<void> {
+    const [topLevel, children] = await Promise.all([
+      prisma.link.findMany({
+        where: { bioPageId: group.bioPageId, parentId: null, id: { not: group.id } },
+        orderBy: { orderIndex: 'asc' }
+      }),
+      prisma.link.findMany({
+        where: { parentId: group.id },
+        orderBy: { orderIndex: 'asc' }
+      })
+    ]);
+
+    const layout = [
+      ...topLevel.filter(link => link.orderIndex < group.orderIndex),
+      ...children,
+      ...topLevel.filter(link => link.orderIndex >= group.orderIndex)
+    ];
+
+    await prisma.$transaction([
+      prisma.link.delete({ where: { id: group.id } }),
+      ...layout.map((link, index) => prisma.link.update({
+        where: { id: link.id },
+        data: { parentId: null, orderIndex: index + 1 }
+      }))
+    ]);
+  }
 
-    if (!bioPage) {
-      throw new NotFoundError('Bio page not found');
-    }
+  // Items are listed in display order. A bare ID keeps the item in its current
+  // group; an { id, parentId } entry moves it into that group (or top level).
+  async reorderLinks(userId: string, items: Array<string | { id: string; parentId?: string | null }>, pageId?: string): Promise<BioPage> {
+    // Get bio page and verify all links belong to user
+    const bioPage = await this.findOwnedPage(userId, pageId);
 
     // Verify all provided link IDs exist and belong to this bio page
-    const existingLinkIds = bioPage.links.map(link => link.id);
-    const invalidLinkIds = linkIds.filter(id => !existingLinkIds.includes(id));
+    const linksById = new Map(bioPage.links.map(link => [link.id, link]));
+    const layout = items.map(item => {
+      if (typeof item === 'string') {
+        return { id: item, parentId: linksById.get(item)?.parentId ?? null };
+      }
+      return { id: item.id, parentId: item.parentId || null };
+    });
+
+    const invalidLinkIds = layout.filter(item => !linksById.has(item.id));
 
     if (invalidLinkIds.length > 0) {
       throw new ValidationError('Invalid link IDs provided', 'linkIds');
     }
 
-    // Update order indices
-    const updatePromises = linkIds.map((linkId, index) =>
+    layout.forEach(item => {
+      if (item.parentId) {
+        this.validateParent(bioPage.links, linksById.get(item.id)!.kind, item.parentId);
+      }
+    });
+
+    // Number each sibling list independently
+    const nextIndex = new Map<string | null, number>();
+    const updatePromises = layout.map(({ id, parentId }) => {
+      const orderIndex = (nextIndex.get(parentId) || 0) + 1;
+      nextIndex.set(parentId, orderIndex);
+
+      return prisma.link.update({
+        where: { id },
+        data: { parentId, orderIndex }
+      });
+    });
+
+    await Promise.all(updatePromises);
+
+    // Return updated bio page
+    return this.getBioPage(userId, bioPage.id) as Promise<BioPage>;
+  }
+
+  async addLinkVariant(userId: string, linkId: string, variantData: {
+    title?: string | null;
+    url?: string | null;
+    weight?: number;
+  }): Promise<BioPage> {
+    const link = await prisma.link.findFirst({
+      where: {
+        id: linkId,
+        bioPage: { userId }
+      },
+      include: { variants: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!link) {
+      throw new NotFoundError('Link not found');
+    }
+
+    if (link.kind !== 'link') {
+      throw new ValidationError('Only links can have variants', 'linkId');
+    }
+
+    if (link.variants.length >= MAX_VARIANTS_PER_LINK) {
+      throw new ValidationError(`A link can have at most ${MAX_VARIANTS_PER_LINK} variants`, 'linkId');
+    }
+
+    const data = this.validateVariant(link.type as LinkType, variantData);
+
+    if (!data.title && !data.url) {
+      throw new ValidationError('A variant needs a title or a URL', 'title');
+    }
+
+    await prisma.linkVariant.create({
+      data: {
+        linkId,
+        title: data.title ?? null,
+        url: data.url ?? null,
+        weight: data.weight ?? 50
+      }
+    });
+
+    return this.getBioPage(userId, link.bioPageId) as Promise<BioPage>;
+  }
+
+  async updateLinkVariant(userId: string, linkId: string, variantId: string, updates: {
+    title?: string | null;
+    url?: string | null;
+    weight?: number;
+  }): Promise<BioPage> {
+    const variant = await prisma.linkVariant.findFirst({
+      where: {
+        id: variantId,
+        link: { id: linkId, bioPage: { userId } }
+      },
+      include: { link: true }
+    });
+
+    if (!variant) {
+      throw new NotFoundError('Variant not found');
+    }
+
+    const data = this.validateVariant(variant.link.type as LinkType, updates);
+    const title = data.title !== undefined ? data.title : variant.title;
+    const url = data.url !== undefined ? data.url : variant.url;
+
+    if (!title && !url) {
+      throw new ValidationError('A variant needs a title or a URL', 'title');
+    }
+
+    await prisma.linkVariant.update({
+      where: { id: variantId },
+      data
+    });
+
+    return this.getBioPage(userId, variant.link.bioPageId) as Promise<BioPage>;
+  }
+
+  async deleteLinkVariant(userId: string, linkId: string, variantId: string): Promise<BioPage> {
+    const variant = await prisma.linkVariant.findFirst({
+      where: {
+        id: variantId,
+        link: { id: linkId, bioPage: { userId } }
+      },
+      include: { link: true }
+    });
+
+    if (!variant) {
+      throw new NotFoundError('Variant not found');
+    }
+
+    await prisma.linkVariant.delete({
+      where: { id: variantId }
+    });
+
+    return this.getBioPage(userId, variant.link.bioPageId) as Promise<BioPage>;
+  }
+
+  // Copy the winning variant onto the link and stop the experiment.
+  // Variants are paused rather than deleted so their results stay reportable.
+  async promoteLinkVariant(userId: string, linkId: string, variantId: string): Promise<BioPage> {
+    const variant = await prisma.linkVariant.findFirst({
+      where: {
+        id: variantId,
+        link: { id: linkId, bioPage: { userId } }
+      },
+      include: { link: true }
+    });
+
+    if (!variant) {
+      throw new NotFoundError('Variant not found');
+    }
+
+    await prisma.$transaction([
       prisma.link.update({
         where: { id: linkId },
-        data: { orderIndex: index + 1 }
+        data: {
+          title: variant.title || variant.link.title,
+          url: variant.url || variant.link.url,
+          ...(variant.url && variant.url !== variant.link.url ? UNCHECKED_LINK_HEALTH : {})
+        }
+      }),
+      prisma.linkVariant.updateMany({
+        where: { linkId },
+        data: { weight: 0 }
       })
-    );
+    ]);
 
-    await Promise.all(updatePromises);
+    return this.getBioPage(userId, variant.link.bioPageId) as Promise<BioPage>;
+  }
 
-    // Return updated bio page
-    return this.getBioPageByUserId(userId) as Promise<BioPage>;
+  private validateVariant(type: LinkType, data: { title?: string | null; url?: string | null; weight?: number }) {
+    const result: { title?: string | null; url?: string | null; weight?: number } = {};
+
+    if (data.title !== undefined) {
+      if (data.title !== null && data.title.length > 100) {
+        throw new ValidationError('Variant title must be less than 100 characters', 'title');
+      }
+      result.title = data.title ? data.title.trim() || null : null;
+    }
+
+    if (data.url !== undefined) {
+      result.url = data.url ? normalizeLinkUrl(type, data.url) : null;
+    }
+
+    if (data.weight !== undefined) {
+      if (!Number.isInteger(data.weight) || data.weight < 0 || data.weight > 100) {
+        throw new ValidationError('Weight must be a whole number between 0 and 100', 'weight');
+      }
+      result.weight = data.weight;
+    }
+
+    return result;
+  }
+
+  private async findOwnedPage(userId: string, pageId?: string) {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: { links: true }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    return bioPage;
+  }
+
+  private async validateTheme(userId: string, themeId: string): Promise<void> {
+    const theme = await prisma.theme.findUnique({
+      where: { id: themeId }
+    });
+
+    // Custom themes are private to the account that built them
+    if (!theme || (theme.ownerId && theme.ownerId !== userId)) {
+      throw new ValidationError('Theme not found', 'themeId');
+    }
+
+    if (theme.retiredAt) {
+      throw new ValidationError('This theme has been retired', 'themeId');
+    }
+
+    if (theme.isPremium) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'premiumThemes');
+    }
+
+    if (theme.ownerId) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'customThemes');
+    }
+  }
+
+  // Only links can be nested, one level deep, inside a group on the same page
+  private validateParent(links: Array<{ id: string; kind: string }>, kind: string, parentId: string): void {
+    const parent = links.find(link => link.id === parentId);
+
+    if (!parent || parent.kind !== 'group') {
+      throw new ValidationError('Parent must be a group on this bio page', 'parentId');
+    }
+
+    if (kind !== 'link') {
+      throw new ValidationError('Only links can be placed inside a group', 'parentId');
+    }
+  }
+
+  // undefined leaves the bound untouched, null clears it
+  private parseScheduleDate(value: string | null | undefined, field: string): Date | null | undefined {
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    if (typeof value !== 'string' || !validateTimestampWithZone(value)) {
+      throw new ValidationError(`${field} must be an ISO 8601 timestamp with a time zone`, field);
+    }
+
+    return new Date(value);
+  }
+
+  private validateScheduleWindow(activeFrom: Date | null, activeUntil: Date | null): void {
+    if (activeFrom && activeUntil && activeFrom >= activeUntil) {
+      throw new ValidationError('activeUntil must be later than activeFrom', 'activeUntil');
+    }
+  }
+
+  // Validates link-level templates and returns their updates, for the caller's transaction
+  private async linkOutboundParamUpdates(
+    bioPageId: string,
+    templates: Record<string, string | null>
+  ): Promise<Prisma.PrismaPromise<unknown>[]> {
+    if (!templates || typeof templates !== 'object' || Array.isArray(templates)) {
+      throw new ValidationError('linkOutboundParams must map link IDs to parameter templates', 'linkOutboundParams');
+    }
+
+    const entries = Object.entries(templates).map(([linkId, template]) => (
+      [linkId, normalizeParamTemplate(template, `linkOutboundParams.${linkId}`)] as const
+    ));
+
+    const links = await prisma.link.findMany({
+      where: {
+        id: { in: entries.map(([linkId]) => linkId) },
+        kind: 'link',
+        bioPageId
+      },
+      select: { id: true }
+    });
+
+    const missing = entries.find(([linkId]) => !links.some(link => link.id === linkId));
+    if (missing) {
+      throw new ValidationError('Link not found on this bio page', `linkOutboundParams.${missing[0]}`);
+    }
+
+    return entries.map(([linkId, template]) => prisma.link.update({
+      where: { id: linkId },
+      data: { outboundParams: template }
+    }));
+  }
+
+  // Work out the gate to store; an existing password is kept unless a new one is given
+  private async resolveGate(
+    kind: string,
+    gateType: LinkGateType | null,
+    password: string | undefined,
+    currentHash: string | null
+  ): Promise<{ gateType: LinkGateType | null; gatePasswordHash: string | null }> {
+    if (gateType === null) {
+      if (password !== undefined) {
+        throw new ValidationError('A password can only be set on a password-protected link', 'gatePassword');
+      }
+      return { gateType: null, gatePasswordHash: null };
+    }
+
+    if (!LINK_GATE_TYPES.includes(gateType)) {
+      throw new ValidationError(`Gate type must be one of: ${LINK_GATE_TYPES.join(', ')}`, 'gateType');
+    }
+
+    if (kind !== 'link') {
+      throw new ValidationError('Only links can be gated', 'gateType');
+    }
+
+    if (gateType === 'sensitive') {
+      if (password !== undefined) {
+        throw new ValidationError('A password can only be set on a password-protected link', 'gatePassword');
+      }
+      return { gateType, gatePasswordHash: null };
+    }
+
+    if (password === undefined) {
+      if (!currentHash) {
+        throw new ValidationError('Password is required for a password-protected link', 'gatePassword');
+      }
+      return { gateType, gatePasswordHash: currentHash };
+    }
+
+    if (typeof password !== 'string' || password.length < 4 || password.length > 100) {
+      throw new ValidationError('Link password must be between 4 and 100 characters', 'gatePassword');
+    }
+
+    return { gateType, gatePasswordHash: await hashPassword(password) };
   }
 
   private formatBioPage(bioPageData: any): BioPage {
@@ -318,24 +830,62 @@ export class BioPageService {
       }
     }
 
+    const links: LinkItem[] = bioPageData.links.map((link: any) => ({
+      id: link.id,
+      kind: link.kind,
+      type: link.type,
+      parentId: link.parentId,
+      title: link.title,
+      url: link.url,
+      embed: getLinkEmbed(link.type, link.url),
+      iconName: link.iconName,
+      isActive: link.isActive,
+      isCollapsed: link.isCollapsed,
+      order: link.orderIndex,
+      activeFrom: link.activeFrom,
+      activeUntil: link.activeUntil,
+      gateType: link.gateType,
+      healthStatus: link.healthStatus,
+      healthCheckedAt: link.healthCheckedAt,
+      outboundParams: link.outboundParams,
+      variants: (link.variants || []).map((variant: any) => ({
+        id: variant.id,
+        title: variant.title,
+        url: variant.url,
+        weight: variant.weight
+      }))
+    }));
+
+    const username = bioPageData.user?.username || '';
+
+    const contrastWarnings = hasHexColors(customColors)
+      ? this.accessibilityService.checkColors(customColors).filter(check => check.level !== 'pass')
+      : [];
+
+    // The links and settings here are the draft; compare them with what's live
+    const live = bioPageData.publishedRevision ? parseSnapshot(bioPageData.publishedRevision.snapshot) : null;
+    const draft = takeSnapshot(bioPageData, bioPageData.links);
+
     return {
       id: bioPageData.id,
       userId: bioPageData.userId,
-      username: bioPageData.user?.username || '',
+      slug: bioPageData.slug,
+      isPrimary: bioPageData.isPrimary,
+      path: bioPagePath(username, bioPageData),
+      username,
       profileName: bioPageData.user?.profileName || '',
       profileBio: bioPageData.user?.profileBio || '',
       profileImageUrl: bioPageData.user?.profileImageUrl || null,
       themeId: bioPageData.themeId,
       customColors,
-      links: bioPageData.links.map((link: any) => ({
-        id: link.id,
-        title: link.title,
-        url: link.url,
-        iconName: link.iconName,
-        isActive: link.isActive,
-        order: link.orderIndex
-      })),
+      contrastWarnings,
+      links,
+      blocks: buildLinkTree(links),
       isPublished: bioPageData.isPublished,
+      outboundParams: bioPageData.outboundParams,
+      liveRevision: bioPageData.publishedRevision?.number ?? null,
+      hasUnpublishedChanges: !live || diffSnapshots(live, draft).hasChanges,
+      customDomain: bioPageData.customDomain ? formatCustomDomain(bioPageData.customDomain) : null,
       createdAt: bioPageData.createdAt,
       updatedAt: bioPageData.updatedAt
     };
@@ -0,0 +1,147 @@
+import prisma from '../config/database';
+import { NotFoundError, ConflictError } from '../utils/errors';
+import { SubscriptionService } from './subscriptionService';
+import { bioPagePath, ownedPageWhere } from '../utils/bioPages';
+import {
+  checkVerificationRecord,
+  formatCustomDomain,
+  generateVerificationToken,
+  getDnsResolver,
+  normalizeHostname,
+  DnsResolver
+} from '../utils/customDomains';
+import { CustomDomain } from '../types';
+
+export class CustomDomainService {
+  private subscriptionService = new SubscriptionService();
+
+  constructor(private resolver?: DnsResolver) {}
+
+  // The domain connected to the given page, or the primary page without a pageId
+  async getDomain(userId: string, pageId?: string): Promise<CustomDomain | null> {
+    const bioPage = await this.findOwnedPage(userId, pageId);
+    return bioPage.customDomain ? formatCustomDomain(bioPage.customDomain) : null;
+  }
+
+  // Connect a domain to the page, replacing any it had; it serves nothing until verified
+  async setDomain(userId: string, hostname: string, pageId?: string): Promise<CustomDomain> {
+    await this.subscriptionService.assertFeatureAccess(userId, 'customDomains');
+
+    const bioPage = await this.findOwnedPage(userId, pageId);
+    const normalized = normalizeHostname(hostname);
+
+    if (bioPage.customDomain?.hostname === normalized) {
+      return formatCustomDomain(bioPage.customDomain);
+    }
+
+    const existing = await prisma.customDomain.findUnique({
+      where: { hostname: normalized }
+    });
+
+    // Only verification proves control of a domain, so an unverified claim doesn't keep anyone else from it
+    if (existing && existing.status === 'verified') {
+      throw new ConflictError('This domain is already connected to a page', 'hostname');
+    }
+
+    const domain = await prisma.$transaction(async tx => {
+      await tx.customDomain.deleteMany({
+        where: {
+          OR: [
+            { bioPageId: bioPage.id },
+            { hostname: normalized }
+          ]
+        }
+      });
+
+      return tx.customDomain.create({
+        data: {
+          hostname: normalized,
+          userId,
+          bioPageId: bioPage.id,
+          verificationToken: generateVerificationToken()
+        }
+      });
+    });
+
+    return formatCustomDomain(domain);
+  }
+
+  // Look up the TXT record; a verified domain stays verified, so a DNS hiccup can't take the page offline
+  async verifyDomain(userId: string, pageId?: string): Promise<CustomDomain> {
+    await this.subscriptionService.assertFeatureAccess(userId, 'customDomains');
+
+    const bioPage = await this.findOwnedPage(userId, pageId);
+    const domain = bioPage.customDomain;
+
+    if (!domain) {
+      throw new NotFoundError('This page has no custom domain');
+    }
+
+    if (domain.status === 'verified') {
+      return formatCustomDomain(domain);
+    }
+
+    const result = await checkVerificationRecord(domain.hostname, domain.verificationToken, this.resolver || getDnsResolver());
+    const now = new Date();
+
+    const updated = await prisma.customDomain.update({
+      where: { id: domain.id },
+      data: {
+        status: result.verified ? 'verified' : 'failed',
+        verifiedAt: result.verified ? now : null,
+        lastCheckedAt: now,
+        lastError: result.error
+      }
+    });
+
+    return formatCustomDomain(updated);
+  }
+
+  async removeDomain(userId: string, pageId?: string): Promise<void> {
+    const bioPage = await this.findOwnedPage(userId, pageId);
+
+    if (!bioPage.customDomain) {
+      throw new NotFoundError('This page has no custom domain');
+    }
+
+    await prisma.customDomain.delete({
+      where: { id: bioPage.customDomain.id }
+    });
+  }
+
+  // Public path of the page a request's host serves, e.g. /jane/podcast; null unless the domain
+  // is verified, the page is published and the owner's plan still includes custom domains
+  async resolveHostname(hostname: string): Promise<string | null> {
+    const domain = await prisma.customDomain.findUnique({
+      where: { hostname },
+      include: {
+        bioPage: {
+          include: { user: { select: { username: true } } }
+        }
+      }
+    });
+
+    if (!domain || domain.status !== 'verified' || !domain.bioPage.isPublished || !domain.bioPage.user.username) {
+      return null;
+    }
+
+    if (!await this.subscriptionService.hasFeatureAccess(domain.userId, 'customDomains')) {
+      return null;
+    }
+
+    return bioPagePath(domain.bioPage.user.username, domain.bioPage);
+  }
+
+  private async findOwnedPage(userId: string, pageId?: string) {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: { customDomain: true }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    return bioPage;
+  }
+}
\ No newline at end of file
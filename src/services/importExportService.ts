@@ -0,0 +1,325 @@
+import prisma from '../config/database';
+import { NotFoundError, PlanLimitError } from '../utils/errors';
+import { SubscriptionService } from './subscriptionService';
+import { BioPageService } from './bioPageService';
+import { AccessibilityService } from './accessibilityService';
+import { hasHexColors, THEME_COLOR_KEYS, validateTimestampWithZone } from '../utils/validation';
+import { buildLinkTree, LINK_KINDS } from '../utils/linkTree';
+import { normalizeLinkUrl, LINK_TYPES } from '../utils/linkTypes';
+import { ownedPageWhere } from '../utils/bioPages';
+import { EXPORT_VERSION, ImportedLink, ImportFormat, parseImport, ParsedImport } from '../utils/linkImport';
+import { BioPage, BioPageExport, ExportedLink, ImportMode, ImportResult, ImportRowError, LinkKind, LinkType } from '../types';
+
+// An imported row after validation, ready to create
+interface ValidatedLink extends ImportedLink {
+  isActive: boolean;
+  activeFromDate: Date | null;
+  activeUntilDate: Date | null;
+}
+
+export class ImportExportService {
+  private subscriptionService = new SubscriptionService();
+  private bioPageService = new BioPageService();
+  private accessibilityService = new AccessibilityService();
+
+  async exportBioPage(userId: string, pageId?: string): Promise<BioPageExport> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: {
+        links: { orderBy: { orderIndex: 'asc' } }
+      }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    let customColors = null;
+    if (bioPage.customColors) {
+      try {
+        customColors = JSON.parse(bioPage.customColors);
+      } catch (error) {
+        console.error('Failed to parse custom colors:', error);
+      }
+    }
+
+    const toExported = (link: typeof bioPage.links[number]): ExportedLink => ({
+      kind: link.kind as LinkKind,
+      type: link.type as LinkType,
+      title: link.title,
+      url: link.url,
+      iconName: link.iconName,
+      isActive: link.isActive,
+      activeFrom: link.activeFrom?.toISOString() || null,
+      activeUntil: link.activeUntil?.toISOString() || null
+    });
+
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      bioPage: {
+        themeId: bioPage.themeId,
+        customColors
+      },
+      links: buildLinkTree(bioPage.links).map(node => ({
+        ...toExported(node),
+        ...(node.kind === 'group' && { children: node.children.map(toExported) })
+      }))
+    };
+  }
+
+  // Validate every row and, unless it's a dry run, import all of them or none
+  async importBioPage(userId: string, format: ImportFormat, data: unknown, options: {
+    mode: ImportMode;
+    dryRun: boolean;
+  }, pageId?: string): Promise<ImportResult> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: { links: true }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    const parsed = parseImport(format, data);
+    const errors: ImportRowError[] = [...parsed.errors];
+    const links = parsed.links.map(link => this.validateRow(link, parsed.links, errors));
+
+    await this.validatePageSettings(userId, bioPage.themeId, parsed, errors, options.dryRun);
+
+    // Plan limits count what the page ends up with
+    const importedLinks = links.filter(link => link.kind === 'link').length;
+    const existingLinks = bioPage.links.filter(link => link.kind === 'link').length;
+    const resultingLinks = importedLinks + (options.mode === 'replace' ? 0 : existingLinks);
+
+    await this.checkEntitlements(options.dryRun, errors, async () => {
+      if (importedLinks > 0) {
+        // Usage must be below the limit to add one more, so check room for the last imported link
+        await this.subscriptionService.assertWithinLimit(userId, 'maxLinks', resultingLinks - 1);
+      }
+      if (links.some(link => link.type !== 'url')) {
+        await this.subscriptionService.assertFeatureAccess(userId, 'richLinks');
+      }
+    });
+
+    const result: ImportResult = {
+      dryRun: options.dryRun,
+      valid: errors.length === 0,
+      mode: options.mode,
+      summary: {
+        rows: links.length,
+        links: importedLinks,
+        existingLinks,
+        resultingLinks
+      },
+      errors
+    };
+
+    if (options.dryRun || errors.length > 0) {
+      return result;
+    }
+
+    await this.writeImport(bioPage.id, bioPage.links, links, parsed, options.mode);
+
+    return { ...result, bioPage: await this.bioPageService.getBioPage(userId, bioPage.id) as BioPage };
+  }
+
+  // Same rules as adding a link by hand, reported per row instead of thrown
+  private validateRow(link: ImportedLink, all: ImportedLink[], errors: ImportRowError[]): ValidatedLink {
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: string, message: string) => rowErrors.push({ row: link.row, field, message });
+
+    if (!LINK_KINDS.includes(link.kind as LinkKind)) {
+      fail('kind', `Kind must be one of: ${LINK_KINDS.join(', ')}`);
+    }
+
+    if (!LINK_TYPES.includes(link.type as LinkType)) {
+      fail('type', `Type must be one of: ${LINK_TYPES.join(', ')}`);
+    } else if (link.kind !== 'link' && link.type !== 'url') {
+      fail('type', 'Only links can have a type');
+    }
+
+    if (link.kind !== 'divider') {
+      if (!link.title) {
+        fail('title', 'Link title is required');
+      } else if (link.title.length > 100) {
+        fail('title', 'Link title must be less than 100 characters');
+      }
+    }
+
+    let url = '';
+    if (link.kind === 'link' && LINK_TYPES.includes(link.type as LinkType)) {
+      try {
+        url = normalizeLinkUrl(link.type as LinkType, link.url);
+      } catch (error) {
+        fail('url', (error as Error).message);
+      }
+    }
+
+    if (link.parentRow !== null) {
+      const parent = all.find(candidate => candidate.row === link.parentRow);
+      if (!parent || parent.kind !== 'group' || parent.parentRow !== null) {
+        fail('group', 'Parent must be a group');
+      } else if (link.kind !== 'link') {
+        fail('group', 'Only links can be placed inside a group');
+      }
+    }
+
+    const isActive = this.parseBoolean(link.isActive);
+    if (isActive === null) {
+      fail('isActive', 'isActive must be true or false');
+    }
+
+    const activeFromDate = this.parseRowDate(link.activeFrom, 'activeFrom', fail);
+    const activeUntilDate = this.parseRowDate(link.activeUntil, 'activeUntil', fail);
+    if (activeFromDate && activeUntilDate && activeFromDate >= activeUntilDate) {
+      fail('activeUntil', 'activeUntil must be later than activeFrom');
+    }
+
+    errors.push(...rowErrors);
+
+    return {
+      ...link,
+      title: link.kind === 'divider' ? '' : link.title,
+      url,
+      isActive: isActive ?? true,
+      activeFromDate,
+      activeUntilDate
+    };
+  }
+
+  private async validatePageSettings(userId: string, currentThemeId: string, parsed: ParsedImport, errors: ImportRowError[], dryRun: boolean): Promise<void> {
+    if (parsed.themeId !== undefined) {
+      const theme = await prisma.theme.findUnique({ where: { id: parsed.themeId } });
+
+      if (!theme || (theme.ownerId && theme.ownerId !== userId)) {
+        errors.push({ row: null, field: 'themeId', message: 'Theme not found' });
+      } else if (theme.retiredAt && theme.id !== currentThemeId) {
+        errors.push({ row: null, field: 'themeId', message: 'This theme has been retired' });
+      } else if (theme.isPremium) {
+        await this.checkEntitlements(dryRun, errors, () => this.subscriptionService.assertFeatureAccess(userId, 'premiumThemes'));
+      } else if (theme.ownerId) {
+        await this.checkEntitlements(dryRun, errors, () => this.subscriptionService.assertFeatureAccess(userId, 'customThemes'));
+      }
+    }
+
+    if (parsed.customColors) {
+      const valid = hasHexColors(parsed.customColors);
+
+      const unreadable = valid
+        ? this.accessibilityService.checkColors(parsed.customColors).find(check => check.level === 'fail')
+        : undefined;
+
+      if (!valid) {
+        errors.push({ row: null, field: 'customColors', message: `customColors needs hex values for ${THEME_COLOR_KEYS.join(', ')}` });
+      } else if (unreadable) {
+        errors.push({
+          row: null,
+          field: `customColors.${unreadable.foreground}`,
+          message: `Text on ${unreadable.background} has a contrast ratio of ${unreadable.ratio}:1; try ${unreadable.suggestion}`
+        });
+      } else {
+        await this.checkEntitlements(dryRun, errors, () => this.subscriptionService.assertFeatureAccess(userId, 'customColors'));
+      }
+    }
+  }
+
+  // A dry run lists plan problems alongside row errors; a real import fails with PLAN_LIMIT_REACHED
+  private async checkEntitlements(dryRun: boolean, errors: ImportRowError[], check: () => Promise<void>): Promise<void> {
+    try {
+      await check();
+    } catch (error) {
+      if (!dryRun || !(error instanceof PlanLimitError)) {
+        throw error;
+      }
+      errors.push({ row: null, field: error.limit, message: error.message });
+    }
+  }
+
+  private async writeImport(
+    bioPageId: string,
+    existing: Array<{ parentId: string | null; orderIndex: number }>,
+    links: ValidatedLink[],
+    parsed: ParsedImport,
+    mode: ImportMode
+  ): Promise<void> {
+    // Appended items go after the current top-level items
+    let topLevelOrder = mode === 'replace'
+      ? 0
+      : existing.filter(link => link.parentId === null).reduce((max, link) => Math.max(max, link.orderIndex), 0);
+
+    await prisma.$transaction(async tx => {
+      if (mode === 'replace') {
+        await tx.link.deleteMany({ where: { bioPageId } });
+      }
+
+      const createdIds = new Map<number, string>();
+      const childOrder = new Map<number, number>();
+
+      for (const link of links) {
+        let orderIndex: number;
+        if (link.parentRow === null) {
+          orderIndex = ++topLevelOrder;
+        } else {
+          orderIndex = (childOrder.get(link.parentRow) || 0) + 1;
+          childOrder.set(link.parentRow, orderIndex);
+        }
+
+        const created = await tx.link.create({
+          data: {
+            bioPageId,
+            kind: link.kind,
+            type: link.type,
+            parentId: link.parentRow === null ? null : createdIds.get(link.parentRow) ?? null,
+            title: link.title,
+            url: link.url,
+            iconName: link.iconName,
+            isActive: link.isActive,
+            orderIndex,
+            activeFrom: link.activeFromDate,
+            activeUntil: link.activeUntilDate
+          }
+        });
+        createdIds.set(link.row, created.id);
+      }
+
+      const pageData: any = {};
+      if (parsed.themeId !== undefined) pageData.themeId = parsed.themeId;
+      if (parsed.customColors !== undefined) {
+        pageData.customColors = parsed.customColors ? JSON.stringify(parsed.customColors) : null;
+      }
+
+      if (Object.keys(pageData).length > 0) {
+        await tx.bioPage.update({
+          where: { id: bioPageId },
+          data: pageData
+        });
+      }
+    });
+  }
+
+  private parseBoolean(value: unknown): boolean | null {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    const normalized = String(value).trim().toLowerCase();
+    if (['true', '1', 'yes'].includes(normalized)) return true;
+    if (['false', '0', 'no'].includes(normalized)) return false;
+    return null;
+  }
+
+  private parseRowDate(value: string | null, field: string, fail: (field: string, message: string) => void): Date | null {
+    if (!value) {
+      return null;
+    }
+
+    if (!validateTimestampWithZone(value)) {
+      fail(field, `${field} must be an ISO 8601 timestamp with a time zone`);
+      return null;
+    }
+
+    return new Date(value);
+  }
+}
\ No newline at end of file
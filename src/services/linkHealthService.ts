@@ -0,0 +1,207 @@
+import prisma from '../config/database';
+import { NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+import { getMailer, Mailer } from '../utils/mailer';
+import { BLOCKED_HOST, checkLinkUrl, LinkCheckOptions, LinkCheckResult, mapWithConcurrency } from '../utils/linkHealth';
+import { LinkHealthCheck, LinkHealthStatus } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Healthy links are rechecked daily; failing ones sooner, backing off up to a week
+const CHECK_INTERVAL_MS = 24 * HOUR_MS;
+const FAILURE_RETRY_MS = HOUR_MS;
+const MAX_BACKOFF_MS = 7 * 24 * HOUR_MS;
+
+// One bad response isn't enough to call a link broken
+const BROKEN_AFTER_FAILURES = 2;
+
+const BATCH_SIZE = 200;
+const HISTORY_RETENTION_DAYS = 30;
+
+export interface LinkHealthRunSummary {
+  checked: number;
+  broken: number;
+  recovered: number;
+}
+
+interface CheckedLink {
+  id: string;
+  title: string;
+  url: string;
+  healthStatus: string;
+  healthFailures: number;
+  bioPage: {
+    user: { id: string; email: string; username: string | null };
+  };
+}
+
+export class LinkHealthService {
+  private mailer: Mailer | undefined;
+  private concurrency: number;
+  private checkOptions: LinkCheckOptions;
+
+  constructor(options: { mailer?: Mailer; concurrency?: number; checkOptions?: LinkCheckOptions } = {}) {
+    this.mailer = options.mailer;
+    this.concurrency = options.concurrency ?? 5;
+    this.checkOptions = options.checkOptions ?? {};
+  }
+
+  // Check every link that's due, record the results and email owners about newly broken links
+  async runDueChecks(now: Date = new Date()): Promise<LinkHealthRunSummary> {
+    const links: CheckedLink[] = await prisma.link.findMany({
+      where: {
+        kind: 'link',
+        isActive: true,
+        url: { startsWith: 'http' },
+        OR: [{ healthCheckDueAt: null }, { healthCheckDueAt: { lte: now } }]
+      },
+      include: {
+        bioPage: {
+          include: {
+            user: { select: { id: true, email: true, username: true } }
+          }
+        }
+      },
+      orderBy: { healthCheckDueAt: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    const results = await mapWithConcurrency(links, this.concurrency, link => checkLinkUrl(link.url, this.checkOptions));
+
+    const newlyBroken: CheckedLink[] = [];
+    let recovered = 0;
+
+    for (const [index, link] of links.entries()) {
+      const result = results[index] as LinkCheckResult;
+      const status = await this.recordResult(link, result, now);
+
+      if (status === 'broken' && link.healthStatus !== 'broken') {
+        newlyBroken.push(link);
+      } else if (status === 'ok' && link.healthStatus === 'broken') {
+        recovered++;
+      }
+    }
+
+    await this.notifyOwners(newlyBroken);
+    await this.pruneHistory(now);
+
+    return { checked: links.length, broken: newlyBroken.length, recovered };
+  }
+
+  async getHealthHistory(userId: string, linkId: string, limit: number = 20): Promise<LinkHealthCheck[]> {
+    const link = await prisma.link.findFirst({
+      where: {
+        id: linkId,
+        bioPage: { userId }
+      }
+    });
+
+    if (!link) {
+      throw new NotFoundError('Link not found');
+    }
+
+    const checks = await prisma.linkHealthCheck.findMany({
+      where: { linkId },
+      orderBy: { checkedAt: 'desc' },
+      take: limit
+    });
+
+    return checks.map(check => ({
+      id: check.id,
+      url: check.url,
+      ok: check.ok,
+      statusCode: check.statusCode,
+      error: check.error,
+      responseTimeMs: check.responseTimeMs,
+      checkedAt: check.checkedAt
+    }));
+  }
+
+  private async recordResult(link: CheckedLink, result: LinkCheckResult, now: Date): Promise<LinkHealthStatus> {
+    // We won't request private addresses; that says nothing about whether the link works
+    if (result.error === BLOCKED_HOST) {
+      await prisma.link.update({
+        where: { id: link.id },
+        data: { healthCheckDueAt: new Date(now.getTime() + CHECK_INTERVAL_MS) }
+      });
+      return link.healthStatus as LinkHealthStatus;
+    }
+
+    const failures = result.ok ? 0 : link.healthFailures + 1;
+    const status: LinkHealthStatus = result.ok
+      ? 'ok'
+      : failures >= BROKEN_AFTER_FAILURES ? 'broken' : link.healthStatus as LinkHealthStatus;
+    const delay = result.ok
+      ? CHECK_INTERVAL_MS
+      : Math.min(FAILURE_RETRY_MS * 2 ** (failures - 1), MAX_BACKOFF_MS);
+
+    await prisma.$transaction([
+      prisma.link.update({
+        where: { id: link.id },
+        data: {
+          healthStatus: status,
+          healthFailures: failures,
+          healthCheckedAt: now,
+          healthCheckDueAt: new Date(now.getTime() + delay)
+        }
+      }),
+      prisma.linkHealthCheck.create({
+        data: {
+          linkId: link.id,
+          url: link.url,
+          ok: result.ok,
+          statusCode: result.statusCode,
+          error: result.error,
+          responseTimeMs: result.responseTimeMs,
+          checkedAt: now
+        }
+      })
+    ]);
+
+    return status;
+  }
+
+  // One email per owner listing the links that just broke
+  private async notifyOwners(links: CheckedLink[]): Promise<void> {
+    const byOwner = new Map<string, CheckedLink[]>();
+    links.forEach(link => {
+      const owned = byOwner.get(link.bioPage.user.id) || [];
+      owned.push(link);
+      byOwner.set(link.bioPage.user.id, owned);
+    });
+
+    const mailer = this.mailer || getMailer();
+
+    for (const owned of byOwner.values()) {
+      const { email, username } = (owned[0] as CheckedLink).bioPage.user;
+      const lines = owned.map(link => `- ${link.title}: ${link.url}`);
+
+      try {
+        await mailer.send({
+          to: email,
+          subject: owned.length === 1
+            ? 'One of your LinkHub links looks broken'
+            : `${owned.length} of your LinkHub links look broken`,
+          text: [
+            `Hi${username ? ` @${username}` : ''},`,
+            '',
+            'We checked the links on your bio page and these destinations are no longer responding:',
+            '',
+            ...lines,
+            '',
+            'Visitors clicking them will hit an error page. Update or hide them from your dashboard.'
+          ].join('\n')
+        });
+      } catch (error) {
+        logger.error('Failed to send broken link email', { userId: owned[0]?.bioPage.user.id, error });
+      }
+    }
+  }
+
+  private async pruneHistory(now: Date): Promise<void> {
+    const cutoff = new Date(now.getTime() - HISTORY_RETENTION_DAYS * 24 * HOUR_MS);
+    await prisma.linkHealthCheck.deleteMany({
+      where: { checkedAt: { lt: cutoff } }
+    });
+  }
+}
\ No newline at end of file
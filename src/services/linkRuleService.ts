@@ -0,0 +1,153 @@
+import prisma from '../config/database';
+import { ValidationError, NotFoundError } from '../utils/errors';
+import { validateUrl } from '../utils/validation';
+import { normalizeRuleCondition } from '../utils/linkRules';
+import { LinkRule } from '../types';
+
+const MAX_RULES_PER_LINK = 20;
+
+export class LinkRuleService {
+  async getRules(userId: string, linkId: string): Promise<LinkRule[]> {
+    await this.findOwnedLink(userId, linkId);
+    return this.listRules(linkId);
+  }
+
+  async createRule(userId: string, linkId: string, ruleData: {
+    conditionType: string;
+    conditionValue: string;
+    targetUrl: string;
+  }): Promise<LinkRule[]> {
+    const link = await this.findOwnedLink(userId, linkId);
+
+    if (link.rules.length >= MAX_RULES_PER_LINK) {
+      throw new ValidationError(`A link can have at most ${MAX_RULES_PER_LINK} rules`, 'linkId');
+    }
+
+    const conditionValue = normalizeRuleCondition(ruleData.conditionType, ruleData.conditionValue);
+    this.validateTargetUrl(ruleData.targetUrl);
+
+    // New rules are evaluated last
+    const maxOrder = link.rules.reduce((max, rule) => Math.max(max, rule.orderIndex), 0);
+
+    await prisma.linkRule.create({
+      data: {
+        linkId,
+        conditionType: ruleData.conditionType,
+        conditionValue,
+        targetUrl: ruleData.targetUrl,
+        orderIndex: maxOrder + 1
+      }
+    });
+
+    return this.listRules(linkId);
+  }
+
+  async updateRule(userId: string, linkId: string, ruleId: string, updates: {
+    conditionType?: string;
+    conditionValue?: string;
+    targetUrl?: string;
+  }): Promise<LinkRule[]> {
+    const link = await this.findOwnedLink(userId, linkId);
+    const rule = link.rules.find(r => r.id === ruleId);
+
+    if (!rule) {
+      throw new NotFoundError('Rule not found');
+    }
+
+    const updateData: any = {};
+
+    if (updates.conditionType !== undefined || updates.conditionValue !== undefined) {
+      const conditionType = updates.conditionType ?? rule.conditionType;
+      updateData.conditionType = conditionType;
+      updateData.conditionValue = normalizeRuleCondition(conditionType, updates.conditionValue ?? rule.conditionValue);
+    }
+
+    if (updates.targetUrl !== undefined) {
+      this.validateTargetUrl(updates.targetUrl);
+      updateData.targetUrl = updates.targetUrl;
+    }
+
+    await prisma.linkRule.update({
+      where: { id: ruleId },
+      data: updateData
+    });
+
+    return this.listRules(linkId);
+  }
+
+  async deleteRule(userId: string, linkId: string, ruleId: string): Promise<LinkRule[]> {
+    const link = await this.findOwnedLink(userId, linkId);
+
+    if (!link.rules.some(rule => rule.id === ruleId)) {
+      throw new NotFoundError('Rule not found');
+    }
+
+    await prisma.linkRule.delete({
+      where: { id: ruleId }
+    });
+
+    return this.listRules(linkId);
+  }
+
+  async reorderRules(userId: string, linkId: string, ruleIds: string[]): Promise<LinkRule[]> {
+    const link = await this.findOwnedLink(userId, linkId);
+
+    // Verify all provided rule IDs belong to this link
+    const existingRuleIds = link.rules.map(rule => rule.id);
+    const invalidRuleIds = ruleIds.filter(id => !existingRuleIds.includes(id));
+
+    if (invalidRuleIds.length > 0) {
+      throw new ValidationError('Invalid rule IDs provided', 'ruleIds');
+    }
+
+    await Promise.all(ruleIds.map((ruleId, index) =>
+      prisma.linkRule.update({
+        where: { id: ruleId },
+        data: { orderIndex: index + 1 }
+      })
+    ));
+
+    return this.listRules(linkId);
+  }
+
+  private async findOwnedLink(userId: string, linkId: string) {
+    const link = await prisma.link.findFirst({
+      where: {
+        id: linkId,
+        bioPage: { userId }
+      },
+      include: { rules: true }
+    });
+
+    if (!link) {
+      throw new NotFoundError('Link not found');
+    }
+
+    if (link.kind !== 'link') {
+      throw new ValidationError('Only links can have redirect rules', 'linkId');
+    }
+
+    return link;
+  }
+
+  private validateTargetUrl(targetUrl: string): void {
+    if (!targetUrl || !validateUrl(targetUrl)) {
+      throw new ValidationError('Valid target URL is required', 'targetUrl');
+    }
+  }
+
+  private async listRules(linkId: string): Promise<LinkRule[]> {
+    const rules = await prisma.linkRule.findMany({
+      where: { linkId },
+      orderBy: { orderIndex: 'asc' }
+    });
+
+    return rules.map(rule => ({
+      id: rule.id,
+      conditionType: rule.conditionType as LinkRule['conditionType'],
+      conditionValue: rule.conditionValue,
+      targetUrl: rule.targetUrl,
+      order: rule.orderIndex
+    }));
+  }
+}
\ No newline at end of file
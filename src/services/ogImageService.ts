@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import prisma from '../config/database';
+import { bioPagePath } from '../utils/bioPages';
+import { parseSnapshot } from '../utils/pageSnapshot';
+import { withThemeVersion } from '../utils/themeVersions';
+import { getStorage } from '../utils/storage';
+import { avatarVariantKey, AVATAR_SIZES } from '../utils/avatar';
+import { cardColors, OgImageInput, OG_IMAGE_VERSION, renderOgImage } from '../utils/ogImage';
+
+const UPLOADS_DIR = path.join(__dirname, '../../uploads');
+
+// Cards are cached as uploads/og/<bioPageId>-<hash of what's drawn>.png
+export const OG_IMAGE_DIR = path.join(UPLOADS_DIR, 'og');
+
+// Stable public URL of a page's share image
+export const ogImagePath = (bioPageId: string): string => `/api/bio-page/og-image/${bioPageId}.png`;
+
+// Share images for published pages, drawn from the profile and the live revision's theme
+export class OgImageService {
+  constructor(private directory: string = OG_IMAGE_DIR) {}
+
+  // File path of an up-to-date card for a public page, drawing it if needed; null if the page isn't public
+  async getImage(bioPageId: string): Promise<string | null> {
+    const input = await this.loadInput(bioPageId);
+    if (!input) {
+      return null;
+    }
+
+    const file = path.join(this.directory, `${bioPageId}-${this.cacheKey(input)}.png`);
+
+    if (await this.isDrawn(file)) {
+      return file;
+    }
+
+    const png = await renderOgImage(input);
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename, so a request never reads a half-written file
+    const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temporary, png);
+
+    try {
+      await fs.rename(temporary, file);
+    } catch (error) {
+      await fs.unlink(temporary).catch(() => undefined);
+
+      // Losing a race to another request drawing the same card is fine
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || !(await this.isDrawn(file))) {
+        throw error;
+      }
+    }
+
+    await this.removeStale(bioPageId, path.basename(file));
+
+    return file;
+  }
+
+  // Redraw a page's card after something on it changed. Failures are logged, not thrown,
+  // so callers don't wait for it (fire and forget).
+  async refresh(bioPageId: string): Promise<void> {
+    try {
+      const file = await this.getImage(bioPageId);
+      if (!file) {
+        await this.removeStale(bioPageId, null);
+      }
+    } catch (error) {
+      console.error('Failed to refresh share image:', error);
+    }
+  }
+
+  // The profile is on every card of the account's pages; like refresh, this never throws
+  async refreshForUser(userId: string): Promise<void> {
+    try {
+      const bioPages = await prisma.bioPage.findMany({
+        where: { userId },
+        select: { id: true }
+      });
+
+      for (const bioPage of bioPages) {
+        await this.refresh(bioPage.id);
+      }
+    } catch (error) {
+      console.error('Failed to refresh share images:', error);
+    }
+  }
+
+  private async loadInput(bioPageId: string): Promise<OgImageInput | null> {
+    const bioPage = await prisma.bioPage.findUnique({
+      where: { id: bioPageId },
+      include: {
+        publishedRevision: { select: { snapshot: true } },
+        user: { select: { username: true, profileName: true, profileBio: true, profileImageUrl: true, avatarKey: true } }
+      }
+    });
+
+    if (!bioPage || !bioPage.isPublished || !bioPage.publishedRevision || !bioPage.user.username) {
+      return null;
+    }
+
+    const live = parseSnapshot(bioPage.publishedRevision.snapshot);
+    const publishedTheme = await prisma.theme.findUnique({ where: { id: live.themeId } });
+    const theme = publishedTheme
+      ? await withThemeVersion(publishedTheme, live.themeVersion)
+      : await prisma.theme.findUnique({ where: { id: bioPage.themeId } });
+
+    let customColors = null;
+    if (live.customColors) {
+      try {
+        customColors = JSON.parse(live.customColors);
+      } catch (error) {
+        console.error('Failed to parse custom colors:', error);
+      }
+    }
+
+    const { user } = bioPage;
+
+    return {
+      name: user.profileName || `@${user.username}`,
+      handle: `@${bioPagePath(user.username as string, bioPage).slice(1)}`,
+      bio: user.profileBio || null,
+      colors: cardColors(theme?.cssTemplate || '', customColors),
+      avatar: await this.loadAvatar(user.profileImageUrl, user.avatarKey)
+    };
+  }
+
+  // Only uploaded avatars and images stored on this server are drawn; fetching remote ones would make rendering depend on the network
+  private async loadAvatar(profileImageUrl: string | null, avatarKey: string | null): Promise<Buffer | null> {
+    if (avatarKey) {
+      try {
+        return await getStorage().get(avatarVariantKey(avatarKey, AVATAR_SIZES[0]));
+      } catch (error) {
+        console.error('Failed to read avatar for share image:', error);
+        return null;
+      }
+    }
+
+    if (!profileImageUrl || !profileImageUrl.startsWith('/uploads/')) {
+      return null;
+    }
+
+    const file = path.resolve(UPLOADS_DIR, profileImageUrl.slice('/uploads/'.length));
+    if (!file.startsWith(UPLOADS_DIR + path.sep)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(file);
+    } catch {
+      return null;
+    }
+  }
+
+  private cacheKey(input: OgImageInput): string {
+    const hash = crypto.createHash('sha256')
+      .update(JSON.stringify({ ...input, avatar: null, version: OG_IMAGE_VERSION }));
+
+    if (input.avatar) {
+      hash.update(input.avatar);
+    }
+
+    return hash.digest('hex').slice(0, 16);
+  }
+
+  private async isDrawn(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async removeStale(bioPageId: string, keep: string | null): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(files
+      .filter(name => name.startsWith(`${bioPageId}-`) && name.endsWith('.png') && name !== keep)
+      .map(name => fs.unlink(path.join(this.directory, name)).catch(() => undefined)));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,542 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { liveLinkWhere } from '../utils/linkSchedule';
+import { UNCHECKED_LINK_HEALTH } from '../utils/linkHealth';
+import { generatePreviewToken, verifyPreviewToken } from '../utils/crypto';
+import { bioPagePath, ownedPageWhere, publicPageWhere } from '../utils/bioPages';
+import { PublicPageView } from '../utils/publicPage';
+import { withThemeVersion } from '../utils/themeVersions';
+import { OgImageService } from './ogImageService';
+import { SubscriptionService } from './subscriptionService';
+import {
+  diffSnapshots,
+  liveSnapshotLinks,
+  PageSnapshot,
+  parseSnapshot,
+  serializeSnapshot,
+  SnapshotLink,
+  SnapshotRule,
+  SnapshotVariant,
+  takeSnapshot
+} from '../utils/pageSnapshot';
+import { BioPageRevision, DraftStatus, RevisionDiff } from '../types';
+
+// How long a preview link to a draft keeps working
+export const PREVIEW_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// Which version a revision is compared with: the one before it, the live one, the draft, or another revision's ID
+export type DiffBase = 'previous' | 'live' | 'draft' | string;
+
+const PUBLIC_USER_SELECT = {
+  id: true,
+  username: true,
+  profileName: true,
+  profileBio: true,
+  profileImageUrl: true
+};
+
+// A link's variants and rules are published with it
+const LINK_CONTENT_INCLUDE = {
+  variants: true,
+  rules: true
+};
+
+// Nothing published yet: the same settings, no links
+const emptySnapshot = (like: PageSnapshot): PageSnapshot => ({ ...like, links: [] });
+
+// The owner edits a draft (the page's own links and settings); visitors see the published revision.
+export class RevisionService {
+  private ogImageService = new OgImageService();
+  private subscriptionService = new SubscriptionService();
+
+  async getDraftStatus(userId: string, pageId?: string): Promise<DraftStatus> {
+    const bioPage = await this.findPageWithDraft(userId, pageId);
+    const draft = takeSnapshot(bioPage, bioPage.links);
+    const live = bioPage.publishedRevision ? parseSnapshot(bioPage.publishedRevision.snapshot) : null;
+    const diff = diffSnapshots(live || emptySnapshot(draft), draft);
+
+    return {
+      liveRevision: bioPage.publishedRevision?.number ?? null,
+      hasUnpublishedChanges: !live || diff.hasChanges,
+      diff
+    };
+  }
+
+  // Make the draft live as a new revision
+  async publish(userId: string, pageId?: string): Promise<BioPageRevision> {
+    const bioPage = await this.findPageWithDraft(userId, pageId);
+    const draft = takeSnapshot(bioPage, bioPage.links);
+
+    if (bioPage.publishedRevision && !diffSnapshots(parseSnapshot(bioPage.publishedRevision.snapshot), draft).hasChanges) {
+      throw new ValidationError('There are no unpublished changes');
+    }
+
+    const revision = await this.inRevisionTransaction(tx => this.publishSnapshot(tx, bioPage.id, draft, null));
+
+    // The share image uses the live theme
+    this.ogImageService.refresh(bioPage.id);
+
+    return this.formatRevision(revision, revision.id);
+  }
+
+  // Publish a page's current content without any checks, e.g. when the page is created
+  async publishCurrent(bioPageId: string): Promise<void> {
+    await prisma.$transaction(async tx => {
+      const bioPage = await tx.bioPage.findUniqueOrThrow({
+        where: { id: bioPageId },
+        include: { links: { include: LINK_CONTENT_INCLUDE }, theme: true }
+      });
+
+      await this.publishSnapshot(tx, bioPageId, takeSnapshot(bioPage, bioPage.links), null);
+    });
+  }
+
+  async listRevisions(userId: string, pageId?: string): Promise<BioPageRevision[]> {
+    const bioPage = await this.findOwnedPage(userId, pageId);
+
+    const revisions = await prisma.bioPageRevision.findMany({
+      where: { bioPageId: bioPage.id },
+      orderBy: { number: 'desc' }
+    });
+
+    return revisions.map(revision => this.formatRevision(revision, bioPage.publishedRevisionId));
+  }
+
+  // What changes going from `against` to this revision
+  async diffRevision(userId: string, revisionId: string, against: DiffBase = 'previous'): Promise<{
+    revision: number;
+    against: number | 'draft' | null;
+    diff: RevisionDiff;
+  }> {
+    const revision = await this.findOwnedRevision(userId, revisionId);
+    const snapshot = parseSnapshot(revision.snapshot);
+
+    let base: { number: number | 'draft' | null; snapshot: PageSnapshot };
+
+    if (against === 'draft') {
+      const links = await prisma.link.findMany({
+        where: { bioPageId: revision.bioPageId },
+        include: LINK_CONTENT_INCLUDE
+      });
+      base = { number: 'draft', snapshot: takeSnapshot(revision.bioPage, links) };
+    } else {
+      const other = await prisma.bioPageRevision.findFirst({
+        where: against === 'previous'
+          ? { bioPageId: revision.bioPageId, number: revision.number - 1 }
+          : against === 'live'
+            ? { bioPageId: revision.bioPageId, livePage: { isNot: null } }
+            : { bioPageId: revision.bioPageId, id: against }
+      });
+
+      if (!other && against !== 'previous') {
+        throw new NotFoundError('Revision to compare with not found');
+      }
+
+      // The first revision is compared with an empty page
+      base = other
+        ? { number: other.number, snapshot: parseSnapshot(other.snapshot) }
+        : { number: null, snapshot: emptySnapshot(snapshot) };
+    }
+
+    return {
+      revision: revision.number,
+      against: base.number,
+      diff: diffSnapshots(base.snapshot, snapshot)
+    };
+  }
+
+  // Bring an earlier revision back: it replaces the draft and goes live as a new revision
+  async rollback(userId: string, revisionId: string): Promise<BioPageRevision> {
+    const revision = await this.findOwnedRevision(userId, revisionId);
+    const snapshot = parseSnapshot(revision.snapshot);
+
+    await this.assertWithinPlan(userId, snapshot);
+
+    const restored = await this.inRevisionTransaction(async tx => {
+      await this.restoreDraft(tx, revision.bioPageId, snapshot);
+      return this.publishSnapshot(tx, revision.bioPageId, snapshot, revision.number);
+    });
+
+    // The share image uses the live theme
+    this.ogImageService.refresh(revision.bioPageId);
+
+    return this.formatRevision(restored, restored.id);
+  }
+
+  // Throw away unpublished edits by resetting the draft to the live revision
+  async discardDraft(userId: string, pageId?: string): Promise<void> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: { publishedRevision: true }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    if (!bioPage.publishedRevision) {
+      throw new ValidationError('This page has never been published');
+    }
+
+    const live = parseSnapshot(bioPage.publishedRevision.snapshot);
+    await prisma.$transaction(tx => this.restoreDraft(tx, bioPage.id, live));
+  }
+
+  // A signed link that shows the draft to anyone who has it, until it expires
+  async createPreview(userId: string, pageId?: string): Promise<{ token: string; expiresIn: number; path: string }> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: { user: { select: { username: true } } }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    const token = generatePreviewToken(bioPage.id, PREVIEW_TOKEN_TTL_SECONDS);
+
+    return {
+      token,
+      expiresIn: PREVIEW_TOKEN_TTL_SECONDS,
+      path: `${bioPagePath(bioPage.user.username || '', bioPage)}?preview=${encodeURIComponent(token)}`
+    };
+  }
+
+  // The draft behind a preview token, published or not; null if the token is invalid or expired
+  async getPreviewPage(token: string): Promise<PublicPageView | null> {
+    const bioPageId = verifyPreviewToken(token);
+    if (!bioPageId) {
+      return null;
+    }
+
+    const bioPage = await prisma.bioPage.findUnique({
+      where: { id: bioPageId },
+      include: {
+        links: { where: liveLinkWhere(), include: LINK_CONTENT_INCLUDE },
+        theme: true,
+        user: { select: PUBLIC_USER_SELECT }
+      }
+    });
+
+    if (!bioPage) {
+      return null;
+    }
+
+    const draft = takeSnapshot(bioPage, bioPage.links);
+
+    return {
+      ...bioPage,
+      links: await this.withVariants(bioPage.id, draft.links)
+    };
+  }
+
+  // The published revision of a public page; null when the page doesn't exist or is hidden
+  async getLivePage(username: string, pageSlug?: string): Promise<PublicPageView | null> {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: publicPageWhere(username, pageSlug),
+      include: {
+        publishedRevision: true,
+        theme: true,
+        user: { select: PUBLIC_USER_SELECT }
+      }
+    });
+
+    if (!bioPage || !bioPage.isPublished || !bioPage.publishedRevision) {
+      return null;
+    }
+
+    const { publishedRevision, ...page } = bioPage;
+    const live = parseSnapshot(publishedRevision.snapshot);
+
+    // Theme changes are versioned too; fall back to the draft's theme if the published one is gone
+    const publishedTheme = live.themeId === page.themeId
+      ? page.theme
+      : await prisma.theme.findUnique({ where: { id: live.themeId } });
+
+    // Styled as the theme was when the revision went live, not as it has been edited since
+    const theme = publishedTheme ? await withThemeVersion(publishedTheme, live.themeVersion) : page.theme;
+
+    return {
+      ...page,
+      themeId: theme.id,
+      customColors: live.customColors,
+      outboundParams: live.outboundParams,
+      updatedAt: publishedRevision.publishedAt,
+      theme,
+      links: await this.withVariants(page.id, liveSnapshotLinks(live))
+    };
+  }
+
+  // A published, active link on any of the user's pages, even if the draft has since deleted it
+  async getLiveLink(username: string, linkId: string) {
+    const bioPages = await prisma.bioPage.findMany({
+      where: {
+        user: { username: username.toLowerCase() },
+        publishedRevisionId: { not: null }
+      },
+      include: {
+        publishedRevision: { select: { snapshot: true } },
+        user: { select: { id: true, username: true } }
+      }
+    });
+
+    for (const bioPage of bioPages) {
+      const live = parseSnapshot(bioPage.publishedRevision?.snapshot as string);
+      const snapshotLink = live.links.find(link => link.id === linkId);
+
+      if (!snapshotLink) {
+        continue;
+      }
+
+      const row = await prisma.link.findUnique({
+        where: { id: linkId },
+        include: {
+          variants: { orderBy: { createdAt: 'asc' } },
+          rules: { orderBy: { orderIndex: 'asc' } }
+        }
+      });
+
+      // A link in a hidden group is hidden with it
+      const parent = snapshotLink.parentId ? live.links.find(link => link.id === snapshotLink.parentId) : null;
+      const isLink = snapshotLink.kind === 'link' && snapshotLink.isActive && (!parent || parent.isActive);
+
+      // Revisions published before variants and rules were versioned use the draft's
+      const { variants: publishedVariants, rules: publishedRules, ...published } = snapshotLink;
+      const variants: Array<{ id: string; title: string | null; url: string | null; weight: number }> =
+        publishedVariants ?? row?.variants ?? [];
+      const draftVariantIds = new Set(row?.variants.map(variant => variant.id));
+
+      return {
+        id: bioPage.id,
+        userId: bioPage.userId,
+        isPublished: bioPage.isPublished,
+        outboundParams: live.outboundParams,
+        user: bioPage.user,
+        // A link, variant or rule deleted from the draft stays live until the next publish
+        link: isLink
+          ? {
+            ...published,
+            variants: variants.map(variant => ({ ...variant, isInDraft: draftVariantIds.has(variant.id) })),
+            rules: publishedRules ?? row?.rules ?? [],
+            isInDraft: !!row
+          }
+          : null
+      };
+    }
+
+    return null;
+  }
+
+  // Links with the variants they were published with; revisions from before variants were versioned use the draft's
+  private async withVariants(bioPageId: string, links: SnapshotLink[]): Promise<PublicPageView['links']> {
+    const unrecorded = links.filter(link => link.variants === null);
+
+    // pickVariant walks variants in order, so the page and the redirect must list them the same way
+    const draftVariants = unrecorded.length > 0
+      ? await prisma.linkVariant.findMany({
+        where: { linkId: { in: unrecorded.map(link => link.id) } },
+        orderBy: { createdAt: 'asc' }
+      })
+      : [];
+
+    return links.map(({ variants, rules, ...link }) => ({
+      ...link,
+      bioPageId,
+      variants: variants ?? draftVariants.filter(variant => variant.linkId === link.id)
+    }));
+  }
+
+  // A revision published on an earlier plan has to fit the current one before it's restored,
+  // with the same checks as adding its links one by one
+  private async assertWithinPlan(userId: string, snapshot: PageSnapshot): Promise<void> {
+    const links = snapshot.links.filter(link => link.kind === 'link');
+
+    if (links.length > 0) {
+      await this.subscriptionService.assertWithinLimit(userId, 'maxLinks', links.length - 1);
+    }
+
+    if (links.some(link => link.type !== 'url')) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'richLinks');
+    }
+  }
+
+  // Publishes running at the same time number their revisions after the same latest one. The unique
+  // number lets the first through; the other is turned away rather than left as a server error.
+  private async inRevisionTransaction<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    try {
+      return await prisma.$transaction(work);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002' &&
+        JSON.stringify(error.meta?.['target'] ?? '').includes('number')) {
+        throw new ConflictError('The page was published by another request at the same time. Please try again.');
+      }
+      throw error;
+    }
+  }
+
+  private async publishSnapshot(tx: Prisma.TransactionClient, bioPageId: string, snapshot: PageSnapshot, restoredFrom: number | null) {
+    const latest = await tx.bioPageRevision.findFirst({
+      where: { bioPageId },
+      orderBy: { number: 'desc' }
+    });
+
+    const revision = await tx.bioPageRevision.create({
+      data: {
+        bioPageId,
+        number: (latest?.number || 0) + 1,
+        snapshot: serializeSnapshot(snapshot),
+        restoredFrom
+      }
+    });
+
+    await tx.bioPage.update({
+      where: { id: bioPageId },
+      data: { publishedRevisionId: revision.id }
+    });
+
+    return revision;
+  }
+
+  // Make the page's links, their variants and rules, and its settings match a snapshot
+  private async restoreDraft(tx: Prisma.TransactionClient, bioPageId: string, snapshot: PageSnapshot): Promise<void> {
+    const existing = await tx.link.findMany({
+      where: { bioPageId },
+      select: { id: true, url: true }
+    });
+    const existingUrls = new Map(existing.map(link => [link.id, link.url]));
+    const keep = new Set(snapshot.links.map(link => link.id));
+
+    await tx.link.deleteMany({
+      where: { bioPageId, id: { notIn: Array.from(keep) } }
+    });
+
+    // Groups first, so their links can point at them
+    const ordered = [...snapshot.links].sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+
+    for (const link of ordered) {
+      const { id, variants, rules, ...fields } = link;
+
+      if (existingUrls.has(id)) {
+        await tx.link.update({
+          where: { id },
+          data: {
+            ...fields,
+            ...(existingUrls.get(id) !== link.url ? UNCHECKED_LINK_HEALTH : {})
+          }
+        });
+      } else {
+        await tx.link.create({
+          data: { id, bioPageId, ...fields }
+        });
+      }
+
+      await this.restoreLinkContent(tx, id, variants, rules);
+    }
+
+    await tx.bioPage.update({
+      where: { id: bioPageId },
+      data: {
+        themeId: snapshot.themeId,
+        customColors: snapshot.customColors,
+        outboundParams: snapshot.outboundParams
+      }
+    });
+  }
+
+  // Revisions from before variants and rules were versioned (null) leave the current ones alone
+  private async restoreLinkContent(
+    tx: Prisma.TransactionClient,
+    linkId: string,
+    variants: SnapshotVariant[] | null,
+    rules: SnapshotRule[] | null
+  ): Promise<void> {
+    if (variants) {
+      await tx.linkVariant.deleteMany({
+        where: { linkId, id: { notIn: variants.map(variant => variant.id) } }
+      });
+
+      for (const { id, ...fields } of variants) {
+        await tx.linkVariant.upsert({
+          where: { id },
+          create: { id, linkId, ...fields },
+          update: fields
+        });
+      }
+    }
+
+    if (rules) {
+      await tx.linkRule.deleteMany({
+        where: { linkId, id: { notIn: rules.map(rule => rule.id) } }
+      });
+
+      for (const { id, ...fields } of rules) {
+        await tx.linkRule.upsert({
+          where: { id },
+          create: { id, linkId, ...fields },
+          update: fields
+        });
+      }
+    }
+  }
+
+  private async findOwnedPage(userId: string, pageId?: string) {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId)
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    return bioPage;
+  }
+
+  private async findPageWithDraft(userId: string, pageId?: string) {
+    const bioPage = await prisma.bioPage.findFirst({
+      where: ownedPageWhere(userId, pageId),
+      include: {
+        links: { include: LINK_CONTENT_INCLUDE },
+        publishedRevision: true,
+        theme: true
+      }
+    });
+
+    if (!bioPage) {
+      throw new NotFoundError('Bio page not found');
+    }
+
+    return bioPage;
+  }
+
+  private async findOwnedRevision(userId: string, revisionId: string) {
+    const revision = await prisma.bioPageRevision.findFirst({
+      where: { id: revisionId, bioPage: { userId } },
+      include: { bioPage: { include: { theme: true } } }
+    });
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    return revision;
+  }
+
+  private formatRevision(revision: {
+    id: string;
+    number: number;
+    snapshot: string;
+    restoredFrom: number | null;
+    publishedAt: Date;
+  }, liveRevisionId: string | null): BioPageRevision {
+    return {
+      id: revision.id,
+      number: revision.number,
+      isLive: revision.id === liveRevisionId,
+      restoredFrom: revision.restoredFrom,
+      linkCount: parseSnapshot(revision.snapshot).links.filter(link => link.kind === 'link').length,
+      publishedAt: revision.publishedAt
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { generateSlug, normalizeCustomSlug } from '../utils/shortLinks';
+import { bioPagePath, ownedPageWhere } from '../utils/bioPages';
+import { ShortLink, ThemeColors } from '../types';
+
+const MAX_SLUG_ATTEMPTS = 5;
+
+export class ShortLinkService {
+  // The short link is created the first time it's asked for. A null linkId means
+  // the page itself: the given page, or the primary page without a pageId.
+  async getShortLink(userId: string, linkId: string | null, pageId?: string): Promise<ShortLink> {
+    const bioPageId = await this.findOwnedTarget(userId, linkId, pageId);
+    return this.formatShortLink(await this.ensureShortLink(bioPageId, linkId));
+  }
+
+  // Set a custom slug, or pass null to go back to a generated one
+  async setSlug(userId: string, linkId: string | null, slug: string | null, pageId?: string): Promise<ShortLink> {
+    const bioPageId = await this.findOwnedTarget(userId, linkId, pageId);
+    const shortLink = await this.ensureShortLink(bioPageId, linkId);
+
+    if (slug === null) {
+      if (!shortLink.isCustom) {
+        return this.formatShortLink(shortLink);
+      }
+      return this.formatShortLink(await this.withGeneratedSlug(generated => prisma.shortLink.update({
+        where: { id: shortLink.id },
+        data: { slug: generated, isCustom: false }
+      })));
+    }
+
+    const normalized = normalizeCustomSlug(slug);
+    if (normalized === shortLink.slug) {
+      return this.formatShortLink(shortLink);
+    }
+
+    try {
+      return this.formatShortLink(await prisma.shortLink.update({
+        where: { id: shortLink.id },
+        data: { slug: normalized, isCustom: true }
+      }));
+    } catch (error) {
+      if (this.isSlugTaken(error)) {
+        throw new ConflictError('This slug is already taken', 'slug');
+      }
+      throw error;
+    }
+  }
+
+  // Public path a slug points at, if its page is published
+  async resolveSlug(slug: string): Promise<{ path: string; linkId: string | null } | null> {
+    const shortLink = await prisma.shortLink.findUnique({
+      where: { slug: slug.toLowerCase() },
+      include: {
+        bioPage: {
+          include: { user: { select: { username: true } } }
+        }
+      }
+    });
+
+    if (!shortLink || !shortLink.bioPage.isPublished || !shortLink.bioPage.user.username) {
+      return null;
+    }
+
+    const username = shortLink.bioPage.user.username;
+
+    return {
+      path: shortLink.linkId ? `/${username}/link/${shortLink.linkId}` : bioPagePath(username, shortLink.bioPage),
+      linkId: shortLink.linkId
+    };
+  }
+
+  // The custom colours of the page behind a short link, used to theme its QR codes
+  async getQrColors(userId: string, linkId: string | null, pageId?: string): Promise<ThemeColors | null> {
+    const bioPage = await prisma.bioPage.findUnique({
+      where: { id: await this.findOwnedTarget(userId, linkId, pageId) },
+      select: { customColors: true }
+    });
+
+    if (!bioPage?.customColors) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(bioPage.customColors);
+    } catch (error) {
+      console.error('Failed to parse custom colors:', error);
+      return null;
+    }
+  }
+
+  private async findOwnedTarget(userId: string, linkId: string | null, pageId?: string): Promise<string> {
+    if (linkId === null) {
+      const bioPage = await prisma.bioPage.findFirst({ where: ownedPageWhere(userId, pageId) });
+      if (!bioPage) {
+        throw new NotFoundError('Bio page not found');
+      }
+      return bioPage.id;
+    }
+
+    // Only clickable links have somewhere to go
+    const link = await prisma.link.findFirst({
+      where: {
+        id: linkId,
+        kind: 'link',
+        bioPage: { userId, ...(pageId && { id: pageId }) }
+      }
+    });
+
+    if (!link) {
+      throw new NotFoundError('Link not found');
+    }
+
+    return link.bioPageId;
+  }
+
+  private async ensureShortLink(bioPageId: string, linkId: string | null) {
+    const existing = await prisma.shortLink.findFirst({
+      where: { bioPageId, linkId }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return this.withGeneratedSlug(slug => prisma.shortLink.create({
+      data: { slug, bioPageId, linkId }
+    }));
+  }
+
+  // Generated slugs are random, so a collision just means trying another
+  private async withGeneratedSlug<T>(write: (slug: string) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await write(generateSlug());
+      } catch (error) {
+        if (!this.isSlugTaken(error) || attempt >= MAX_SLUG_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private isSlugTaken(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      JSON.stringify(error.meta?.['target'] ?? '').includes('slug');
+  }
+
+  private formatShortLink(shortLink: { slug: string; linkId: string | null; isCustom: boolean }): ShortLink {
+    return {
+      slug: shortLink.slug,
+      linkId: shortLink.linkId,
+      isCustom: shortLink.isCustom,
+      path: `/s/${shortLink.slug}`
+    };
+  }
+}
\ No newline at end of file
@@ -1,21 +1,55 @@
 import Stripe from 'stripe';
 import prisma from '../config/database';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import { NotFoundError, ValidationError, PlanLimitError } from '../utils/errors';
 
 // Initialize Stripe
 const stripe = new Stripe(process.env['STRIPE_SECRET_KEY'] || 'sk_test_dummy', {
   apiVersion: '2023-10-16',
 });
 
+// Typed limits and flags granted by a plan. A null limit means unlimited.
+export interface PlanEntitlements {
+  maxLinks: number | null;
+  maxBioPages: number | null;
+  analyticsRetentionDays: number | null;
+  premiumThemes: boolean;
+  customColors: boolean;
+  customThemes: boolean;
+  richLinks: boolean;
+  advancedAnalytics: boolean;
+  customDomains: boolean;
+}
+
+// Boolean entitlements are features, numeric ones are usage limits
+export type PlanFeature = {
+  [K in keyof PlanEntitlements]: PlanEntitlements[K] extends boolean ? K : never
+}[keyof PlanEntitlements];
+
+export type PlanLimit = Exclude<keyof PlanEntitlements, PlanFeature>;
+
 export interface SubscriptionPlan {
   id: string;
   name: string;
   price: number;
   interval: 'month' | 'year';
   features: string[];
+  entitlements: PlanEntitlements;
   stripePriceId: string;
 }
 
+// Human-readable names used in PLAN_LIMIT_REACHED messages
+const ENTITLEMENT_LABELS: Record<keyof PlanEntitlements, string> = {
+  maxLinks: 'links',
+  maxBioPages: 'bio pages',
+  analyticsRetentionDays: 'days of analytics history',
+  premiumThemes: 'Premium themes',
+  customColors: 'Custom colors',
+  customThemes: 'Custom themes',
+  richLinks: 'Video, music and social embeds',
+  advancedAnalytics: 'Advanced analytics',
+  customDomains: 'Custom domains'
+};
+
 export class SubscriptionService {
   // Define subscription plans
   private readonly plans: SubscriptionPlan[] = [
@@ -30,6 +64,17 @@ export class SubscriptionService {
         '3 free themes',
         'Basic analytics'
       ],
+      entitlements: {
+        maxLinks: 5,
+        maxBioPages: 1,
+        analyticsRetentionDays: 30,
+        premiumThemes: false,
+        customColors: false,
+        customThemes: false,
+        richLinks: false,
+        advancedAnalytics: false,
+        customDomains: false
+      },
       stripePriceId: ''
     },
     {
@@ -39,12 +84,26 @@ export class SubscriptionService {
       interval: 'month',
       features: [
         'Unlimited links',
+        'Up to 10 bio pages',
         'All premium themes',
         'Custom colors',
+        'Custom theme builder',
+        'Video, music and social embeds',
         'Advanced analytics',
         'Custom domain support',
         'Priority support'
       ],
+      entitlements: {
+        maxLinks: null,
+        maxBioPages: 10,
+        analyticsRetentionDays: 365,
+        premiumThemes: true,
+        customColors: true,
+        customThemes: true,
+        richLinks: true,
+        advancedAnalytics: true,
+        customDomains: true
+      },
       stripePriceId: process.env['STRIPE_PRO_MONTHLY_PRICE_ID'] || 'price_pro_monthly'
     },
     {
@@ -54,13 +113,27 @@ export class SubscriptionService {
       interval: 'year',
       features: [
         'Unlimited links',
+        'Up to 10 bio pages',
         'All premium themes',
         'Custom colors',
+        'Custom theme builder',
+        'Video, music and social embeds',
         'Advanced analytics',
         'Custom domain support',
         'Priority support',
         '2 months free'
       ],
+      entitlements: {
+        maxLinks: null,
+        maxBioPages: 10,
+        analyticsRetentionDays: 365,
+        premiumThemes: true,
+        customColors: true,
+        customThemes: true,
+        richLinks: true,
+        advancedAnalytics: true,
+        customDomains: true
+      },
       stripePriceId: process.env['STRIPE_PRO_YEARLY_PRICE_ID'] || 'price_pro_yearly'
     }
   ];
@@ -305,22 +378,81 @@ export class SubscriptionService {
     });
   }
 
-  // Check if user has access to premium features
-  async hasFeatureAccess(userId: string, _feature: 'premium_themes' | 'custom_colors' | 'unlimited_links' | 'advanced_analytics'): Promise<boolean> {
+  // Resolve the plan a user is currently entitled to
+  async getUserPlan(userId: string): Promise<SubscriptionPlan> {
     const user = await prisma.user.findUnique({
-      where: { id: userId }
+      where: { id: userId },
+      include: {
+        // The newest live subscription; cancelled or lapsed rows don't grant their plan
+        subscriptions: {
+          where: { status: { in: ['active', 'trialing'] } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
     });
 
-    if (!user) {
-      return false;
+    const freePlan = this.getPlan('free') as SubscriptionPlan;
+
+    if (!user || user.subscriptionTier === 'free') {
+      return freePlan;
     }
 
-    // Free tier has limited access
-    if (user.subscriptionTier === 'free') {
-      return false;
+    const subscription = user.subscriptions[0];
+    return (subscription && this.getPlan(subscription.planId)) || this.getPlan('pro') || freePlan;
+  }
+
+  async getEntitlements(userId: string): Promise<PlanEntitlements> {
+    const plan = await this.getUserPlan(userId);
+    return plan.entitlements;
+  }
+
+  // Check if user's plan grants a feature
+  async hasFeatureAccess(userId: string, feature: PlanFeature): Promise<boolean> {
+    const entitlements = await this.getEntitlements(userId);
+    return entitlements[feature];
+  }
+
+  async assertFeatureAccess(userId: string, feature: PlanFeature): Promise<void> {
+    const plan = await this.getUserPlan(userId);
+
+    if (plan.entitlements[feature]) {
+      return;
+    }
+
+    const upgradePlan = this.plans.find(p => p.entitlements[feature]) || null;
+    const label = ENTITLEMENT_LABELS[feature];
+
+    throw new PlanLimitError(
+      upgradePlan
+        ? `${label} are not available on the ${plan.name} plan. Upgrade to ${upgradePlan.name} to unlock them.`
+        : `${label} are not available on the ${plan.name} plan.`,
+      feature,
+      upgradePlan?.id || null
+    );
+  }
+
+  // Throws if adding one more unit would exceed the plan's limit
+  async assertWithinLimit(userId: string, limit: PlanLimit, currentUsage: number): Promise<void> {
+    const plan = await this.getUserPlan(userId);
+    const max = plan.entitlements[limit];
+
+    if (max === null || currentUsage < max) {
+      return;
     }
 
-    // Pro tier has access to all features
-    return user.subscriptionTier === 'pro';
+    const upgradePlan = this.plans.find(p => {
+      const planMax = p.entitlements[limit];
+      return planMax === null || planMax > currentUsage;
+    }) || null;
+    const label = ENTITLEMENT_LABELS[limit];
+
+    throw new PlanLimitError(
+      upgradePlan
+        ? `The ${plan.name} plan is limited to ${max} ${label}. Upgrade to ${upgradePlan.name} for more.`
+        : `The ${plan.name} plan is limited to ${max} ${label}.`,
+      limit,
+      upgradePlan?.id || null
+    );
   }
 }
\ No newline at end of file
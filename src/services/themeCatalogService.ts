@@ -0,0 +1,358 @@
+import prisma from '../config/database';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { AccessibilityService } from './accessibilityService';
+import { sanitizeThemeCss } from '../utils/themeCss';
+import { parseSnapshot } from '../utils/pageSnapshot';
+import { buildPublicPage } from '../utils/publicPage';
+import { renderBioPage } from '../utils/bioPageHtml';
+import { withThemeVersion } from '../utils/themeVersions';
+import { THEME_COLOR_KEYS } from '../utils/validation';
+import { CatalogFilters, CatalogTheme, ThemeVersionSummary } from '../types';
+
+export const MAX_CATALOG_PAGE_SIZE = 50;
+
+const MAX_TAGS = 10;
+
+// IDs are part of page settings and exports, so they stay short and readable; "custom-" is taken by the theme builder
+const THEME_ID = /^[a-z0-9][a-z0-9-]{1,39}$/;
+const TAG = /^[a-z0-9][a-z0-9-]{0,19}$/;
+
+export interface CatalogThemeInput {
+  id?: unknown;
+  name?: unknown;
+  isPremium?: unknown;
+  previewImageUrl?: unknown;
+  cssTemplate?: unknown;
+  colorVariables?: unknown;
+  tags?: unknown;
+}
+
+type ThemeRow = {
+  id: string;
+  name: string;
+  isPremium: boolean;
+  previewImageUrl: string | null;
+  cssTemplate: string;
+  colorVariables: string;
+  tags: string;
+  version: number;
+  retiredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// The built-in themes: browsed by everyone, managed by admins. Custom themes live in ThemeService.
+export class ThemeCatalogService {
+  private accessibilityService = new AccessibilityService();
+
+  async listThemes(filters: CatalogFilters, page: number, limit: number): Promise<{ themes: CatalogTheme[]; total: number }> {
+    const where = {
+      ownerId: null,
+      ...(!filters.includeRetired && { retiredAt: null }),
+      ...(filters.tier && { isPremium: filters.tier === 'premium' }),
+      // Tags are stored as a JSON array, so each one is matched with its quotes
+      ...(filters.tags?.length && { AND: filters.tags.map(tag => ({ tags: { contains: JSON.stringify(tag) } })) })
+    };
+
+    const [themes, total] = await Promise.all([
+      prisma.theme.findMany({
+        where,
+        orderBy: [
+          { isPremium: 'asc' }, // Free themes first
+          { name: 'asc' }
+        ],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.theme.count({ where })
+    ]);
+
+    return { themes: themes.map(theme => this.formatTheme(theme)), total };
+  }
+
+  async createTheme(data: CatalogThemeInput): Promise<CatalogTheme> {
+    if (typeof data.id !== 'string' || !THEME_ID.test(data.id) || data.id.startsWith('custom-')) {
+      throw new ValidationError('Theme ID must be 2-40 lowercase letters, digits or hyphens, not starting with "custom-"', 'id');
+    }
+
+    if (await prisma.theme.findUnique({ where: { id: data.id } })) {
+      throw new ConflictError('A theme with this ID already exists', 'id');
+    }
+
+    const cssTemplate = this.validateCss(data.cssTemplate);
+    const colorVariables = this.validateColorVariables(data.colorVariables ?? THEME_COLOR_KEYS);
+
+    const theme = await prisma.theme.create({
+      data: {
+        id: data.id,
+        name: this.validateName(data.name),
+        isPremium: data.isPremium === true,
+        previewImageUrl: this.validatePreviewImageUrl(data.previewImageUrl ?? null),
+        cssTemplate,
+        colorVariables,
+        tags: this.validateTags(data.tags ?? []),
+        versions: { create: { version: 1, cssTemplate, colorVariables } }
+      }
+    });
+
+    return this.formatTheme(theme);
+  }
+
+  // Name, tier, tags and preview change in place; new styles are a new version that live pages only get when republished
+  async updateTheme(themeId: string, updates: CatalogThemeInput): Promise<CatalogTheme> {
+    const theme = await this.findCatalogTheme(themeId);
+
+    const cssTemplate = updates.cssTemplate !== undefined ? this.validateCss(updates.cssTemplate) : theme.cssTemplate;
+    const colorVariables = updates.colorVariables !== undefined
+      ? this.validateColorVariables(updates.colorVariables)
+      : theme.colorVariables;
+    const changed = cssTemplate !== theme.cssTemplate || colorVariables !== theme.colorVariables;
+    const version = changed ? theme.version + 1 : theme.version;
+
+    const updated = await prisma.theme.update({
+      where: { id: theme.id },
+      data: {
+        ...(updates.name !== undefined && { name: this.validateName(updates.name) }),
+        ...(updates.isPremium !== undefined && { isPremium: updates.isPremium === true }),
+        ...(updates.previewImageUrl !== undefined && { previewImageUrl: this.validatePreviewImageUrl(updates.previewImageUrl) }),
+        ...(updates.tags !== undefined && { tags: this.validateTags(updates.tags) }),
+        ...(changed && {
+          cssTemplate,
+          colorVariables,
+          version,
+          versions: { create: { version, cssTemplate, colorVariables } }
+        })
+      }
+    });
+
+    return this.formatTheme(updated);
+  }
+
+  async listVersions(themeId: string): Promise<ThemeVersionSummary[]> {
+    const theme = await this.findCatalogTheme(themeId);
+
+    const [versions, pageCounts] = await Promise.all([
+      prisma.themeVersion.findMany({
+        where: { themeId: theme.id },
+        orderBy: { version: 'desc' }
+      }),
+      this.countLivePagesByVersion(theme.id)
+    ]);
+
+    return versions.map(version => ({
+      version: version.version,
+      cssTemplate: version.cssTemplate,
+      colorVariables: this.parseList(version.colorVariables),
+      pageCount: pageCounts.get(version.version) || 0,
+      createdAt: version.createdAt
+    }));
+  }
+
+  // A sample page in one version of the theme (the latest by default), as visitors would see it
+  async previewTheme(themeId: string, version?: number): Promise<string> {
+    const theme = await this.findCatalogTheme(themeId);
+
+    if (version !== undefined && !(await prisma.themeVersion.findUnique({ where: { themeId_version: { themeId: theme.id, version } } }))) {
+      throw new NotFoundError('Theme version not found');
+    }
+
+    const styled = version !== undefined ? await withThemeVersion(theme, version) : theme;
+    const now = new Date();
+    const link = (id: string, title: string, url: string, orderIndex: number) => ({
+      id,
+      bioPageId: 'theme-preview',
+      kind: 'link',
+      type: 'url',
+      parentId: null,
+      title,
+      url,
+      iconName: 'globe',
+      isActive: true,
+      isCollapsed: false,
+      orderIndex,
+      activeFrom: null,
+      activeUntil: null,
+      gateType: null,
+      gatePasswordHash: null,
+      outboundParams: null,
+      variants: []
+    });
+
+    const { data } = buildPublicPage({
+      id: 'theme-preview',
+      userId: 'theme-preview',
+      slug: 'home',
+      isPrimary: true,
+      isPublished: true,
+      themeId: theme.id,
+      customColors: null,
+      outboundParams: null,
+      createdAt: now,
+      updatedAt: now,
+      user: {
+        id: 'theme-preview',
+        username: 'preview',
+        profileName: 'Alex Morgan',
+        profileBio: `A preview of ${theme.name}`,
+        profileImageUrl: null
+      },
+      theme: styled,
+      links: [
+        link('preview-1', 'My Portfolio', 'https://example.com', 1),
+        link('preview-2', 'Latest Video', 'https://example.com/video', 2),
+        link('preview-3', 'Newsletter', 'https://example.com/newsletter', 3)
+      ]
+    }, 'theme-preview');
+
+    return renderBioPage(data, {
+      origin: process.env['APP_URL'] || 'http://localhost:3000',
+      path: '/preview',
+      shareImagePath: theme.previewImageUrl || ''
+    }, { preview: true });
+  }
+
+  // Hidden from the catalog and can't be chosen anymore; pages already using it keep it
+  async retireTheme(themeId: string): Promise<CatalogTheme> {
+    const theme = await this.findCatalogTheme(themeId);
+
+    if (theme.id === 'default') {
+      throw new ValidationError('The default theme can\'t be retired', 'id');
+    }
+
+    const updated = await prisma.theme.update({
+      where: { id: theme.id },
+      data: { retiredAt: theme.retiredAt || new Date() }
+    });
+
+    return this.formatTheme(updated);
+  }
+
+  async reinstateTheme(themeId: string): Promise<CatalogTheme> {
+    const theme = await this.findCatalogTheme(themeId);
+
+    const updated = await prisma.theme.update({
+      where: { id: theme.id },
+      data: { retiredAt: null }
+    });
+
+    return this.formatTheme(updated);
+  }
+
+  private async findCatalogTheme(themeId: string) {
+    const theme = await prisma.theme.findFirst({
+      where: { id: themeId, ownerId: null }
+    });
+
+    if (!theme) {
+      throw new NotFoundError('Theme not found');
+    }
+
+    return theme;
+  }
+
+  // Live revisions name their theme and version; only those that mention this theme are read
+  private async countLivePagesByVersion(themeId: string): Promise<Map<number, number>> {
+    const revisions = await prisma.bioPageRevision.findMany({
+      where: {
+        livePage: { isNot: null },
+        snapshot: { contains: `"themeId":${JSON.stringify(themeId)}` }
+      },
+      select: { snapshot: true }
+    });
+
+    const counts = new Map<number, number>();
+
+    for (const revision of revisions) {
+      const live = parseSnapshot(revision.snapshot);
+      if (live.themeId === themeId) {
+        counts.set(live.themeVersion, (counts.get(live.themeVersion) || 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ValidationError('Theme name is required', 'name');
+    }
+
+    if (name.trim().length > 50) {
+      throw new ValidationError('Theme name must be at most 50 characters', 'name');
+    }
+
+    return name.trim();
+  }
+
+  // Built-in themes go through the same sanitizer as custom ones, and must keep their text readable
+  private validateCss(css: unknown): string {
+    if (typeof css !== 'string' || !css.trim()) {
+      throw new ValidationError('cssTemplate is required', 'cssTemplate');
+    }
+
+    const cssTemplate = sanitizeThemeCss(css);
+    const unreadable = this.accessibilityService.checkTheme(cssTemplate).find(check => check.level === 'fail');
+
+    if (unreadable) {
+      throw new ValidationError(
+        `Text in ${unreadable.foregroundColor} on ${unreadable.backgroundColor} has a contrast ratio of ${unreadable.ratio}:1; try ${unreadable.suggestion}`,
+        'cssTemplate'
+      );
+    }
+
+    return cssTemplate;
+  }
+
+  private validateColorVariables(colorVariables: unknown): string {
+    if (!Array.isArray(colorVariables) || colorVariables.some(key => !THEME_COLOR_KEYS.includes(key))) {
+      throw new ValidationError(`colorVariables must be a list of ${THEME_COLOR_KEYS.join(', ')}`, 'colorVariables');
+    }
+
+    return JSON.stringify(Array.from(new Set(colorVariables)));
+  }
+
+  private validateTags(tags: unknown): string {
+    if (!Array.isArray(tags) || tags.length > MAX_TAGS || tags.some(tag => typeof tag !== 'string' || !TAG.test(tag))) {
+      throw new ValidationError(`tags must be up to ${MAX_TAGS} lowercase words such as "dark" or "high-contrast"`, 'tags');
+    }
+
+    return JSON.stringify(Array.from(new Set(tags)));
+  }
+
+  private validatePreviewImageUrl(url: unknown): string | null {
+    if (url === null || url === '') {
+      return null;
+    }
+
+    if (typeof url !== 'string' || !/^(\/[^/]|https:\/\/)/.test(url)) {
+      throw new ValidationError('previewImageUrl must be a path or an https URL', 'previewImageUrl');
+    }
+
+    return url;
+  }
+
+  private parseList(json: string): string[] {
+    try {
+      const list = JSON.parse(json);
+      return Array.isArray(list) ? list : [];
+    } catch (error) {
+      console.error('Failed to parse theme list:', error);
+      return [];
+    }
+  }
+
+  private formatTheme(theme: ThemeRow): CatalogTheme {
+    return {
+      id: theme.id,
+      name: theme.name,
+      isPremium: theme.isPremium,
+      previewImageUrl: theme.previewImageUrl,
+      colorVariables: this.parseList(theme.colorVariables),
+      tags: this.parseList(theme.tags),
+      version: theme.version,
+      retiredAt: theme.retiredAt,
+      createdAt: theme.createdAt,
+      updatedAt: theme.updatedAt
+    };
+  }
+}
\ No newline at end of file
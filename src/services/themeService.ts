@@ -0,0 +1,207 @@
+import prisma from '../config/database';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { SubscriptionService } from './subscriptionService';
+import { BioPageService } from './bioPageService';
+import { generateSecureToken } from '../utils/crypto';
+import { buildThemeCss, normalizeThemeSettings, sanitizeThemeCss, DEFAULT_THEME_SETTINGS } from '../utils/themeCss';
+import { BioPage, CustomTheme, ThemeSettings } from '../types';
+
+const MAX_CUSTOM_THEMES = 20;
+
+// Custom themes offer the same color variables as the built-in ones
+const COLOR_VARIABLES = JSON.stringify(['primary', 'secondary', 'background', 'text']);
+
+export class ThemeService {
+  private subscriptionService = new SubscriptionService();
+  private bioPageService = new BioPageService();
+
+  async listCustomThemes(userId: string): Promise<CustomTheme[]> {
+    const themes = await prisma.theme.findMany({
+      where: { ownerId: userId },
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { bioPages: true } } }
+    });
+
+    return themes.map(theme => this.formatTheme(theme));
+  }
+
+  async createTheme(userId: string, data: { name: unknown; settings?: unknown; customCss?: unknown }): Promise<CustomTheme> {
+    await this.subscriptionService.assertFeatureAccess(userId, 'customThemes');
+    await this.assertRoomForTheme(userId);
+
+    const name = this.validateName(data.name);
+    const settings = normalizeThemeSettings(data.settings);
+    const customCss = this.sanitizeCustomCss(data.customCss);
+
+    return this.insertTheme(userId, name, settings, customCss);
+  }
+
+  async updateTheme(userId: string, themeId: string, updates: { name?: unknown; settings?: unknown; customCss?: unknown }): Promise<CustomTheme> {
+    await this.subscriptionService.assertFeatureAccess(userId, 'customThemes');
+
+    const theme = await this.findOwnedTheme(userId, themeId);
+    const name = updates.name !== undefined ? this.validateName(updates.name) : theme.name;
+
+    // Settings are replaced as a whole, filled in with defaults like a new theme
+    const settings = updates.settings !== undefined ? normalizeThemeSettings(updates.settings) : this.parseSettings(theme.settings);
+    const customCss = updates.customCss !== undefined ? this.sanitizeCustomCss(updates.customCss) : theme.customCss;
+    const cssTemplate = buildThemeCss(settings, customCss);
+
+    // New styles are a new version, which pages pick up when they're next published
+    const version = cssTemplate !== theme.cssTemplate ? theme.version + 1 : theme.version;
+
+    const updated = await prisma.theme.update({
+      where: { id: theme.id },
+      data: {
+        name,
+        settings: JSON.stringify(settings),
+        customCss,
+        cssTemplate,
+        ...(version !== theme.version && {
+          version,
+          versions: { create: { version, cssTemplate, colorVariables: theme.colorVariables } }
+        })
+      },
+      include: { _count: { select: { bioPages: true } } }
+    });
+
+    return this.formatTheme(updated);
+  }
+
+  // Copy one of the account's themes, or start from a built-in one (its CSS becomes the custom CSS)
+  async duplicateTheme(userId: string, themeId: string, name?: unknown): Promise<CustomTheme> {
+    await this.subscriptionService.assertFeatureAccess(userId, 'customThemes');
+
+    const source = await prisma.theme.findUnique({ where: { id: themeId } });
+
+    if (!source || (source.ownerId && source.ownerId !== userId)) {
+      throw new NotFoundError('Theme not found');
+    }
+
+    if (source.isPremium) {
+      await this.subscriptionService.assertFeatureAccess(userId, 'premiumThemes');
+    }
+
+    await this.assertRoomForTheme(userId);
+
+    const copyName = name !== undefined ? this.validateName(name) : this.validateName(`${source.name} (copy)`.slice(0, 50));
+
+    return source.ownerId
+      ? this.insertTheme(userId, copyName, this.parseSettings(source.settings), source.customCss)
+      : this.insertTheme(userId, copyName, DEFAULT_THEME_SETTINGS, sanitizeThemeCss(source.cssTemplate) || null);
+  }
+
+  async deleteTheme(userId: string, themeId: string): Promise<void> {
+    const theme = await this.findOwnedTheme(userId, themeId);
+
+    if (theme._count.bioPages > 0) {
+      throw new ConflictError('This theme is used by one of your pages. Choose another theme for it first.', 'themeId');
+    }
+
+    await prisma.theme.delete({ where: { id: theme.id } });
+  }
+
+  // Set as the theme of a page's draft; it goes live when the page is published
+  async applyTheme(userId: string, themeId: string, pageId?: string): Promise<BioPage> {
+    await this.findOwnedTheme(userId, themeId);
+    return this.bioPageService.updateBioPage(userId, { themeId }, pageId);
+  }
+
+  private async insertTheme(userId: string, name: string, settings: ThemeSettings, customCss: string | null): Promise<CustomTheme> {
+    const cssTemplate = buildThemeCss(settings, customCss);
+
+    const theme = await prisma.theme.create({
+      data: {
+        id: `custom-${generateSecureToken(8)}`,
+        name,
+        ownerId: userId,
+        settings: JSON.stringify(settings),
+        customCss,
+        cssTemplate,
+        colorVariables: COLOR_VARIABLES,
+        versions: { create: { version: 1, cssTemplate, colorVariables: COLOR_VARIABLES } }
+      },
+      include: { _count: { select: { bioPages: true } } }
+    });
+
+    return this.formatTheme(theme);
+  }
+
+  private async findOwnedTheme(userId: string, themeId: string) {
+    const theme = await prisma.theme.findFirst({
+      where: { id: themeId, ownerId: userId },
+      include: { _count: { select: { bioPages: true } } }
+    });
+
+    if (!theme) {
+      throw new NotFoundError('Theme not found');
+    }
+
+    return theme;
+  }
+
+  private async assertRoomForTheme(userId: string): Promise<void> {
+    const count = await prisma.theme.count({ where: { ownerId: userId } });
+
+    if (count >= MAX_CUSTOM_THEMES) {
+      throw new ValidationError(`You can have up to ${MAX_CUSTOM_THEMES} custom themes`);
+    }
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ValidationError('Theme name is required', 'name');
+    }
+
+    if (name.trim().length > 50) {
+      throw new ValidationError('Theme name must be at most 50 characters', 'name');
+    }
+
+    return name.trim();
+  }
+
+  private sanitizeCustomCss(customCss: unknown): string | null {
+    if (customCss === null || customCss === '') {
+      return null;
+    }
+
+    return sanitizeThemeCss(customCss as string) || null;
+  }
+
+  private parseSettings(settings: string | null): ThemeSettings {
+    if (!settings) {
+      return DEFAULT_THEME_SETTINGS;
+    }
+
+    try {
+      return normalizeThemeSettings(JSON.parse(settings));
+    } catch (error) {
+      console.error('Failed to parse theme settings:', error);
+      return DEFAULT_THEME_SETTINGS;
+    }
+  }
+
+  private formatTheme(theme: {
+    id: string;
+    name: string;
+    settings: string | null;
+    customCss: string | null;
+    cssTemplate: string;
+    version: number;
+    createdAt: Date;
+    updatedAt: Date;
+    _count: { bioPages: number };
+  }): CustomTheme {
+    return {
+      id: theme.id,
+      name: theme.name,
+      settings: this.parseSettings(theme.settings),
+      customCss: theme.customCss,
+      cssTemplate: theme.cssTemplate,
+      version: theme.version,
+      pageCount: theme._count.bioPages,
+      createdAt: theme.createdAt,
+      updatedAt: theme.updatedAt
+    };
+  }
+}
\ No newline at end of file
@@ -2,9 +2,14 @@ import prisma from '../config/database';
 import { hashPassword, comparePassword, generateJWT, generateSecureToken } from '../utils/crypto';
 import { validateEmail, validatePassword, validateUsername } from '../utils/validation';
 import { ValidationError, ConflictError, AuthenticationError } from '../utils/errors';
-import { User, AuthResult, UserRegistration, UserLogin } from '../types';
+import { getStorage } from '../utils/storage';
+import { avatarVariantKey, processAvatar, AVATAR_CONTENT_TYPE, AVATAR_SIZES } from '../utils/avatar';
+import { User, AuthResult, Avatar, UserRegistration, UserLogin } from '../types';
+import { OgImageService } from './ogImageService';
 
 export class UserService {
+  private ogImageService = new OgImageService();
+
   async register(data: UserRegistration): Promise<AuthResult> {
     const { email, password } = data;
 
@@ -147,9 +152,106 @@ export class UserService {
       throw new ValidationError('Profile bio must be less than 500 characters', 'profileBio');
     }
 
+    // A pasted image URL replaces an uploaded avatar; sending the current URL back (e.g. with the rest of the profile) keeps it
+    const previous = updates.profileImageUrl !== undefined
+      ? await prisma.user.findUnique({ where: { id: userId }, select: { avatarKey: true, profileImageUrl: true } })
+      : null;
+    const replacedAvatarKey = previous?.avatarKey && previous.profileImageUrl !== updates.profileImageUrl
+      ? previous.avatarKey
+      : null;
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...updates,
+        ...(replacedAvatarKey && { avatarKey: null })
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        profileName: true,
+        profileBio: true,
+        profileImageUrl: true,
+        subscriptionTier: true,
+        emailVerified: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    });
+
+    if (replacedAvatarKey) {
+      await this.deleteAvatarFiles(replacedAvatarKey);
+    }
+
+    // Share images show the profile
+    this.ogImageService.refreshForUser(userId);
+
+    return user as User;
+  }
+
+  // Store the image's variants and make the largest the profile image; the previous upload's files are removed
+  async uploadAvatar(userId: string, file: Buffer): Promise<{ user: User; avatar: Avatar }> {
+    const variants = await processAvatar(file);
+    const storage = getStorage();
+
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarKey: true }
+    });
+
+    // A fresh key per upload, so cached copies of the old avatar are never served for the new one
+    const avatarKey = `avatars/${userId}/${generateSecureToken(8)}`;
+
+    let user: User;
+    try {
+      for (const variant of variants) {
+        await storage.put(avatarVariantKey(avatarKey, variant.size), variant.data, AVATAR_CONTENT_TYPE);
+      }
+
+      user = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          profileImageUrl: storage.url(avatarVariantKey(avatarKey, AVATAR_SIZES[0])),
+          avatarKey
+        },
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          profileName: true,
+          profileBio: true,
+          profileImageUrl: true,
+          subscriptionTier: true,
+          emailVerified: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      }) as User;
+    } catch (error) {
+      await this.deleteAvatarFiles(avatarKey);
+      throw error;
+    }
+
+    if (previous?.avatarKey) {
+      await this.deleteAvatarFiles(previous.avatarKey);
+    }
+
+    // Share images show the avatar
+    this.ogImageService.refreshForUser(userId);
+
+    return { user, avatar: this.formatAvatar(avatarKey) };
+  }
+
+  async removeAvatar(userId: string): Promise<User> {
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarKey: true }
+    });
+
     const user = await prisma.user.update({
       where: { id: userId },
-      data: updates,
+      data: { profileImageUrl: null, avatarKey: null },
       select: {
         id: true,
         email: true,
@@ -164,6 +266,13 @@ export class UserService {
       }
     });
 
+    if (previous?.avatarKey) {
+      await this.deleteAvatarFiles(previous.avatarKey);
+    }
+
+    // Share images show the avatar
+    this.ogImageService.refreshForUser(userId);
+
     return user as User;
   }
 
@@ -201,6 +310,9 @@ export class UserService {
       }
     });
 
+    // Share images show the username
+    this.ogImageService.refreshForUser(userId);
+
     return user as User;
   }
 
@@ -289,4 +401,22 @@ export class UserService {
       }
     });
   }
+
+  private formatAvatar(avatarKey: string): Avatar {
+    const storage = getStorage();
+
+    return {
+      url: storage.url(avatarVariantKey(avatarKey, AVATAR_SIZES[0])),
+      variants: Object.fromEntries(AVATAR_SIZES.map(size => [size, storage.url(avatarVariantKey(avatarKey, size))]))
+    };
+  }
+
+  // Leftover files only cost storage, so failures are logged rather than thrown
+  private async deleteAvatarFiles(avatarKey: string): Promise<void> {
+    const storage = getStorage();
+
+    await Promise.all(AVATAR_SIZES.map(size => storage.delete(avatarVariantKey(avatarKey, size)).catch(error => {
+      console.error('Failed to delete avatar file:', error);
+    })));
+  }
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     username: string | null;
     subscriptionTier: 'free' | 'premium';
+    isAdmin: boolean;
   };
 }
 
@@ -23,6 +24,12 @@ export interface User {
   updatedAt: Date;
 }
 
+// Uploaded profile image; url is the largest variant, which is also the profileImageUrl
+export interface Avatar {
+  url: string;
+  variants: Record<number, string>; // square size in pixels -> URL
+}
+
 export interface UserRegistration {
   email: string;
   password: string;
@@ -42,6 +49,9 @@ export interface AuthResult {
 export interface BioPage {
   id: string;
   userId: string;
+  slug: string;
+  isPrimary: boolean;
+  path: string; // public URL path, e.g. /jane or /jane/podcast
   username: string;
   profileName: string;
   profileBio: string;
@@ -49,20 +59,207 @@ export interface BioPage {
   themeId: string;
   customColors: ThemeColors | null;
   links: LinkItem[];
+  blocks: LinkBlock[];
   isPublished: boolean;
+  outboundParams: string | null;
+  liveRevision: number | null;
+  hasUnpublishedChanges: boolean;
+  customDomain: CustomDomain | null;
+  contrastWarnings: ContrastCheck[]; // custom color pairs that are hard to read
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One of an account's pages, as listed by GET /api/bio-page/pages
+export interface BioPageSummary {
+  id: string;
+  slug: string;
+  isPrimary: boolean;
+  isPublished: boolean;
+  path: string;
+  themeId: string;
+  linkCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type LinkKind = 'link' | 'header' | 'divider' | 'group';
+
+export type LinkType = 'url' | 'youtube' | 'spotify' | 'soundcloud' | 'tweet' | 'email';
+
+export type LinkGateType = 'password' | 'sensitive';
+
+export type LinkHealthStatus = 'unknown' | 'ok' | 'broken';
+
+export interface LinkEmbed {
+  provider: 'youtube' | 'spotify' | 'soundcloud' | 'twitter';
+  embedUrl: string;
+  thumbnailUrl: string | null;
+  aspectRatio?: string;
+  height?: number;
+}
+
 export interface LinkItem {
   id: string;
+  kind: LinkKind;
+  type: LinkType;
+  parentId: string | null;
   title: string;
   url: string;
+  embed: LinkEmbed | null;
   iconName: string | null;
   isActive: boolean;
+  isCollapsed: boolean;
+  order: number;
+  activeFrom: Date | null;
+  activeUntil: Date | null;
+  gateType: LinkGateType | null;
+  healthStatus: LinkHealthStatus;
+  healthCheckedAt: Date | null;
+  outboundParams: string | null;
+  variants: LinkVariant[];
+}
+
+// One run of the background checker against a link's destination
+export interface LinkHealthCheck {
+  id: string;
+  url: string;
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  responseTimeMs: number;
+  checkedAt: Date;
+}
+
+// A/B variant of a link; null title or URL falls back to the link's own
+export interface LinkVariant {
+  id: string;
+  title: string | null;
+  url: string | null;
+  weight: number;
+}
+
+// Targeted redirect for a link, e.g. iOS visitors to the App Store
+export interface LinkRule {
+  id: string;
+  conditionType: 'os' | 'device' | 'country';
+  conditionValue: string;
+  targetUrl: string;
   order: number;
 }
 
+// Short URL (/s/:slug) for a bio page (linkId null) or one of its links
+export interface ShortLink {
+  slug: string;
+  linkId: string | null;
+  isCustom: boolean;
+  path: string;
+}
+
+// A domain connected to a bio page; it serves the page once the TXT record is verified
+export interface CustomDomain {
+  hostname: string;
+  status: 'pending' | 'verified' | 'failed';
+  verificationRecord: {
+    type: 'TXT';
+    name: string;
+    value: string;
+  };
+  verifiedAt: Date | null;
+  lastCheckedAt: Date | null;
+  lastError: string | null;
+}
+
+// Versioned JSON export of a bio page (GET /api/bio-page/export)
+export interface BioPageExport {
+  version: number;
+  exportedAt: string;
+  bioPage: {
+    themeId: string;
+    customColors: ThemeColors | null;
+  };
+  links: ExportedLink[];
+}
+
+export interface ExportedLink {
+  kind: LinkKind;
+  type: LinkType;
+  title: string;
+  url: string;
+  iconName: string | null;
+  isActive: boolean;
+  activeFrom: string | null;
+  activeUntil: string | null;
+  children?: ExportedLink[];
+}
+
+// A problem with one imported row; row is null for page-wide problems such as plan limits
+export interface ImportRowError {
+  row: number | null;
+  field: string;
+  message: string;
+}
+
+export type ImportMode = 'append' | 'replace';
+
+export interface ImportResult {
+  dryRun: boolean;
+  valid: boolean;
+  mode: ImportMode;
+  summary: {
+    rows: number;
+    links: number;
+    existingLinks: number;
+    resultingLinks: number;
+  };
+  errors: ImportRowError[];
+  bioPage?: BioPage;
+}
+
+// A published version of a bio page (GET /api/bio-page/revisions)
+export interface BioPageRevision {
+  id: string;
+  number: number;
+  isLive: boolean;
+  restoredFrom: number | null; // set when the revision was published by a rollback
+  linkCount: number;
+  publishedAt: Date;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevisionLinkRef {
+  id: string;
+  kind: LinkKind;
+  title: string;
+}
+
+// What changes going from one version of a page to another
+export interface RevisionDiff {
+  hasChanges: boolean;
+  settings: RevisionFieldChange[];
+  added: RevisionLinkRef[];
+  removed: RevisionLinkRef[];
+  changed: Array<RevisionLinkRef & { changes: RevisionFieldChange[] }>;
+  reordered: boolean;
+}
+
+// The draft compared with what visitors currently see
+export interface DraftStatus {
+  liveRevision: number | null;
+  hasUnpublishedChanges: boolean;
+  diff: RevisionDiff;
+}
+
+// Top-level block on a bio page; groups carry their nested links
+export interface LinkBlock extends LinkItem {
+  children: LinkItem[];
+}
+
 export interface BioPageUpdate {
   profileName?: string;
   profileBio?: string;
@@ -70,6 +267,10 @@ export interface BioPageUpdate {
   themeId?: string;
   customColors?: ThemeColors | null;
   isPublished?: boolean;
+  slug?: string;
+  isPrimary?: boolean; // only true is accepted: it makes this the primary page
+  outboundParams?: string | null;
+  linkOutboundParams?: Record<string, string | null>; // keyed by link ID
 }
 
 // Theme types
@@ -89,6 +290,74 @@ export interface ThemeColors {
   text: string;
 }
 
+// WCAG contrast of one foreground/background pair; "fail" is below 3:1, "warn" below 4.5:1
+export interface ContrastCheck {
+  foreground: string; // which color, e.g. "text"
+  background: string; // e.g. "background" or "primary"
+  foregroundColor: string;
+  backgroundColor: string;
+  ratio: number; // rounded to two decimals
+  level: 'pass' | 'warn' | 'fail';
+  suggestion: string | null; // nearest foreground color that passes, when this pair doesn't
+}
+
+export type ThemeBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number }
+  | { type: 'image'; url: string; color: string }; // color shows while the image loads
+
+// What the theme builder edits; compiled into the theme's CSS
+export interface ThemeSettings {
+  font: string; // key of THEME_FONTS
+  buttonShape: string; // key of BUTTON_SHAPES
+  buttonStyle: string; // solid, outline or glass
+  background: ThemeBackground;
+  textColor: string;
+  buttonColor: string;
+  buttonTextColor: string;
+}
+
+// A theme an account built for its own pages
+export interface CustomTheme {
+  id: string;
+  name: string;
+  settings: ThemeSettings;
+  customCss: string | null;
+  cssTemplate: string;
+  version: number;
+  pageCount: number; // pages whose draft uses it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A built-in theme in the catalog everyone chooses from
+export interface CatalogTheme {
+  id: string;
+  name: string;
+  isPremium: boolean;
+  previewImageUrl: string | null;
+  colorVariables: string[];
+  tags: string[];
+  version: number;
+  retiredAt: Date | null; // retired themes are only listed to admins
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CatalogFilters {
+  tier?: 'free' | 'premium';
+  tags?: string[]; // themes with all of these tags
+  includeRetired?: boolean;
+}
+
+export interface ThemeVersionSummary {
+  version: number;
+  cssTemplate: string;
+  colorVariables: string[];
+  pageCount: number; // pages whose live revision uses this version
+  createdAt: Date;
+}
+
 // Analytics types
 export interface VisitorInfo {
   ipHash: string;
@@ -111,10 +380,29 @@ export interface DailyStats {
 }
 
 export interface ReferrerStats {
-  referrer: string;
+  referrer: string; // canonical source, e.g. "Instagram" or "example.com"
   count: number;
 }
 
+export interface ChannelStats {
+  channel: string; // 'social', 'search', 'email', 'direct', 'other', or 'unknown' for views recorded before channels were
+  views: number;
+  share: number; // of page views, 0 to 1
+}
+
+export interface CampaignStats {
+  campaign: string; // utm_campaign
+  source: string | null; // utm_source
+  medium: string | null; // utm_medium
+  views: number;
+}
+
+export interface TrafficSources {
+  topSources: ReferrerStats[];
+  channels: ChannelStats[];
+  campaigns: CampaignStats[];
+}
+
 export interface LinkStats {
   linkId: string;
   title: string;
@@ -151,6 +439,9 @@ export interface ApiResponse<T = any> {
     code: string;
     message: string;
     field?: string;
+    limit?: string;
+    requiredPlan?: string | null;
+    gateType?: string;
   };
 }
 
@@ -0,0 +1,59 @@
+import sharp from 'sharp';
+import { ValidationError } from './errors';
+
+// Square variants, largest first; the largest is the profile image, the others suit thumbnails
+export const AVATAR_SIZES = [400, 200, 64] as const;
+
+export type AvatarSize = typeof AVATAR_SIZES[number];
+
+export const AVATAR_CONTENT_TYPE = 'image/webp';
+
+// Formats accepted for upload, as reported by sharp (which reads the file, not its claimed type)
+const AVATAR_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Decompression bombs are rejected before they're decoded
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export const DEFAULT_MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+
+export const maxAvatarBytes = (): number => {
+  return parseInt(process.env['UPLOAD_MAX_SIZE'] || '') || DEFAULT_MAX_AVATAR_BYTES;
+};
+
+export const allowedAvatarTypes = (): string[] => {
+  return (process.env['ALLOWED_FILE_TYPES'] || 'image/jpeg,image/png,image/webp')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean);
+};
+
+// Storage key of one variant, e.g. avatars/<userId>/<id>-200.webp
+export const avatarVariantKey = (avatarKey: string, size: AvatarSize): string => `${avatarKey}-${size}.webp`;
+
+// Crop to a centred square and resize to every variant. Orientation from EXIF is applied first;
+// the output carries no metadata, so location and camera details never reach the public page.
+export const processAvatar = async (input: Buffer): Promise<Array<{ size: AvatarSize; data: Buffer }>> => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new ValidationError('The file is not a readable image', 'avatar');
+  }
+
+  if (!metadata.format || !AVATAR_FORMATS.includes(metadata.format)) {
+    throw new ValidationError(`Avatar must be one of: ${AVATAR_FORMATS.join(', ')}`, 'avatar');
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new ValidationError('The file is not a readable image', 'avatar');
+  }
+
+  return Promise.all(AVATAR_SIZES.map(async size => ({
+    size,
+    data: await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size, size, { fit: 'cover', position: 'centre' })
+      .webp({ quality: 85 })
+      .toBuffer()
+  })));
+};
\ No newline at end of file
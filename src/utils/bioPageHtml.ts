@@ -0,0 +1,250 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { THEME_COLOR_KEYS, validateHexColor } from './validation';
+import { PublicPageData } from './publicPage';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from './ogImage';
+import { LinkEmbed } from '../types';
+
+// Where the page is served, for canonical and Open Graph URLs
+export interface BioPageUrls {
+  origin: string;
+  path: string;
+  shareImagePath: string;
+}
+
+interface RenderedLink {
+  id: string;
+  kind: string;
+  title: string;
+  url: string;
+  iconName: string | null;
+  isCollapsed: boolean;
+  gateType: string | null;
+  embed: LinkEmbed | null;
+}
+
+type RenderedBlock = RenderedLink & { children: RenderedLink[] };
+
+const ICONS: Record<string, string> = {
+  globe: '🌐',
+  github: '🐙',
+  twitter: '🐦',
+  instagram: '📷',
+  linkedin: '💼',
+  youtube: '📺',
+  facebook: '📘',
+  email: '📧',
+  spotify: '🎵',
+  soundcloud: '🎧',
+  phone: '📞',
+  link: '🔗'
+};
+
+const THEME_BACKGROUNDS: Record<string, string> = {
+  dark: 'from-gray-900 to-black',
+  minimal: 'from-gray-100 to-gray-300',
+  glass: 'from-blue-400 via-purple-500 to-pink-500',
+  'gradient-pro': 'from-orange-400 via-red-500 to-pink-500'
+};
+
+// Themes with a light background get dark text
+const LIGHT_THEMES = ['minimal', 'gradient-pro'];
+
+// Search engines show about this much of a description
+const DESCRIPTION_LENGTH = 160;
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Theme CSS can't close its <style> element
+const escapeStyle = (css: string): string => css.replace(/</g, '\\3C ');
+
+// Nor can JSON-LD close its <script> element
+const escapeScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const truncate = (text: string, length: number): string => {
+  return text.length <= length ? text : `${text.slice(0, length - 1).trimEnd()}…`;
+};
+
+// Profile images may be uploads on this server; unfurlers need absolute URLs
+const absolute = (url: string, origin: string): string | null => {
+  try {
+    return new URL(url, origin).toString();
+  } catch {
+    return null;
+  }
+};
+
+const isWebUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+const renderThemeStyles = (data: PublicPageData): string => {
+  const rules = [escapeStyle(data.theme.cssTemplate)];
+  const colors = data.bioPage.customColors as Record<string, unknown> | null;
+
+  if (colors && typeof colors === 'object') {
+    const valid = THEME_COLOR_KEYS.filter(key => typeof colors[key] === 'string' && validateHexColor(colors[key] as string));
+
+    if (valid.length > 0) {
+      rules.push(`.bio-page { ${valid.map(key => `--color-${key}: ${colors[key]};`).join(' ')} }`);
+      if (valid.includes('background')) rules.push('body.bio-page { background: var(--color-background); }');
+      if (valid.includes('text')) rules.push('body.bio-page, body.bio-page .theme-text { color: var(--color-text); }');
+      if (valid.includes('primary')) rules.push('body.bio-page .bio-link { border-color: var(--color-primary); }');
+    }
+  }
+
+  return rules.join('\n');
+};
+
+const renderHead = (data: PublicPageData, urls: BioPageUrls, preview: boolean): string => {
+  const { user } = data;
+  const name = user.profileName || `@${user.username}`;
+  const title = `${name} - LinkHub`;
+  const description = truncate(user.profileBio || `Links from ${name} on LinkHub`, DESCRIPTION_LENGTH);
+  const url = `${urls.origin}${urls.path}`;
+  const image = user.profileImageUrl ? absolute(user.profileImageUrl, urls.origin) : null;
+  const shareImage = `${urls.origin}${urls.shareImagePath}`;
+
+  const sameAs = data.bioPage.links
+    .filter(link => !link.gateType && isWebUrl(link.url))
+    .map(link => link.url);
+
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    url,
+    dateModified: new Date(data.bioPage.updatedAt).toISOString(),
+    mainEntity: {
+      '@type': 'Person',
+      name: user.profileName || user.username,
+      alternateName: `@${user.username}`,
+      url,
+      ...(user.profileBio && { description: user.profileBio }),
+      ...(image && { image }),
+      ...(sameAs.length > 0 && { sameAs })
+    }
+  };
+
+  const meta = (attribute: 'name' | 'property', key: string, content: string) =>
+    `    <meta ${attribute}="${key}" content="${escapeHtml(content)}">`;
+
+  return [
+    `    <title>${escapeHtml(title)}</title>`,
+    meta('name', 'description', description),
+    // Drafts stay out of search results
+    ...(preview ? [meta('name', 'robots', 'noindex')] : []),
+    `    <link rel="canonical" href="${escapeHtml(url)}">`,
+    meta('property', 'og:type', 'profile'),
+    meta('property', 'og:site_name', 'LinkHub'),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', description),
+    meta('property', 'og:url', url),
+    meta('property', 'profile:username', user.username || ''),
+    meta('property', 'og:image', shareImage),
+    meta('property', 'og:image:type', 'image/png'),
+    meta('property', 'og:image:width', String(OG_IMAGE_WIDTH)),
+    meta('property', 'og:image:height', String(OG_IMAGE_HEIGHT)),
+    meta('property', 'og:image:alt', title),
+    meta('name', 'twitter:card', 'summary_large_image'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', description),
+    meta('name', 'twitter:image', shareImage),
+    `    <script type="application/ld+json">${escapeScriptJson(structuredData)}</script>`,
+    `    <style>\n${renderThemeStyles(data)}\n    </style>`
+  ].join('\n');
+};
+
+const renderLink = (link: RenderedLink, username: string, preview: boolean, text: string): string => {
+  // Draft links may not be live yet, so previews link straight to the destination
+  const href = preview ? (link.url || '#') : `/${username}/link/${link.id}`;
+
+  // Gated links open an unlock page before redirecting
+  const badge = link.gateType
+    ? `<span title="${link.gateType === 'password' ? 'Password protected' : 'Sensitive content'}">${link.gateType === 'password' ? '🔒' : '⚠️'}</span>`
+    : '';
+
+  return `<a href="${escapeHtml(href)}" target="_blank" rel="noopener" class="bio-link block w-full bg-white bg-opacity-10 backdrop-blur-sm border border-white border-opacity-20 rounded-lg p-4 text-center ${text} hover:bg-opacity-20 transition-all duration-200 hover:scale-105">` +
+    '<div class="flex items-center justify-center space-x-3">' +
+    `<span class="text-xl">${ICONS[link.iconName || ''] || '🔗'}</span>` +
+    `<span class="font-medium">${escapeHtml(link.title)}</span>${badge}` +
+    '</div></a>';
+};
+
+const renderEmbed = (link: RenderedLink & { embed: LinkEmbed }, username: string, preview: boolean, text: string): string => {
+  const size = link.embed.aspectRatio
+    ? `style="aspect-ratio: ${escapeHtml(link.embed.aspectRatio.replace(':', ' / '))}"`
+    : `height="${link.embed.height || ''}"`;
+
+  return '<div class="w-full space-y-2">' +
+    `<iframe src="${escapeHtml(link.embed.embedUrl)}" title="${escapeHtml(link.title)}" loading="lazy" ` +
+    `allow="autoplay; clipboard-write; encrypted-media; picture-in-picture" allowfullscreen class="w-full rounded-lg border-0" ${size}></iframe>` +
+    renderLink(link, username, preview, text) +
+    '</div>';
+};
+
+const renderItem = (link: RenderedLink, username: string, preview: boolean, text: string): string => {
+  return link.embed
+    ? renderEmbed(link as RenderedLink & { embed: LinkEmbed }, username, preview, text)
+    : renderLink(link, username, preview, text);
+};
+
+const renderBlock = (block: RenderedBlock, username: string, preview: boolean, text: string): string => {
+  switch (block.kind) {
+    case 'header':
+      return `<h2 class="text-lg font-semibold ${text} text-center pt-4">${escapeHtml(block.title)}</h2>`;
+    case 'divider':
+      return '<hr class="border-white border-opacity-30 my-2">';
+    case 'group':
+      return `<details class="bg-white bg-opacity-5 border border-white border-opacity-20 rounded-lg"${block.isCollapsed ? '' : ' open'}>` +
+        `<summary class="cursor-pointer p-4 text-center font-medium ${text}">${escapeHtml(block.title)}</summary>` +
+        `<div class="space-y-3 p-3 pt-0">${block.children.map(child => renderItem(child, username, preview, text)).join('')}</div>` +
+        '</details>';
+    default:
+      return renderItem(block, username, preview, text);
+  }
+};
+
+const renderContent = (data: PublicPageData, preview: boolean, text: string): string => {
+  const { user } = data;
+  const username = user.username || '';
+  const name = user.profileName || `@${username}`;
+  const initial = (user.profileName || username || 'U').charAt(0).toUpperCase();
+
+  const avatar = user.profileImageUrl
+    ? `<img src="${escapeHtml(user.profileImageUrl)}" alt="${escapeHtml(user.profileName || username)}" class="w-24 h-24 rounded-full mx-auto object-cover">`
+    : `<div class="w-24 h-24 rounded-full mx-auto bg-white bg-opacity-20 flex items-center justify-center"><span class="text-2xl ${text}">${escapeHtml(initial)}</span></div>`;
+
+  return [
+    ...(preview
+      ? ['<div class="mb-6 rounded-lg bg-yellow-300 text-yellow-900 text-sm text-center p-3">Preview of unpublished changes. Visitors don\'t see this version yet.</div>']
+      : []),
+    '<div class="text-center mb-8">',
+    `<div class="mb-4">${avatar}</div>`,
+    `<h1 class="theme-text text-2xl font-bold ${text} mb-2">${escapeHtml(name)}</h1>`,
+    ...(user.profileBio ? [`<p class="theme-text ${text} text-opacity-90 mb-4">${escapeHtml(user.profileBio)}</p>`] : []),
+    '</div>',
+    `<div class="space-y-3">${(data.bioPage.blocks as RenderedBlock[]).map(block => renderBlock(block, username, preview, text)).join('')}</div>`,
+    '<div class="text-center mt-8">',
+    `<p class="${text} text-opacity-60 text-sm">Powered by <a href="/" class="underline hover:text-opacity-100">LinkHub</a></p>`,
+    '</div>'
+  ].join('\n');
+};
+
+// A bio page as complete HTML, so crawlers and link unfurlers see its content without running scripts
+export const renderBioPage = async (data: PublicPageData, urls: BioPageUrls, options: { preview?: boolean } = {}): Promise<string> => {
+  const preview = !!options.preview;
+  const template = await fs.readFile(path.join(__dirname, '../../public/bio.html'), 'utf8');
+  const text = LIGHT_THEMES.includes(data.theme.id) ? 'text-gray-900' : 'text-white';
+  const background = THEME_BACKGROUNDS[data.theme.id] || 'from-blue-500 to-purple-600';
+
+  // Replacer functions, so `$` in user content is never read as a replacement pattern
+  return template
+    .replace('{{head}}', () => renderHead(data, urls, preview))
+    .replace('{{bodyClass}}', () => `bio-page min-h-screen bg-gradient-to-br ${background} flex items-center justify-center p-4`)
+    .replace('{{content}}', () => renderContent(data, preview, text));
+};
\ No newline at end of file
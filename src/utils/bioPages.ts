@@ -0,0 +1,39 @@
+import { ValidationError } from './errors';
+
+// Slug given to an account's first page
+export const DEFAULT_PAGE_SLUG = 'home';
+
+// Prisma filter for one of the account's pages; without an ID it's the primary page
+export const ownedPageWhere = (userId: string, pageId?: string) => ({
+  userId,
+  ...(pageId ? { id: pageId } : { isPrimary: true })
+});
+
+// Prisma filter for a public page: /:username is the primary page, /:username/:slug any other
+export const publicPageWhere = (username: string, slug?: string) => ({
+  user: { username: username.toLowerCase() },
+  ...(slug ? { slug: slug.toLowerCase() } : { isPrimary: true })
+});
+
+export const bioPagePath = (username: string, page: { slug: string; isPrimary: boolean }): string => {
+  return page.isPrimary ? `/${username}` : `/${username}/${page.slug}`;
+};
+
+// Page slugs share the username rules, minus the reserved names (they live under the username)
+export const normalizePageSlug = (slug: string): string => {
+  if (typeof slug !== 'string') {
+    throw new ValidationError('Slug must be a string', 'slug');
+  }
+
+  const normalized = slug.trim().toLowerCase();
+
+  if (normalized.length < 1 || normalized.length > 50) {
+    throw new ValidationError('Slug must be between 1 and 50 characters', 'slug');
+  }
+
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(normalized)) {
+    throw new ValidationError('Slug may only contain lowercase letters, numbers and single hyphens', 'slug');
+  }
+
+  return normalized;
+};
\ No newline at end of file
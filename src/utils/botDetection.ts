@@ -0,0 +1,90 @@
+import { Request } from 'express';
+import { isbot } from 'isbot';
+
+export type BotReason = 'user_agent' | 'headless' | 'burst';
+
+export interface BotClassification {
+  isBot: boolean;
+  reason: BotReason | null;
+}
+
+// More hits than this from one IP hash within the window is a script, not a person
+export const BURST_WINDOW_MS = 60 * 1000;
+export const BURST_THRESHOLD = 30;
+
+// Automation that the crawler list doesn't name, since it runs a real browser engine
+const HEADLESS_PATTERNS = /HeadlessChrome|PhantomJS|SlimerJS|Puppeteer|Playwright|Selenium|WebDriver|Lighthouse|Chrome-Lighthouse|jsdom/i;
+
+// Recent hit times per IP hash in this process; like the rate limiters, each instance keeps its own
+const recentHits = new Map<string, number[]>();
+let lastSweep = 0;
+
+const forgetOldHits = (now: number): void => {
+  if (now - lastSweep < BURST_WINDOW_MS) {
+    return;
+  }
+
+  lastSweep = now;
+  for (const [ipHash, hits] of recentHits) {
+    if ((hits[hits.length - 1] ?? 0) <= now - BURST_WINDOW_MS) {
+      recentHits.delete(ipHash);
+    }
+  }
+};
+
+// Count a hit and say whether this IP hash is over the burst threshold
+export const isBurst = (visitorIpHash: string, now: number = Date.now()): boolean => {
+  forgetOldHits(now);
+
+  const hits = (recentHits.get(visitorIpHash) || []).filter(time => time > now - BURST_WINDOW_MS);
+  hits.push(now);
+  recentHits.set(visitorIpHash, hits.slice(-(BURST_THRESHOLD + 1)));
+
+  return hits.length > BURST_THRESHOLD;
+};
+
+export const resetBurstDetection = (): void => {
+  recentHits.clear();
+  lastSweep = 0;
+};
+
+// Browsers always name themselves and the languages they accept; headless ones often give themselves away or skip the header
+export const isHeadlessBrowser = (userAgent: string, acceptLanguage: string | undefined, secChUa: string | undefined): boolean => {
+  if (!userAgent.trim()) {
+    return true;
+  }
+
+  if (HEADLESS_PATTERNS.test(userAgent) || (secChUa && /Headless/i.test(secChUa))) {
+    return true;
+  }
+
+  return /^Mozilla\//.test(userAgent) && !acceptLanguage;
+};
+
+export const classifyVisitor = (
+  visitor: { userAgent: string; acceptLanguage?: string | undefined; secChUa?: string | undefined; visitorIpHash: string },
+  now: number = Date.now()
+): BotClassification => {
+  // Every hit counts towards a burst, so a crawler's hits make its IP hash look busy too
+  const burst = isBurst(visitor.visitorIpHash, now);
+
+  if (isbot(visitor.userAgent)) {
+    return { isBot: true, reason: 'user_agent' };
+  }
+
+  if (isHeadlessBrowser(visitor.userAgent, visitor.acceptLanguage, visitor.secChUa)) {
+    return { isBot: true, reason: 'headless' };
+  }
+
+  return burst ? { isBot: true, reason: 'burst' } : { isBot: false, reason: null };
+};
+
+// Classify the request behind an analytics event, before it's recorded
+export const classifyRequest = (req: Request, visitorIpHash: string): BotClassification => {
+  return classifyVisitor({
+    userAgent: req.get('User-Agent') || '',
+    acceptLanguage: req.get('Accept-Language'),
+    secChUa: req.get('Sec-CH-UA'),
+    visitorIpHash
+  });
+};
\ No newline at end of file
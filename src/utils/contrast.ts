@@ -0,0 +1,94 @@
+// WCAG 2 contrast: 4.5:1 for body text (AA), 3:1 for large text and interface components
+export const WCAG_AA_CONTRAST = 4.5;
+export const WCAG_AA_LARGE_CONTRAST = 3;
+
+const expandHex = (color: string): string => {
+  return color.length === 4 ? `#${color.slice(1).split('').map(c => c + c).join('')}` : color;
+};
+
+const toRgb = (color: string): [number, number, number] => {
+  const hex = expandHex(color).slice(1);
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: [number, number, number]): string => {
+  return `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+};
+
+// Relative luminance from WCAG 2, 0 (black) to 1 (white)
+export const relativeLuminance = (color: string): number => {
+  const [r, g, b] = toRgb(color).map(value => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  }) as [number, number, number];
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// From 1:1 (same luminance) to 21:1 (black on white)
+export const contrastRatio = (a: string, b: string): number => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x) as [number, number];
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+const toHsl = ([r, g, b]: [number, number, number]): [number, number, number] => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+
+  if (max === min) {
+    return [0, 0, lightness];
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const hue = max === red
+    ? (green - blue) / delta + (green < blue ? 6 : 0)
+    : max === green ? (blue - red) / delta + 2 : (red - green) / delta + 4;
+
+  return [hue / 6, saturation, lightness];
+};
+
+const fromHsl = ([hue, saturation, lightness]: [number, number, number]): [number, number, number] => {
+  if (saturation === 0) {
+    return [lightness * 255, lightness * 255, lightness * 255];
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (t: number): number => {
+    const wrapped = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (wrapped < 1 / 6) return p + (q - p) * 6 * wrapped;
+    if (wrapped < 1 / 2) return q;
+    if (wrapped < 2 / 3) return p + (q - p) * (2 / 3 - wrapped) * 6;
+    return p;
+  };
+
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+};
+
+// The closest color to `color` (same hue and saturation, lightness moved as little as possible)
+// that reaches `minimum` contrast against `against`; black or white if no shade of the hue does
+export const suggestAccessibleColor = (color: string, against: string, minimum: number = WCAG_AA_CONTRAST): string => {
+  if (contrastRatio(color, against) >= minimum) {
+    return expandHex(color).toLowerCase();
+  }
+
+  const [hue, saturation, lightness] = toHsl(toRgb(color));
+
+  for (let step = 0.01; step <= 1; step += 0.01) {
+    for (const candidate of [lightness - step, lightness + step]) {
+      if (candidate < 0 || candidate > 1) {
+        continue;
+      }
+
+      const hex = toHex(fromHsl([hue, saturation, candidate]));
+      if (contrastRatio(hex, against) >= minimum) {
+        return hex;
+      }
+    }
+  }
+
+  return contrastRatio('#000000', against) >= contrastRatio('#ffffff', against) ? '#000000' : '#ffffff';
+};
\ No newline at end of file
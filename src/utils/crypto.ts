@@ -22,6 +22,35 @@ export const verifyJWT = (token: string): any => {
   return jwt.verify(token, JWT_SECRET);
 };
 
+// Short-lived token proving a visitor got past a link's gate; `gate` ties it to the gate's current settings
+export const generateLinkUnlockToken = (linkId: string, gate: string, expiresInSeconds: number): string => {
+  return jwt.sign({ purpose: 'link_unlock', linkId, gate }, JWT_SECRET, { expiresIn: expiresInSeconds });
+};
+
+export const verifyLinkUnlockToken = (token: string, linkId: string, gate: string): boolean => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    return payload['purpose'] === 'link_unlock' && payload['linkId'] === linkId && payload['gate'] === gate;
+  } catch {
+    return false;
+  }
+};
+
+// Signed link to a page's draft that works without logging in, until it expires
+export const generatePreviewToken = (bioPageId: string, expiresInSeconds: number): string => {
+  return jwt.sign({ purpose: 'page_preview', bioPageId }, JWT_SECRET, { expiresIn: expiresInSeconds });
+};
+
+// The bio page a preview token was issued for, or null if it's invalid or expired
+export const verifyPreviewToken = (token: string): string | null => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    return payload['purpose'] === 'page_preview' && typeof payload['bioPageId'] === 'string' ? payload['bioPageId'] : null;
+  } catch {
+    return null;
+  }
+};
+
 export const generateSecureToken = (length: number = 32): string => {
   return crypto.randomBytes(length).toString('hex');
 };
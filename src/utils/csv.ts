@@ -0,0 +1,72 @@
+// Minimal RFC 4180 CSV: quoted fields, escaped quotes and newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Undo the quote toCsv adds in front of formula-like cells
+export const unescapeFormula = (cell: string): string => {
+  return /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+};
+
+const escapeCell = (value: string | number | boolean | null | undefined): string => {
+  let cell = value === null || value === undefined ? '' : String(value);
+
+  if (FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`;
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+export const toCsv = (rows: Array<Array<string | number | boolean | null | undefined>>): string => {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+};
\ No newline at end of file
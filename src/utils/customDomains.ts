@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import { ValidationError } from './errors';
+import { CustomDomain } from '../types';
+
+// Owners prove control of a domain with a TXT record at _linkhub.<hostname>
+export const VERIFICATION_RECORD_PREFIX = '_linkhub';
+export const VERIFICATION_VALUE_PREFIX = 'linkhub-verification=';
+
+const LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Anything that can look up TXT records; swap in another implementation with setDnsResolver()
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+let resolver: DnsResolver | null = null;
+
+export const getDnsResolver = (): DnsResolver => {
+  if (!resolver) {
+    resolver = { resolveTxt: hostname => dns.resolveTxt(hostname) };
+  }
+  return resolver;
+};
+
+export const setDnsResolver = (next: DnsResolver): void => {
+  resolver = next;
+};
+
+// Host of the app itself, which can't be claimed as a custom domain
+export const appHostname = (): string | null => {
+  try {
+    return process.env['APP_URL'] ? new URL(process.env['APP_URL']).hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Host header without the port or trailing dot, lowercased
+export const hostnameFromHeader = (host: string | undefined): string | null => {
+  if (!host) {
+    return null;
+  }
+
+  const hostname = host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+  return hostname || null;
+};
+
+// A domain the owner controls, e.g. "links.example.com"; URLs and trailing dots are accepted
+export const normalizeHostname = (input: unknown): string => {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new ValidationError('Hostname is required', 'hostname');
+  }
+
+  let hostname = input.trim().toLowerCase();
+
+  if (/^https?:\/\//.test(hostname)) {
+    try {
+      hostname = new URL(hostname).hostname;
+    } catch {
+      throw new ValidationError('Hostname is not valid', 'hostname');
+    }
+  }
+
+  hostname = hostname.replace(/\/+$/, '').replace(/\.$/, '');
+
+  const labels = hostname.split('.');
+  if (hostname.length > 253 || labels.length < 2 || !labels.every(label => LABEL.test(label))) {
+    throw new ValidationError('Hostname must be a domain name such as links.example.com', 'hostname');
+  }
+
+  // Top-level domains are never numeric, which also rules out IP addresses
+  if (/^\d+$/.test(labels[labels.length - 1] as string)) {
+    throw new ValidationError('Hostname must be a domain name, not an IP address', 'hostname');
+  }
+
+  const app = appHostname();
+  if (app && (hostname === app || hostname.endsWith(`.${app}`))) {
+    throw new ValidationError('This hostname belongs to LinkHub', 'hostname');
+  }
+
+  return hostname;
+};
+
+export const generateVerificationToken = (): string => crypto.randomBytes(16).toString('hex');
+
+// The TXT record the owner has to publish
+export const verificationRecord = (hostname: string, token: string) => ({
+  type: 'TXT' as const,
+  name: `${VERIFICATION_RECORD_PREFIX}.${hostname}`,
+  value: `${VERIFICATION_VALUE_PREFIX}${token}`
+});
+
+export const formatCustomDomain = (domain: {
+  hostname: string;
+  verificationToken: string;
+  status: string;
+  verifiedAt: Date | null;
+  lastCheckedAt: Date | null;
+  lastError: string | null;
+}): CustomDomain => ({
+  hostname: domain.hostname,
+  status: domain.status as CustomDomain['status'],
+  verificationRecord: verificationRecord(domain.hostname, domain.verificationToken),
+  verifiedAt: domain.verifiedAt,
+  lastCheckedAt: domain.lastCheckedAt,
+  lastError: domain.lastError
+});
+
+// Look for the verification value among the domain's TXT records; the error says what's wrong if it isn't there
+export const checkVerificationRecord = async (
+  hostname: string,
+  token: string,
+  dnsResolver: DnsResolver = getDnsResolver()
+): Promise<{ verified: boolean; error: string | null }> => {
+  const { name, value } = verificationRecord(hostname, token);
+
+  let records: string[][];
+  try {
+    records = await dnsResolver.resolveTxt(name);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return { verified: false, error: `No TXT record found at ${name}` };
+    }
+    return { verified: false, error: `DNS lookup for ${name} failed${code ? ` (${code})` : ''}` };
+  }
+
+  // Long TXT values arrive split into chunks
+  if (records.some(chunks => chunks.join('').trim() === value)) {
+    return { verified: true, error: null };
+  }
+
+  return { verified: false, error: `The TXT record at ${name} does not contain ${value}` };
+};
\ No newline at end of file
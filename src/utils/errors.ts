@@ -34,6 +34,20 @@ export class AuthorizationError extends Error implements AppError {
   }
 }
 
+export class PlanLimitError extends Error implements AppError {
+  status = 403;
+  code = 'PLAN_LIMIT_REACHED';
+  limit: string;
+  requiredPlan: string | null;
+
+  constructor(message: string, limit: string, requiredPlan: string | null) {
+    super(message);
+    this.name = 'PlanLimitError';
+    this.limit = limit;
+    this.requiredPlan = requiredPlan;
+  }
+}
+
 export class NotFoundError extends Error implements AppError {
   status = 404;
   code = 'NOT_FOUND_ERROR';
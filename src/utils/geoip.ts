@@ -0,0 +1,61 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import maxmind, { CityResponse, Reader } from 'maxmind';
+import logger from './logger';
+
+// Only this much of a location is ever stored; coordinates and postal codes are left out
+export interface VisitorLocation {
+  country: string | null; // ISO 3166-1 alpha-2 code
+  region: string | null; // English name of the first subdivision (state, province, ...)
+  city: string | null; // English name
+}
+
+export const UNKNOWN_LOCATION: VisitorLocation = { country: null, region: null, city: null };
+
+// MaxMind-format (.mmdb) database, e.g. GeoLite2-City or GeoLite2-Country
+const databasePath = (): string => process.env['GEOIP_DATABASE_PATH'] || path.join(process.cwd(), 'data', 'GeoLite2-City.mmdb');
+
+let readerPromise: Promise<Reader<CityResponse> | null> | null = null;
+
+// Open the database once; without it every lookup resolves to an unknown location
+const getReader = (): Promise<Reader<CityResponse> | null> => {
+  if (!readerPromise) {
+    const file = databasePath();
+
+    if (!existsSync(file)) {
+      logger.warn('GeoIP database not found, geo lookups disabled', { path: file });
+      readerPromise = Promise.resolve(null);
+    } else {
+      readerPromise = maxmind.open<CityResponse>(file).catch(error => {
+        logger.error('Failed to open GeoIP database', { path: file, error: error.message });
+        return null;
+      });
+    }
+  }
+
+  return readerPromise;
+};
+
+// Where an IP is, as far as the database knows; call before the IP is hashed, since only the hash is kept
+export const lookupLocation = async (ip: string): Promise<VisitorLocation> => {
+  const reader = await getReader();
+  // Express reports IPv4 clients as IPv4-mapped IPv6 addresses
+  const address = ip.replace(/^::ffff:/, '');
+
+  if (!reader || !maxmind.validate(address)) {
+    return UNKNOWN_LOCATION;
+  }
+
+  try {
+    const result = reader.get(address);
+
+    return {
+      country: result?.country?.iso_code || null,
+      region: result?.subdivisions?.[0]?.names?.en || null,
+      city: result?.city?.names?.en || null
+    };
+  } catch (error) {
+    logger.warn('GeoIP lookup failed', { error });
+    return UNKNOWN_LOCATION;
+  }
+};
\ No newline at end of file
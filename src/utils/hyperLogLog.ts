@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+// 2^11 one-byte registers: 2 KB per sketch, about 2.3% standard error
+export const HLL_PRECISION = 11;
+const REGISTERS = 1 << HLL_PRECISION;
+const ALPHA = 0.7213 / (1 + 1.079 / REGISTERS);
+
+// Distinct-count sketch: counts unique visitors in fixed space, and sketches of different hours or
+// days merge into the count for their union, which summing unique counts can't do
+export class HyperLogLog {
+  private registers: Buffer;
+
+  constructor(registers?: Buffer | Uint8Array | null) {
+    this.registers = registers && registers.length === REGISTERS
+      ? Buffer.from(registers)
+      : Buffer.alloc(REGISTERS);
+  }
+
+  add(value: string): this {
+    const digest = crypto.createHash('sha256').update(value).digest();
+    const index = digest.readUInt16BE(0) >>> (16 - HLL_PRECISION);
+    // Position of the first 1 bit in the next 32 bits of the hash
+    const rank = Math.clz32(digest.readUInt32BE(2)) + 1;
+
+    if (rank > (this.registers[index] as number)) {
+      this.registers[index] = rank;
+    }
+
+    return this;
+  }
+
+  merge(other: HyperLogLog): this {
+    for (let i = 0; i < REGISTERS; i++) {
+      this.registers[i] = Math.max(this.registers[i] as number, other.registers[i] as number);
+    }
+
+    return this;
+  }
+
+  count(): number {
+    let sum = 0;
+    let zeros = 0;
+
+    for (const register of this.registers) {
+      sum += 2 ** -register;
+      if (register === 0) {
+        zeros++;
+      }
+    }
+
+    const estimate = ALPHA * REGISTERS * REGISTERS / sum;
+
+    // Small counts leave registers empty; counting those is far more accurate there
+    if (estimate <= 2.5 * REGISTERS && zeros > 0) {
+      return Math.round(REGISTERS * Math.log(REGISTERS / zeros));
+    }
+
+    return Math.round(estimate);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.registers);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { LinkGateType } from '../types';
+import { generateLinkUnlockToken, verifyLinkUnlockToken } from './crypto';
+
+export const LINK_GATE_TYPES: LinkGateType[] = ['password', 'sensitive'];
+
+// How long an unlocked link stays unlocked for a visitor
+export const UNLOCK_TOKEN_TTL_SECONDS = 30 * 60;
+
+interface GatedLink {
+  id: string;
+  gateType: string | null;
+  gatePasswordHash: string | null;
+}
+
+// Changes whenever the gate is switched or its password is changed, revoking earlier unlocks
+const gateFingerprint = (link: GatedLink): string => {
+  return crypto.createHash('sha256')
+    .update(`${link.gateType}:${link.gatePasswordHash || ''}`)
+    .digest('hex')
+    .slice(0, 16);
+};
+
+export const unlockCookieName = (linkId: string): string => `link_unlock_${linkId}`;
+
+export const issueUnlockToken = (link: GatedLink): string => {
+  return generateLinkUnlockToken(link.id, gateFingerprint(link), UNLOCK_TOKEN_TTL_SECONDS);
+};
+
+// Browsers send the token as a cookie; API clients may use a header or query parameter
+export const readUnlockToken = (req: Request, linkId: string): string | null => {
+  const header = req.get('X-Unlock-Token');
+  if (header) {
+    return header;
+  }
+
+  const query = req.query['token'];
+  if (typeof query === 'string' && query) {
+    return query;
+  }
+
+  const name = unlockCookieName(linkId);
+  const cookie = (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+
+  if (!cookie) {
+    return null;
+  }
+
+  // A malformed cookie is treated as no token rather than failing the redirect
+  try {
+    return decodeURIComponent(cookie.slice(name.length + 1));
+  } catch {
+    return null;
+  }
+};
+
+export const isLinkUnlocked = (link: GatedLink, token: string | null): boolean => {
+  if (!link.gateType) {
+    return true;
+  }
+
+  return !!token && verifyLinkUnlockToken(token, link.id, gateFingerprint(link));
+};
+
+// Public view of a link: never the password hash, and no destination behind a gate
+export const toPublicLink = <T extends GatedLink & { url: string }>(link: T): Omit<T, 'gatePasswordHash'> => {
+  const { gatePasswordHash, ...rest } = link;
+  return link.gateType ? { ...rest, url: '' } : rest;
+};
\ No newline at end of file
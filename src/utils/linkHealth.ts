@@ -0,0 +1,166 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+
+export interface LinkCheckResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null; // e.g. 'ENOTFOUND' when the domain no longer resolves
+  responseTimeMs: number;
+}
+
+export interface LinkCheckOptions {
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  maxRedirects?: number;
+  allowPrivateHosts?: boolean;
+}
+
+// Health columns for a link whose destination changed, so it's checked on the next run
+export const UNCHECKED_LINK_HEALTH = {
+  healthStatus: 'unknown',
+  healthFailures: 0,
+  healthCheckedAt: null,
+  healthCheckDueAt: null
+};
+
+// Destinations we refuse to request from our own network
+export const BLOCKED_HOST = 'BLOCKED_HOST';
+
+const USER_AGENT = 'LinkHubBot/1.0 (+link health check)';
+
+const DEFAULT_OPTIONS: Required<LinkCheckOptions> = {
+  timeoutMs: 10000,
+  retries: 2,
+  retryDelayMs: 1000,
+  maxRedirects: 5,
+  allowPrivateHosts: false
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Loopback, private, link-local and other non-routable addresses
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = address.toLowerCase().replace(/^::ffff:/, '');
+
+  if (net.isIPv4(mapped)) {
+    const [a = 0, b = 0] = mapped.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+
+  return mapped === '::' || mapped === '::1' || /^f[cd]/.test(mapped) || /^fe[89ab]/.test(mapped);
+};
+
+const assertPublicHost = async (url: URL): Promise<void> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+  if (addresses.some(isPrivateAddress)) {
+    throw Object.assign(new Error('Destination resolves to a private address'), { code: BLOCKED_HOST });
+  }
+};
+
+const errorCode = (error: any): string => {
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+    return 'TIMEOUT';
+  }
+  // fetch wraps network failures in a generic 'fetch failed' TypeError
+  return error?.code || error?.cause?.code || error?.cause?.message || error?.message || 'UNKNOWN_ERROR';
+};
+
+// One request, following redirects ourselves so every hop is vetted
+const request = async (url: string, method: 'HEAD' | 'GET', options: Required<LinkCheckOptions>): Promise<number> => {
+  let current = new URL(url);
+
+  for (let hop = 0; hop <= options.maxRedirects; hop++) {
+    if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+      throw Object.assign(new Error('Unsupported protocol'), { code: 'UNSUPPORTED_PROTOCOL' });
+    }
+
+    if (!options.allowPrivateHosts) {
+      await assertPublicHost(current);
+    }
+
+    const response = await fetch(current, {
+      method,
+      redirect: 'manual',
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(options.timeoutMs)
+    });
+
+    // Only the status matters, don't download the body
+    await response.body?.cancel().catch(() => undefined);
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current);
+      continue;
+    }
+
+    return response.status;
+  }
+
+  throw Object.assign(new Error('Too many redirects'), { code: 'TOO_MANY_REDIRECTS' });
+};
+
+// HEAD first; plenty of servers mishandle HEAD, so confirm failures with a GET
+const probe = async (url: string, options: Required<LinkCheckOptions>): Promise<number> => {
+  const status = await request(url, 'HEAD', options);
+  return status >= 400 ? request(url, 'GET', options) : status;
+};
+
+const isTransient = (statusCode: number | null, error: string | null): boolean => {
+  if (error) {
+    return error !== BLOCKED_HOST && error !== 'UNSUPPORTED_PROTOCOL' && error !== 'TOO_MANY_REDIRECTS';
+  }
+  return statusCode === 408 || statusCode === 429 || (statusCode !== null && statusCode >= 500);
+};
+
+// Check a destination, retrying timeouts, network errors and 5xx/429 with exponential backoff
+export const checkLinkUrl = async (url: string, checkOptions: LinkCheckOptions = {}): Promise<LinkCheckResult> => {
+  const options = { ...DEFAULT_OPTIONS, ...checkOptions };
+  let result: LinkCheckResult = { ok: false, statusCode: null, error: null, responseTimeMs: 0 };
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(options.retryDelayMs * 2 ** (attempt - 1));
+    }
+
+    const startedAt = Date.now();
+    try {
+      const statusCode = await probe(url, options);
+      result = { ok: statusCode < 400, statusCode, error: null, responseTimeMs: Date.now() - startedAt };
+    } catch (error) {
+      result = { ok: false, statusCode: null, error: errorCode(error), responseTimeMs: Date.now() - startedAt };
+    }
+
+    if (result.ok || !isTransient(result.statusCode, result.error)) {
+      break;
+    }
+  }
+
+  return result;
+};
+
+// Run `worker` over `items` with at most `limit` in flight, keeping results in input order
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index] as T);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+};
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { BioPageExport, ExportedLink, ImportRowError, ThemeColors } from '../types';
+import { ValidationError } from './errors';
+import { parseCsv, toCsv, unescapeFormula } from './csv';
+
+export type ImportFormat = 'json' | 'csv' | 'linktree';
+export type ExportFormat = 'json' | 'csv';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['json', 'csv', 'linktree'];
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv'];
+
+// Bump when the JSON layout changes; older versions stay importable
+export const EXPORT_VERSION = 1;
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const CSV_COLUMNS = ['title', 'url', 'kind', 'type', 'group', 'iconName', 'isActive', 'activeFrom', 'activeUntil'];
+
+// One item to import, flattened; `row` is what errors refer to
+export interface ImportedLink {
+  row: number;
+  parentRow: number | null;
+  kind: string;
+  type: string;
+  title: string;
+  url: string;
+  iconName: string | null;
+  isActive: unknown;
+  activeFrom: string | null;
+  activeUntil: string | null;
+}
+
+export interface ParsedImport {
+  themeId?: string;
+  customColors?: ThemeColors | null;
+  links: ImportedLink[];
+  errors: ImportRowError[];
+}
+
+const text = (value: unknown): string => (typeof value === 'string' ? value : value == null ? '' : String(value)).trim();
+const optionalText = (value: unknown): string | null => text(value) || null;
+
+const parseJsonInput = (data: unknown): any => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ValidationError('Import data is not valid JSON', 'data');
+  }
+};
+
+const assertRowCount = (count: number): void => {
+  if (count > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`An import can have at most ${MAX_IMPORT_ROWS} rows`, 'data');
+  }
+};
+
+// Versioned LinkHub export; groups carry their links as children
+const parseLinkHubJson = (data: unknown): ParsedImport => {
+  const document = parseJsonInput(data);
+
+  if (!document || typeof document !== 'object' || !Array.isArray(document.links)) {
+    throw new ValidationError('JSON import must be an object with a links array', 'data');
+  }
+
+  if (document.version !== EXPORT_VERSION) {
+    throw new ValidationError(`Unsupported export version: ${document.version}; expected ${EXPORT_VERSION}`, 'version');
+  }
+
+  const links: ImportedLink[] = [];
+  const visit = (item: any, parentRow: number | null) => {
+    const row = links.length + 1;
+    links.push({
+      row,
+      parentRow,
+      kind: text(item?.kind) || 'link',
+      type: text(item?.type) || 'url',
+      title: text(item?.title),
+      url: text(item?.url),
+      iconName: optionalText(item?.iconName),
+      isActive: item?.isActive ?? true,
+      activeFrom: optionalText(item?.activeFrom),
+      activeUntil: optionalText(item?.activeUntil)
+    });
+
+    if (Array.isArray(item?.children)) {
+      item.children.forEach((child: any) => visit(child, row));
+    }
+  };
+  document.links.forEach((item: any) => visit(item, null));
+  assertRowCount(links.length);
+
+  const page = document.bioPage || {};
+  return {
+    ...(page.themeId !== undefined && { themeId: text(page.themeId) }),
+    ...(page.customColors !== undefined && { customColors: page.customColors }),
+    links,
+    errors: []
+  };
+};
+
+// Header row names the columns (see CSV_COLUMNS); links join the latest group above them with a matching title
+const parseLinkHubCsv = (data: unknown): ParsedImport => {
+  if (typeof data !== 'string') {
+    throw new ValidationError('CSV import data must be a string', 'data');
+  }
+
+  const [header, ...rows] = parseCsv(data);
+  const columns = (header || []).map(column => column.trim());
+
+  if (!columns.includes('title') || !columns.includes('url')) {
+    throw new ValidationError('CSV must have a header row with at least title and url columns', 'data');
+  }
+  assertRowCount(rows.length);
+
+  const links: ImportedLink[] = [];
+  const errors: ImportRowError[] = [];
+  const groups = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    const value = (column: string) => unescapeFormula(text(cells[columns.indexOf(column)]));
+    const row = index + 1;
+    const kind = value('kind') || 'link';
+    const group = value('group');
+
+    let parentRow: number | null = null;
+    if (group) {
+      parentRow = groups.get(group) ?? null;
+      if (parentRow === null) {
+        errors.push({ row, field: 'group', message: `No group titled "${group}" above this row` });
+      }
+    }
+
+    if (kind === 'group') {
+      groups.set(value('title'), row);
+    }
+
+    links.push({
+      row,
+      parentRow,
+      kind,
+      type: value('type') || 'url',
+      title: value('title'),
+      url: value('url'),
+      iconName: value('iconName') || null,
+      isActive: value('isActive') || true,
+      activeFrom: value('activeFrom') || null,
+      activeUntil: value('activeUntil') || null
+    });
+  });
+
+  return { links, errors };
+};
+
+// Linktree link types that have a LinkHub equivalent; anything else imports as a plain link
+const LINKTREE_TYPES: Record<string, { kind: string; type: string }> = {
+  HEADER: { kind: 'header', type: 'url' },
+  YOUTUBE_VIDEO: { kind: 'link', type: 'youtube' },
+  SPOTIFY_MUSIC: { kind: 'link', type: 'spotify' },
+  SPOTIFY_PODCAST: { kind: 'link', type: 'spotify' },
+  SOUNDCLOUD: { kind: 'link', type: 'soundcloud' },
+  TWITTER_TWEET: { kind: 'link', type: 'tweet' },
+  EMAIL_SIGNUP: { kind: 'link', type: 'url' }
+};
+
+// Linktree's account export: { links: [{ title, url, type, position, archived }] } (or just the array)
+const parseLinktree = (data: unknown): ParsedImport => {
+  const document = parseJsonInput(data);
+  const items = Array.isArray(document) ? document : document?.links;
+
+  if (!Array.isArray(items)) {
+    throw new ValidationError('Linktree export must contain a links array', 'data');
+  }
+  assertRowCount(items.length);
+
+  const links = items
+    .filter((item: any) => item && typeof item === 'object')
+    .sort((a: any, b: any) => (Number(a.position) || 0) - (Number(b.position) || 0))
+    .map((item: any, index: number): ImportedLink => {
+      const mapped = LINKTREE_TYPES[text(item.type).toUpperCase()] || { kind: 'link', type: 'url' };
+      const archived = item.archived === true || item.active === false || item.isActive === false;
+
+      return {
+        row: index + 1,
+        parentRow: null,
+        kind: mapped.kind,
+        type: mapped.type,
+        title: text(item.title),
+        url: mapped.kind === 'link' ? text(item.url) : '',
+        iconName: null,
+        isActive: !archived,
+        activeFrom: optionalText(item.startsAt ?? item.activeFrom),
+        activeUntil: optionalText(item.endsAt ?? item.activeUntil)
+      };
+    });
+
+  return { links, errors: [] };
+};
+
+export const parseImport = (format: ImportFormat, data: unknown): ParsedImport => {
+  switch (format) {
+    case 'csv':
+      return parseLinkHubCsv(data);
+    case 'linktree':
+      return parseLinktree(data);
+    default:
+      return parseLinkHubJson(data);
+  }
+};
+
+export const exportToCsv = (document: BioPageExport): string => {
+  const toRow = (link: ExportedLink, group: string | null) => [
+    link.title, link.url, link.kind, link.type, group, link.iconName, link.isActive, link.activeFrom, link.activeUntil
+  ];
+
+  return toCsv([
+    CSV_COLUMNS,
+    ...document.links.flatMap(link => [
+      toRow(link, null),
+      ...(link.children || []).map(child => toRow(child, link.title))
+    ])
+  ]);
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { ValidationError } from './errors';
+import { DeviceType, OperatingSystem } from './userAgent';
+
+export type LinkRuleCondition = 'os' | 'device' | 'country';
+
+export const RULE_CONDITIONS: LinkRuleCondition[] = ['os', 'device', 'country'];
+
+const OS_VALUES: OperatingSystem[] = ['ios', 'android', 'windows', 'macos', 'chromeos', 'linux'];
+const DEVICE_VALUES: DeviceType[] = ['mobile', 'tablet', 'desktop'];
+
+export interface VisitorContext {
+  os: OperatingSystem;
+  deviceType: DeviceType;
+  country: string | null;
+}
+
+interface RuleLike {
+  conditionType: string;
+  conditionValue: string;
+}
+
+// Validate a rule condition and return its canonical value
+export const normalizeRuleCondition = (conditionType: string, conditionValue: string): string => {
+  if (!RULE_CONDITIONS.includes(conditionType as LinkRuleCondition)) {
+    throw new ValidationError(`Condition type must be one of: ${RULE_CONDITIONS.join(', ')}`, 'conditionType');
+  }
+
+  const value = (conditionValue || '').trim();
+
+  switch (conditionType) {
+    case 'os':
+      if (!OS_VALUES.includes(value.toLowerCase() as OperatingSystem)) {
+        throw new ValidationError(`Operating system must be one of: ${OS_VALUES.join(', ')}`, 'conditionValue');
+      }
+      return value.toLowerCase();
+
+    case 'device':
+      if (!DEVICE_VALUES.includes(value.toLowerCase() as DeviceType)) {
+        throw new ValidationError(`Device must be one of: ${DEVICE_VALUES.join(', ')}`, 'conditionValue');
+      }
+      return value.toLowerCase();
+
+    default:
+      if (!/^[A-Za-z]{2}$/.test(value)) {
+        throw new ValidationError('Country must be a two-letter ISO 3166-1 code', 'conditionValue');
+      }
+      return value.toUpperCase();
+  }
+};
+
+export const matchesRule = (rule: RuleLike, visitor: VisitorContext): boolean => {
+  switch (rule.conditionType) {
+    case 'os':
+      return visitor.os === rule.conditionValue;
+    case 'device':
+      return visitor.deviceType === rule.conditionValue;
+    case 'country':
+      return visitor.country === rule.conditionValue;
+    default:
+      return false;
+  }
+};
+
+// First matching rule wins; rules must already be in order
+export const findMatchingRule = <T extends RuleLike>(rules: T[], visitor: VisitorContext): T | null => {
+  return rules.find(rule => matchesRule(rule, visitor)) || null;
+};
\ No newline at end of file
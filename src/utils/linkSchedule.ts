@@ -0,0 +1,27 @@
+export type LinkScheduleStatus = 'scheduled' | 'live' | 'expired';
+
+export interface LinkSchedule {
+  activeFrom: Date | null;
+  activeUntil: Date | null;
+}
+
+// Prisma filter for links that are switched on and inside their schedule window
+export const liveLinkWhere = (now: Date = new Date()) => ({
+  isActive: true,
+  AND: [
+    { OR: [{ activeFrom: null }, { activeFrom: { lte: now } }] },
+    { OR: [{ activeUntil: null }, { activeUntil: { gt: now } }] }
+  ]
+});
+
+export const getLinkScheduleStatus = (link: LinkSchedule, now: Date = new Date()): LinkScheduleStatus => {
+  if (link.activeFrom && link.activeFrom > now) {
+    return 'scheduled';
+  }
+
+  if (link.activeUntil && link.activeUntil <= now) {
+    return 'expired';
+  }
+
+  return 'live';
+};
\ No newline at end of file
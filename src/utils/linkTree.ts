@@ -0,0 +1,52 @@
+import { LinkKind } from '../types';
+
+export const LINK_KINDS: LinkKind[] = ['link', 'header', 'divider', 'group'];
+
+interface LinkTreeRow {
+  id: string;
+  kind: string;
+  parentId: string | null;
+}
+
+export type LinkTreeNode<T extends LinkTreeRow> = T & { children: T[] };
+
+// Nest rows under their groups, keeping the order the rows were given in.
+// Children whose group isn't in the list (e.g. a hidden group) are dropped.
+export const buildLinkTree = <T extends LinkTreeRow>(rows: T[]): LinkTreeNode<T>[] => {
+  const groups = new Map<string, LinkTreeNode<T>>();
+  const tree: LinkTreeNode<T>[] = [];
+
+  rows.forEach(row => {
+    if (row.parentId) {
+      return;
+    }
+
+    const node = { ...row, children: [] as T[] };
+    if (row.kind === 'group') {
+      groups.set(row.id, node);
+    }
+    tree.push(node);
+  });
+
+  rows.forEach(row => {
+    if (row.parentId) {
+      groups.get(row.parentId)?.children.push(row);
+    }
+  });
+
+  return tree;
+};
+
+// Clickable links in display order, flattened out of their groups
+export const flattenLinkTree = <T extends LinkTreeRow>(tree: LinkTreeNode<T>[]): T[] => {
+  const links: T[] = [];
+
+  tree.forEach(({ children, ...node }) => {
+    if (node.kind === 'link') {
+      links.push(node as unknown as T);
+    }
+    links.push(...children.filter(child => child.kind === 'link'));
+  });
+
+  return links;
+};
\ No newline at end of file
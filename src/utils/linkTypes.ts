@@ -0,0 +1,174 @@
+import { LinkEmbed, LinkType } from '../types';
+import { ValidationError } from './errors';
+import { validateEmail, validateUrl } from './validation';
+
+export const LINK_TYPES: LinkType[] = ['url', 'youtube', 'spotify', 'soundcloud', 'tweet', 'email'];
+
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+const SPOTIFY_RESOURCES = ['track', 'album', 'playlist', 'episode', 'show', 'artist'];
+
+const parseUrl = (value: string): URL | null => {
+  if (!validateUrl(value)) {
+    return null;
+  }
+  return new URL(value);
+};
+
+const hostMatches = (url: URL, hosts: string[]): boolean => {
+  const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+  return hosts.includes(host);
+};
+
+// Accepts watch, short, embed and youtu.be URLs or a bare video ID
+export const extractYouTubeId = (value: string): string | null => {
+  if (YOUTUBE_ID.test(value)) {
+    return value;
+  }
+
+  const url = parseUrl(value);
+  if (!url) {
+    return null;
+  }
+
+  let id: string | null | undefined = null;
+  if (hostMatches(url, ['youtu.be'])) {
+    id = url.pathname.split('/')[1];
+  } else if (hostMatches(url, ['youtube.com', 'music.youtube.com', 'youtube-nocookie.com'])) {
+    const [, section, pathId] = url.pathname.split('/');
+    id = section === 'watch' ? url.searchParams.get('v') : ['shorts', 'embed', 'live'].includes(section || '') ? pathId : null;
+  }
+
+  return id && YOUTUBE_ID.test(id) ? id : null;
+};
+
+// Accepts open.spotify.com URLs (with or without locale prefix) and spotify: URIs
+const extractSpotifyResource = (value: string): { resource: string; id: string } | null => {
+  const uriMatch = value.match(/^spotify:([a-z]+):([A-Za-z0-9]{22})$/);
+  if (uriMatch) {
+    return SPOTIFY_RESOURCES.includes(uriMatch[1] as string)
+      ? { resource: uriMatch[1] as string, id: uriMatch[2] as string }
+      : null;
+  }
+
+  const url = parseUrl(value);
+  if (!url || !hostMatches(url, ['open.spotify.com'])) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).filter(segment => !segment.startsWith('intl-'));
+  const [resource, id] = segments;
+  if (!resource || !id || !SPOTIFY_RESOURCES.includes(resource) || !/^[A-Za-z0-9]{22}$/.test(id)) {
+    return null;
+  }
+
+  return { resource, id };
+};
+
+const extractTweet = (value: string): { handle: string; id: string } | null => {
+  const url = parseUrl(value);
+  if (!url || !hostMatches(url, ['twitter.com', 'x.com', 'mobile.twitter.com'])) {
+    return null;
+  }
+
+  const match = url.pathname.match(/^\/([A-Za-z0-9_]{1,15})\/status(?:es)?\/(\d+)/);
+  return match ? { handle: match[1] as string, id: match[2] as string } : null;
+};
+
+// Validate a link destination for its type and return the canonical URL to store
+export const normalizeLinkUrl = (type: LinkType, value: string): string => {
+  const input = (value || '').trim();
+
+  switch (type) {
+    case 'youtube': {
+      const id = extractYouTubeId(input);
+      if (!id) {
+        throw new ValidationError('Valid YouTube video URL is required', 'url');
+      }
+      return `https://www.youtube.com/watch?v=${id}`;
+    }
+
+    case 'spotify': {
+      const spotify = extractSpotifyResource(input);
+      if (!spotify) {
+        throw new ValidationError('Valid Spotify track, album, playlist, episode, show or artist URL is required', 'url');
+      }
+      return `https://open.spotify.com/${spotify.resource}/${spotify.id}`;
+    }
+
+    case 'soundcloud': {
+      const url = parseUrl(input);
+      if (!url || !hostMatches(url, ['soundcloud.com']) || url.pathname.split('/').filter(Boolean).length < 1) {
+        throw new ValidationError('Valid SoundCloud URL is required', 'url');
+      }
+      return `https://soundcloud.com${url.pathname.replace(/\/$/, '')}`;
+    }
+
+    case 'tweet': {
+      const tweet = extractTweet(input);
+      if (!tweet) {
+        throw new ValidationError('Valid X/Twitter post URL is required', 'url');
+      }
+      return `https://twitter.com/${tweet.handle}/status/${tweet.id}`;
+    }
+
+    case 'email': {
+      const address = input.replace(/^mailto:/i, '');
+      if (!validateEmail(address)) {
+        throw new ValidationError('Valid email address is required', 'url');
+      }
+      return `mailto:${address}`;
+    }
+
+    default:
+      if (!input || !validateUrl(input)) {
+        throw new ValidationError('Valid URL is required', 'url');
+      }
+      return input;
+  }
+};
+
+// Embed metadata for inline players; null for types rendered as plain buttons
+export const getLinkEmbed = (type: string, url: string): LinkEmbed | null => {
+  switch (type) {
+    case 'youtube': {
+      const id = extractYouTubeId(url);
+      return id ? {
+        provider: 'youtube',
+        embedUrl: `https://www.youtube-nocookie.com/embed/${id}`,
+        thumbnailUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+        aspectRatio: '16:9'
+      } : null;
+    }
+
+    case 'spotify': {
+      const spotify = extractSpotifyResource(url);
+      return spotify ? {
+        provider: 'spotify',
+        embedUrl: `https://open.spotify.com/embed/${spotify.resource}/${spotify.id}`,
+        thumbnailUrl: null,
+        height: spotify.resource === 'track' || spotify.resource === 'episode' ? 152 : 352
+      } : null;
+    }
+
+    case 'soundcloud':
+      return {
+        provider: 'soundcloud',
+        embedUrl: `https://w.soundcloud.com/player/?url=${encodeURIComponent(url)}`,
+        thumbnailUrl: null,
+        height: 166
+      };
+
+    case 'tweet': {
+      const tweet = extractTweet(url);
+      return tweet ? {
+        provider: 'twitter',
+        embedUrl: `https://platform.twitter.com/embed/Tweet.html?id=${tweet.id}`,
+        thumbnailUrl: null,
+        height: 400
+      } : null;
+    }
+
+    default:
+      return null;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,69 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import logger from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver an email; swap in another implementation with setMailer()
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Used when no SMTP server is configured: writes messages to the log instead of sending them
+export class LogMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Email not sent, no mailer configured', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+
+  constructor(private from: string, options: { host: string; port: number; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } })
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+const createDefaultMailer = (): Mailer => {
+  const host = process.env['EMAIL_HOST'];
+  if (!host) {
+    return new LogMailer();
+  }
+
+  return new SmtpMailer(process.env['EMAIL_FROM'] || 'LinkHub <noreply@linkhub.com>', {
+    host,
+    port: parseInt(process.env['EMAIL_PORT'] || '587'),
+    ...(process.env['EMAIL_USER'] && { user: process.env['EMAIL_USER'] }),
+    ...(process.env['EMAIL_PASS'] && { pass: process.env['EMAIL_PASS'] })
+  });
+};
+
+let mailer: Mailer | null = null;
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createDefaultMailer();
+  }
+  return mailer;
+};
+
+export const setMailer = (next: Mailer): void => {
+  mailer = next;
+};
\ No newline at end of file
@@ -0,0 +1,155 @@
+import sharp from 'sharp';
+import { validateHexColor } from './validation';
+import { relativeLuminance } from './contrast';
+
+// Size recommended by Open Graph and X for large image cards
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Bump when the card layout changes, so cached cards are redrawn
+export const OG_IMAGE_VERSION = 1;
+
+const AVATAR_SIZE = 220;
+const FALLBACK_BACKGROUND = ['#667eea', '#764ba2'];
+
+export interface CardColors {
+  background: string[]; // one color, or gradient stops
+  text: string;
+  accent: string;
+}
+
+export interface OgImageInput {
+  name: string;
+  handle: string; // e.g. "@jane" or "@jane/podcast"
+  bio: string | null;
+  colors: CardColors;
+  avatar: Buffer | null; // any image sharp can read
+}
+
+const HEX = /#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b/g;
+
+const cssValue = (css: string, property: string): string | null => {
+  const match = css.match(new RegExp(`(?:^|[;{\\s])${property}\\s*:\\s*([^;}]+)`, 'i'));
+  return match?.[1]?.trim() || null;
+};
+
+// Card colors from a theme's CSS (`.bio-page { background: ...; color: ... }`), overridden by the page's custom colors
+export const cardColors = (cssTemplate: string, customColors: Record<string, unknown> | null): CardColors => {
+  const custom = (key: string): string | null => {
+    const value = customColors?.[key];
+    return typeof value === 'string' && validateHexColor(value) ? value : null;
+  };
+
+  const themeBackground = (cssValue(cssTemplate, 'background') || cssValue(cssTemplate, 'background-color') || '').match(HEX);
+  const customBackground = custom('background');
+  const background = customBackground ? [customBackground] : themeBackground?.slice(0, 3) || FALLBACK_BACKGROUND;
+
+  const themeText = cssValue(cssTemplate, 'color')?.match(HEX)?.[0]
+    || (cssValue(cssTemplate, 'color')?.toLowerCase() === 'white' ? '#ffffff' : null);
+
+  // Without a text color, pick whichever of white or near-black reads better on the background
+  const averageLuminance = background.reduce((sum, color) => sum + relativeLuminance(color), 0) / background.length;
+  const text = custom('text') || themeText || (averageLuminance > 0.4 ? '#111827' : '#ffffff');
+
+  return {
+    background,
+    text,
+    accent: custom('primary') || text
+  };
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// Break text into lines of roughly `width` characters; the last line gets an ellipsis if text is left over
+export const wrapText = (text: string, width: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+
+    if (last !== undefined && `${last} ${word}`.length <= width) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.length > width ? `${word.slice(0, width - 1)}…` : word);
+    }
+  }
+
+  if (lines.length > maxLines) {
+    const last = lines[maxLines - 1] as string;
+    return [...lines.slice(0, maxLines - 1), `${last.slice(0, width - 1).trimEnd()}…`];
+  }
+
+  return lines;
+};
+
+// The card without the avatar photo, which is composited on top afterwards
+export const buildOgImageSvg = (input: OgImageInput): string => {
+  const { colors } = input;
+  const stops = colors.background.length > 1 ? colors.background : [colors.background[0], colors.background[0]];
+  const left = 120 + AVATAR_SIZE + 70;
+  const nameLines = wrapText(input.name, 18, 2);
+  const bioLines = input.bio ? wrapText(input.bio, 42, 3) : [];
+
+  const nameTop = 250 - (nameLines.length - 1) * 36 - (bioLines.length > 0 ? 40 : 0);
+  const bioTop = nameTop + (nameLines.length - 1) * 76 + 70;
+  const initial = (input.name.trim().charAt(0) || '?').toUpperCase();
+
+  const text = (x: number, y: number, size: number, weight: number, opacity: number, content: string) =>
+    `<text x="${x}" y="${y}" font-family="DejaVu Sans, Helvetica, Arial, sans-serif" font-size="${size}" font-weight="${weight}" fill="${colors.text}" fill-opacity="${opacity}">${escapeXml(content)}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">`,
+    '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">',
+    ...stops.map((color, index) => `<stop offset="${index / (stops.length - 1)}" stop-color="${color}"/>`),
+    '</linearGradient></defs>',
+    `<rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="url(#bg)"/>`,
+    `<circle cx="${120 + AVATAR_SIZE / 2}" cy="${OG_IMAGE_HEIGHT / 2 - 20}" r="${AVATAR_SIZE / 2 + 8}" fill="${colors.accent}" fill-opacity="0.35"/>`,
+    ...(input.avatar ? [] : [
+      `<circle cx="${120 + AVATAR_SIZE / 2}" cy="${OG_IMAGE_HEIGHT / 2 - 20}" r="${AVATAR_SIZE / 2}" fill="${colors.text}" fill-opacity="0.15"/>`,
+      `<text x="${120 + AVATAR_SIZE / 2}" y="${OG_IMAGE_HEIGHT / 2 + 15}" text-anchor="middle" font-family="DejaVu Sans, Helvetica, Arial, sans-serif" font-size="100" font-weight="700" fill="${colors.text}">${escapeXml(initial)}</text>`
+    ]),
+    ...nameLines.map((line, index) => text(left, nameTop + index * 76, 64, 700, 1, line)),
+    ...bioLines.map((line, index) => text(left, bioTop + index * 42, 30, 400, 0.85, line)),
+    text(left, OG_IMAGE_HEIGHT - 90, 30, 600, 0.9, input.handle),
+    text(OG_IMAGE_WIDTH - 220, OG_IMAGE_HEIGHT - 40, 26, 700, 0.7, 'LinkHub'),
+    '</svg>'
+  ].join('');
+};
+
+// A 1200x630 PNG, drawn locally without any external service
+export const renderOgImage = async (input: OgImageInput): Promise<Buffer> => {
+  const card = sharp(Buffer.from(buildOgImageSvg(input)));
+
+  if (!input.avatar) {
+    return card.png().toBuffer();
+  }
+
+  const mask = Buffer.from(
+    `<svg width="${AVATAR_SIZE}" height="${AVATAR_SIZE}"><circle cx="${AVATAR_SIZE / 2}" cy="${AVATAR_SIZE / 2}" r="${AVATAR_SIZE / 2}"/></svg>`
+  );
+
+  try {
+    const avatar = await sharp(input.avatar)
+      .rotate()
+      .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+      .composite([{ input: mask, blend: 'dest-in' }])
+      .png()
+      .toBuffer();
+
+    return card
+      .composite([{ input: avatar, left: 120, top: OG_IMAGE_HEIGHT / 2 - 20 - AVATAR_SIZE / 2 }])
+      .png()
+      .toBuffer();
+  } catch (error) {
+    // An unreadable avatar shouldn't stop the card; draw the initial instead
+    console.error('Failed to draw avatar on share image:', error);
+    return renderOgImage({ ...input, avatar: null });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { ValidationError } from './errors';
+
+// Variables a template value may reference, e.g. utm_campaign={username}
+export const OUTBOUND_PARAM_VARIABLES = ['username', 'link_id', 'link_slug'];
+
+const MAX_TEMPLATE_LENGTH = 500;
+const VARIABLE = /\{([^{}]*)\}/g;
+
+export interface OutboundParamContext {
+  username: string;
+  linkId: string;
+  linkTitle: string;
+}
+
+export const slugify = (value: string): string => {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+const parseTemplate = (template: string): Array<[string, string]> => {
+  return Array.from(new URLSearchParams(template).entries());
+};
+
+// Validate a template like "utm_source=linkhub&utm_campaign={username}"; empty clears it
+export const normalizeParamTemplate = (template: string | null, field: string): string | null => {
+  if (template === null) {
+    return null;
+  }
+
+  if (typeof template !== 'string') {
+    throw new ValidationError('Parameter template must be a string', field);
+  }
+
+  const trimmed = template.trim().replace(/^\?/, '');
+  if (!trimmed) {
+    return null;
+  }
+
+  if (trimmed.length > MAX_TEMPLATE_LENGTH) {
+    throw new ValidationError(`Parameter template must be less than ${MAX_TEMPLATE_LENGTH} characters`, field);
+  }
+
+  const params = parseTemplate(trimmed);
+  params.forEach(([key, value]) => {
+    if (!key) {
+      throw new ValidationError('Every parameter needs a name', field);
+    }
+
+    for (const [, variable] of value.matchAll(VARIABLE)) {
+      if (!OUTBOUND_PARAM_VARIABLES.includes(variable as string)) {
+        throw new ValidationError(
+          `Unknown variable {${variable}}; use one of: ${OUTBOUND_PARAM_VARIABLES.map(name => `{${name}}`).join(', ')}`,
+          field
+        );
+      }
+    }
+  });
+
+  return trimmed;
+};
+
+// Merge templates into a destination; later templates win over earlier ones,
+// and parameters already on the destination are never replaced
+export const applyOutboundParams = (destination: string, templates: Array<string | null>, context: OutboundParamContext): string => {
+  const activeTemplates = templates.filter((template): template is string => !!template);
+  if (activeTemplates.length === 0) {
+    return destination;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return destination;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return destination;
+  }
+
+  const variables: Record<string, string> = {
+    username: context.username,
+    link_id: context.linkId,
+    link_slug: slugify(context.linkTitle)
+  };
+
+  const merged = new Map<string, string>();
+  activeTemplates.forEach(template => {
+    parseTemplate(template).forEach(([key, value]) => {
+      merged.set(key, value.replace(VARIABLE, (match, name) => variables[name] ?? match));
+    });
+  });
+
+  const existing = new URLSearchParams(url.search);
+  const additions = Array.from(merged).filter(([key]) => !existing.has(key));
+
+  if (additions.length === 0) {
+    return destination;
+  }
+
+  const added = new URLSearchParams(additions);
+
+  // Append rather than re-serialise, so the destination's own encoding is left alone
+  url.search = url.search ? `${url.search.slice(1)}&${added.toString()}` : added.toString();
+  return url.toString();
+};
\ No newline at end of file
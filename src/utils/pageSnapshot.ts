@@ -0,0 +1,250 @@
+import { buildLinkTree } from './linkTree';
+import { getLinkScheduleStatus } from './linkSchedule';
+import { LinkKind, RevisionDiff, RevisionFieldChange, RevisionLinkRef } from '../types';
+
+// Bump when the snapshot layout changes; parseSnapshot must keep reading older versions
+export const SNAPSHOT_VERSION = 3;
+
+// An A/B variant as it was published; creation order decides which variant a visitor gets
+export interface SnapshotVariant {
+  id: string;
+  title: string | null;
+  url: string | null;
+  weight: number;
+  createdAt: Date;
+}
+
+// A targeting rule as it was published
+export interface SnapshotRule {
+  id: string;
+  conditionType: string;
+  conditionValue: string;
+  targetUrl: string;
+  orderIndex: number;
+}
+
+// A link as it was published, with its variants and targeting rules. Short links aren't versioned:
+// a slug is only an address, and the link it leads to is served as published.
+export interface SnapshotLink {
+  id: string;
+  kind: string;
+  type: string;
+  parentId: string | null;
+  title: string;
+  url: string;
+  iconName: string | null;
+  isActive: boolean;
+  isCollapsed: boolean;
+  orderIndex: number;
+  activeFrom: Date | null;
+  activeUntil: Date | null;
+  gateType: string | null;
+  gatePasswordHash: string | null;
+  outboundParams: string | null;
+  // null in revisions published before version 3, whose variants and rules weren't recorded
+  variants: SnapshotVariant[] | null;
+  rules: SnapshotRule[] | null;
+}
+
+// Everything a revision publishes: the page's content settings and its links
+export interface PageSnapshot {
+  themeId: string;
+  themeVersion: number; // the theme's styles as they were when this was published
+  customColors: string | null; // JSON as stored on the page
+  outboundParams: string | null;
+  links: SnapshotLink[];
+}
+
+// A link row with its variants and rules, or a link from a stored snapshot; other fields are ignored
+type SnapshotLinkSource = Omit<SnapshotLink, 'activeFrom' | 'activeUntil' | 'variants' | 'rules'> & {
+  activeFrom: unknown;
+  activeUntil: unknown;
+  variants: Array<Omit<SnapshotVariant, 'createdAt'> & { createdAt: unknown }> | null | undefined;
+  rules: SnapshotRule[] | null | undefined;
+};
+
+// A page row with its theme, or a stored snapshot
+interface SnapshotPage {
+  themeId: string;
+  themeVersion?: number;
+  theme?: { version: number };
+  customColors: string | null;
+  outboundParams: string | null;
+}
+
+// Stored dates are ISO strings, or epoch milliseconds / SQLite timestamps in backfilled revisions
+const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+  }
+
+  return new Date(value as string | number);
+};
+
+const toSnapshotVariants = (variants: SnapshotLinkSource['variants']): SnapshotVariant[] | null => {
+  if (!variants) {
+    return null;
+  }
+
+  return variants
+    .map(variant => ({
+      id: variant.id,
+      title: variant.title ?? null,
+      url: variant.url ?? null,
+      weight: variant.weight,
+      createdAt: toDate(variant.createdAt) as Date
+    }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+const toSnapshotRules = (rules: SnapshotLinkSource['rules']): SnapshotRule[] | null => {
+  if (!rules) {
+    return null;
+  }
+
+  return rules
+    .map(rule => ({
+      id: rule.id,
+      conditionType: rule.conditionType,
+      conditionValue: rule.conditionValue,
+      targetUrl: rule.targetUrl,
+      orderIndex: rule.orderIndex
+    }))
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+};
+
+const toSnapshotLink = (link: SnapshotLinkSource): SnapshotLink => ({
+  id: link.id,
+  kind: link.kind,
+  type: link.type,
+  parentId: link.parentId ?? null,
+  title: link.title,
+  url: link.url,
+  iconName: link.iconName ?? null,
+  isActive: !!link.isActive,
+  isCollapsed: !!link.isCollapsed,
+  orderIndex: link.orderIndex,
+  activeFrom: toDate(link.activeFrom),
+  activeUntil: toDate(link.activeUntil),
+  gateType: link.gateType ?? null,
+  gatePasswordHash: link.gatePasswordHash ?? null,
+  outboundParams: link.outboundParams ?? null,
+  variants: toSnapshotVariants(link.variants),
+  rules: toSnapshotRules(link.rules)
+});
+
+// Capture a page's current (draft) settings and links
+export const takeSnapshot = (page: SnapshotPage, links: SnapshotLinkSource[]): PageSnapshot => ({
+  themeId: page.themeId,
+  // The draft follows the theme's latest version; snapshots from before themes were versioned showed the first
+  themeVersion: page.themeVersion ?? page.theme?.version ?? 1,
+  customColors: page.customColors,
+  outboundParams: page.outboundParams,
+  links: links.map(toSnapshotLink).sort((a, b) => a.orderIndex - b.orderIndex)
+});
+
+export const serializeSnapshot = (snapshot: PageSnapshot): string => {
+  return JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot });
+};
+
+export const parseSnapshot = (json: string): PageSnapshot => {
+  const data = JSON.parse(json);
+
+  return takeSnapshot(data, Array.isArray(data.links) ? data.links : []);
+};
+
+// Links visitors can see right now: switched on and inside their schedule window
+export const liveSnapshotLinks = (snapshot: PageSnapshot, now: Date = new Date()): SnapshotLink[] => {
+  return snapshot.links.filter(link => link.isActive && getLinkScheduleStatus(link, now) === 'live');
+};
+
+// Compared field by field; the password hash is reported as changed without its value
+const LINK_FIELDS: Array<keyof SnapshotLink> = [
+  'kind', 'type', 'parentId', 'title', 'url', 'iconName', 'isActive', 'isCollapsed',
+  'activeFrom', 'activeUntil', 'gateType', 'gatePasswordHash', 'outboundParams', 'variants', 'rules'
+];
+
+const comparable = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value);
+
+// Variants and rules compare as lists; an older revision that didn't record them can't be compared
+const isChanged = (field: keyof SnapshotLink, from: SnapshotLink, to: SnapshotLink): boolean => {
+  if ((field === 'variants' || field === 'rules') && (from[field] === null || to[field] === null)) {
+    return false;
+  }
+
+  return JSON.stringify(comparable(from[field])) !== JSON.stringify(comparable(to[field]));
+};
+
+const parseColors = (value: string | null): unknown => {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const linkRef = (link: SnapshotLink): RevisionLinkRef => ({ id: link.id, kind: link.kind as LinkKind, title: link.title });
+
+// Display order: top-level items, each group followed by its links
+const displayOrder = (links: SnapshotLink[]): string[] => {
+  return buildLinkTree(links).flatMap(node => [node.id, ...node.children.map(child => child.id)]);
+};
+
+export const diffSnapshots = (from: PageSnapshot, to: PageSnapshot): RevisionDiff => {
+  const settings: RevisionFieldChange[] = [];
+
+  if (from.themeId !== to.themeId) {
+    settings.push({ field: 'themeId', from: from.themeId, to: to.themeId });
+  } else if (from.themeVersion !== to.themeVersion) {
+    settings.push({ field: 'themeVersion', from: from.themeVersion, to: to.themeVersion });
+  }
+  if (from.customColors !== to.customColors) {
+    settings.push({ field: 'customColors', from: parseColors(from.customColors), to: parseColors(to.customColors) });
+  }
+  if (from.outboundParams !== to.outboundParams) {
+    settings.push({ field: 'outboundParams', from: from.outboundParams, to: to.outboundParams });
+  }
+
+  const before = new Map(from.links.map(link => [link.id, link]));
+  const after = new Map(to.links.map(link => [link.id, link]));
+
+  const changed = to.links.flatMap(link => {
+    const previous = before.get(link.id);
+    if (!previous) {
+      return [];
+    }
+
+    const changes = LINK_FIELDS
+      .filter(field => isChanged(field, previous, link))
+      .map(field => field === 'gatePasswordHash'
+        ? { field: 'gatePassword', from: null, to: null }
+        : { field, from: comparable(previous[field]), to: comparable(link[field]) });
+
+    return changes.length > 0 ? [{ ...linkRef(link), changes }] : [];
+  });
+
+  const added = to.links.filter(link => !before.has(link.id)).map(linkRef);
+  const removed = from.links.filter(link => !after.has(link.id)).map(linkRef);
+
+  // Only the relative order of links on both sides counts as a reorder
+  const orderBefore = displayOrder(from.links).filter(id => after.has(id));
+  const orderAfter = displayOrder(to.links).filter(id => before.has(id));
+  const reordered = orderBefore.some((id, index) => orderAfter[index] !== id);
+
+  return {
+    hasChanges: settings.length > 0 || added.length > 0 || removed.length > 0 || changed.length > 0 || reordered,
+    settings,
+    added,
+    removed,
+    changed,
+    reordered
+  };
+};
\ No newline at end of file
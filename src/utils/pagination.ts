@@ -0,0 +1,33 @@
+import { ValidationError } from './errors';
+import { PaginatedResponse } from '../types';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+const positiveInt = (value: unknown, fallback: number, field: string): number => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const number = Number(value);
+
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ValidationError(`${field} must be a positive whole number`, field);
+  }
+
+  return number;
+};
+
+// `?page=2&limit=20` from a query string; pages start at 1
+export const parsePagination = (query: Record<string, unknown>, maxLimit: number): { page: number; limit: number } => {
+  return {
+    page: positiveInt(query['page'], 1, 'page'),
+    limit: Math.min(positiveInt(query['limit'], DEFAULT_PAGE_SIZE, 'limit'), maxLimit)
+  };
+};
+
+export const paginationMeta = (page: number, limit: number, total: number): PaginatedResponse<unknown>['pagination'] => ({
+  page,
+  limit,
+  total,
+  totalPages: Math.ceil(total / limit)
+});
\ No newline at end of file
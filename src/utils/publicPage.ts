@@ -0,0 +1,171 @@
+import { Request } from 'express';
+import prisma from '../config/database';
+import { buildLinkTree, flattenLinkTree } from './linkTree';
+import { getLinkEmbed } from './linkTypes';
+import { applyVariant } from './variants';
+import { toPublicLink } from './linkGate';
+import { SnapshotLink } from './pageSnapshot';
+import { parseShortLinkSource } from './shortLinks';
+import { classifyRequest } from './botDetection';
+import { parseUserAgent } from './userAgent';
+import { lookupLocation } from './geoip';
+import { classifyTraffic, parseCampaignParams } from './referrers';
+
+// A page as visitors see it: the live revision's content (or the draft, for previews)
+export interface PublicPageView {
+  id: string;
+  userId: string;
+  slug: string;
+  isPrimary: boolean;
+  isPublished: boolean;
+  themeId: string;
+  customColors: string | null;
+  outboundParams: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  user: {
+    id: string;
+    username: string | null;
+    profileName: string | null;
+    profileBio: string | null;
+    profileImageUrl: string | null;
+  };
+  theme: {
+    id: string;
+    name: string;
+    isPremium: boolean;
+    cssTemplate: string;
+    colorVariables: string;
+  };
+  links: Array<Omit<SnapshotLink, 'variants' | 'rules'> & {
+    bioPageId: string;
+    variants: Array<{ id: string; title: string | null; url: string | null; weight: number }>;
+  }>;
+}
+
+// Response data for a public page; servedLinks says which A/B variant each link was shown with
+export const buildPublicPage = (bioPage: PublicPageView, visitorIpHash: string) => {
+  const { user } = bioPage;
+
+  // Parse custom colors if they exist
+  let customColors = null;
+  if (bioPage.customColors) {
+    try {
+      customColors = JSON.parse(bioPage.customColors);
+    } catch (error) {
+      console.error('Failed to parse custom colors:', error);
+    }
+  }
+
+  // Parse theme color variables
+  let themeColorVariables = [];
+  try {
+    themeColorVariables = JSON.parse(bioPage.theme.colorVariables);
+  } catch (error) {
+    console.error('Failed to parse theme color variables:', error);
+  }
+
+  // Each visitor sees one sticky variant of links under A/B test; gated destinations stay hidden
+  const servedLinks = bioPage.links.map(link => toPublicLink(applyVariant(link, visitorIpHash)));
+
+  // Nest links under their groups; `links` stays a flat list of clickable links
+  const blocks = buildLinkTree(servedLinks.map(link => ({
+    ...link,
+    embed: link.gateType ? null : getLinkEmbed(link.type, link.url)
+  })));
+
+  return {
+    servedLinks,
+    data: {
+      user: {
+        username: user.username,
+        profileName: user.profileName,
+        profileBio: user.profileBio,
+        profileImageUrl: user.profileImageUrl
+      },
+      bioPage: {
+        id: bioPage.id,
+        themeId: bioPage.themeId,
+        customColors,
+        links: flattenLinkTree(blocks),
+        blocks,
+        createdAt: bioPage.createdAt,
+        updatedAt: bioPage.updatedAt
+      },
+      theme: {
+        id: bioPage.theme.id,
+        name: bioPage.theme.name,
+        isPremium: bioPage.theme.isPremium,
+        cssTemplate: bioPage.theme.cssTemplate,
+        colorVariables: themeColorVariables
+      }
+    }
+  };
+};
+
+export type PublicPageData = ReturnType<typeof buildPublicPage>['data'];
+
+// Record a page view, and which variant each tested link was shown with (fire and forget)
+export const recordPageView = (
+  req: Request,
+  bioPage: { id: string; user: { id: string } },
+  servedLinks: Array<{ id: string; variantId: string | null }>,
+  visitorIpHash: string
+): void => {
+  const { isBot } = classifyRequest(req, visitorIpHash);
+  const userAgent = req.get('User-Agent') || '';
+  const device = parseUserAgent(userAgent);
+  const referrer = req.get('Referer') || null;
+  const campaign = parseCampaignParams(req.query);
+  const impressions = servedLinks.filter(link => link.variantId);
+
+  // Located from the raw IP while the request still has it; only the hash and the coarse location are kept
+  lookupLocation(req.ip || req.socket.remoteAddress || 'unknown').then(location => {
+    prisma.analyticsEvent.create({
+      data: {
+        bioPageId: bioPage.id,
+        userId: bioPage.user.id,
+        eventType: 'page_view',
+        visitorIpHash,
+        userAgent,
+        ...device,
+        ...location,
+        referrer,
+        ...classifyTraffic(referrer, campaign),
+        ...campaign,
+        source: parseShortLinkSource(req.query['via']),
+        isBot
+      }
+    }).catch(error => {
+      console.error('Failed to record page view:', error);
+    });
+
+    if (impressions.length > 0) {
+      // Variants deleted from the draft are served until the next publish, but events can only point at ones that exist
+      prisma.linkVariant.findMany({
+        where: { id: { in: impressions.map(link => link.variantId as string) } },
+        select: { id: true }
+      }).then(async existing => {
+        const recorded = impressions.filter(link => existing.some(variant => variant.id === link.variantId));
+
+        if (recorded.length > 0) {
+          await prisma.analyticsEvent.createMany({
+            data: recorded.map(link => ({
+              bioPageId: bioPage.id,
+              userId: bioPage.user.id,
+              eventType: 'variant_impression',
+              linkId: link.id,
+              variantId: link.variantId,
+              visitorIpHash,
+              ...device,
+              ...location,
+              isBot
+            }))
+          });
+        }
+      }).catch(error => {
+        console.error('Failed to record variant impressions:', error);
+      });
+    }
+  });
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+import QRCode from 'qrcode';
+import { ThemeColors } from '../types';
+import { ValidationError } from './errors';
+import { validateHexColor } from './validation';
+
+export type QrCodeFormat = 'svg' | 'png';
+
+export const QR_CODE_FORMATS: QrCodeFormat[] = ['svg', 'png'];
+
+const MIN_SIZE = 64;
+const MAX_SIZE = 2048;
+const DEFAULT_SIZE = 512;
+
+// QRCode only takes 6/8-digit hex colours
+const expandHex = (color: string): string => {
+  return color.length === 4 ? `#${color.slice(1).split('').map(c => c + c).join('')}` : color;
+};
+
+export const parseQrCodeSize = (value: unknown): number => {
+  if (value === undefined) {
+    return DEFAULT_SIZE;
+  }
+
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    throw new ValidationError(`Size must be a whole number between ${MIN_SIZE} and ${MAX_SIZE}`, 'size');
+  }
+
+  return size;
+};
+
+// Render a QR code, optionally in the page's theme: primary modules on the background colour
+export const renderQrCode = async (
+  text: string,
+  format: QrCodeFormat,
+  options: { size: number; colors?: ThemeColors | null }
+): Promise<string | Buffer> => {
+  const colors = options.colors && validateHexColor(options.colors.primary) && validateHexColor(options.colors.background)
+    ? { dark: expandHex(options.colors.primary), light: expandHex(options.colors.background) }
+    : { dark: '#000000', light: '#ffffff' };
+
+  const renderOptions = {
+    width: options.size,
+    margin: 2,
+    errorCorrectionLevel: 'M' as const,
+    color: colors
+  };
+
+  return format === 'svg'
+    ? QRCode.toString(text, { ...renderOptions, type: 'svg' })
+    : QRCode.toBuffer(text, { ...renderOptions, type: 'png' });
+};
\ No newline at end of file
@@ -0,0 +1,135 @@
+export type TrafficChannel = 'social' | 'search' | 'email' | 'direct' | 'other';
+
+export const TRAFFIC_CHANNELS: TrafficChannel[] = ['social', 'search', 'email', 'direct', 'other'];
+
+export interface CampaignParams {
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+}
+
+export interface TrafficSource {
+  referrerSource: string | null; // e.g. "Instagram", or the bare hostname for sites we don't know; null for direct visits
+  channel: TrafficChannel;
+}
+
+interface KnownSource {
+  name: string;
+  channel: TrafficChannel;
+  hosts: RegExp; // matched against the referrer's hostname, subdomains included
+  apps?: string[]; // Android apps send android-app://<package> as the referrer
+}
+
+// Checked in order: webmail lives on search engines' domains (mail.google.com)
+const KNOWN_SOURCES: KnownSource[] = [
+  { name: 'Gmail', channel: 'email', hosts: /(^|\.)mail\.google\.com$/, apps: ['com.google.android.gm'] },
+  { name: 'Outlook', channel: 'email', hosts: /(^|\.)(outlook\.live\.com|outlook\.office(365)?\.com)$/, apps: ['com.microsoft.office.outlook'] },
+  { name: 'Yahoo Mail', channel: 'email', hosts: /(^|\.)mail\.yahoo\.com$/ },
+  { name: 'Proton Mail', channel: 'email', hosts: /(^|\.)mail\.proton(mail)?\.(me|com)$/ },
+
+  { name: 'Instagram', channel: 'social', hosts: /(^|\.)instagram\.com$/, apps: ['com.instagram.android'] },
+  { name: 'Facebook', channel: 'social', hosts: /(^|\.)(facebook\.com|fb\.com|fb\.me)$/, apps: ['com.facebook.katana', 'com.facebook.lite'] },
+  { name: 'Messenger', channel: 'social', hosts: /(^|\.)(messenger\.com|m\.me)$/, apps: ['com.facebook.orca'] },
+  { name: 'X/Twitter', channel: 'social', hosts: /(^|\.)(twitter\.com|x\.com|t\.co)$/, apps: ['com.twitter.android'] },
+  { name: 'TikTok', channel: 'social', hosts: /(^|\.)tiktok\.com$/, apps: ['com.zhiliaoapp.musically', 'com.ss.android.ugc.trill'] },
+  { name: 'YouTube', channel: 'social', hosts: /(^|\.)(youtube\.com|youtu\.be)$/, apps: ['com.google.android.youtube'] },
+  { name: 'LinkedIn', channel: 'social', hosts: /(^|\.)(linkedin\.com|lnkd\.in)$/, apps: ['com.linkedin.android'] },
+  { name: 'Reddit', channel: 'social', hosts: /(^|\.)(reddit\.com|redd\.it)$/, apps: ['com.reddit.frontpage'] },
+  { name: 'Pinterest', channel: 'social', hosts: /(^|\.)(pinterest\.[a-z.]+|pin\.it)$/, apps: ['com.pinterest'] },
+  { name: 'Snapchat', channel: 'social', hosts: /(^|\.)snapchat\.com$/, apps: ['com.snapchat.android'] },
+  { name: 'Threads', channel: 'social', hosts: /(^|\.)threads\.(net|com)$/, apps: ['com.instagram.barcelona'] },
+  { name: 'WhatsApp', channel: 'social', hosts: /(^|\.)(whatsapp\.com|wa\.me)$/, apps: ['com.whatsapp'] },
+  { name: 'Telegram', channel: 'social', hosts: /(^|\.)(telegram\.org|t\.me)$/, apps: ['org.telegram.messenger'] },
+  { name: 'Discord', channel: 'social', hosts: /(^|\.)(discord\.com|discord\.gg)$/, apps: ['com.discord'] },
+  { name: 'Twitch', channel: 'social', hosts: /(^|\.)twitch\.tv$/, apps: ['tv.twitch.android.app'] },
+  { name: 'Tumblr', channel: 'social', hosts: /(^|\.)tumblr\.com$/, apps: ['com.tumblr'] },
+  { name: 'Bluesky', channel: 'social', hosts: /(^|\.)bsky\.app$/, apps: ['xyz.blueskyweb.app'] },
+
+  { name: 'Google', channel: 'search', hosts: /(^|\.)google\.[a-z.]+$/, apps: ['com.google.android.googlequicksearchbox'] },
+  { name: 'Bing', channel: 'search', hosts: /(^|\.)bing\.com$/ },
+  { name: 'DuckDuckGo', channel: 'search', hosts: /(^|\.)duckduckgo\.com$/ },
+  { name: 'Yahoo', channel: 'search', hosts: /(^|\.)(search\.)?yahoo\.[a-z.]+$/ },
+  { name: 'Baidu', channel: 'search', hosts: /(^|\.)baidu\.com$/ },
+  { name: 'Yandex', channel: 'search', hosts: /(^|\.)yandex\.[a-z.]+$/ },
+  { name: 'Ecosia', channel: 'search', hosts: /(^|\.)ecosia\.org$/ },
+  { name: 'Brave Search', channel: 'search', hosts: /(^|\.)search\.brave\.com$/ }
+];
+
+// utm_medium values that say the channel outright, whatever the referrer
+const MEDIUM_CHANNELS: Record<string, TrafficChannel> = {
+  email: 'email',
+  'e-mail': 'email',
+  newsletter: 'email',
+  social: 'social',
+  'social-media': 'social',
+  'social-network': 'social',
+  sm: 'social',
+  organic: 'search'
+};
+
+const MAX_PARAM_LENGTH = 100;
+
+// A hostname, an Android package, or a tagged name such as "instagram", "twitter" or "x"
+const findSource = (hostOrName: string): KnownSource | undefined => {
+  const value = hostOrName.toLowerCase();
+  return KNOWN_SOURCES.find(source =>
+    source.hosts.test(value) || source.hosts.test(`${value}.com`) || source.apps?.includes(value) || source.name.toLowerCase() === value);
+};
+
+// "https://l.facebook.com/l.php?u=..." is Facebook, "android-app://com.google.android.gm/" is Gmail,
+// and any other site is its hostname without "www."
+export const normalizeReferrer = (referrer: string | null | undefined): TrafficSource => {
+  if (!referrer || !referrer.trim()) {
+    return { referrerSource: null, channel: 'direct' };
+  }
+
+  let host: string;
+  try {
+    host = new URL(referrer.trim()).hostname.toLowerCase();
+  } catch {
+    return { referrerSource: null, channel: 'other' };
+  }
+
+  if (!host) {
+    return { referrerSource: null, channel: 'other' };
+  }
+
+  const known = findSource(host);
+
+  return known
+    ? { referrerSource: known.name, channel: known.channel }
+    : { referrerSource: host.replace(/^www\./, ''), channel: 'other' };
+};
+
+// utm_* parameters from the page URL, trimmed and lowercased so "Instagram" and "instagram" count together
+export const parseCampaignParams = (query: Record<string, unknown>): CampaignParams => {
+  const param = (name: string): string | null => {
+    const value = query[name];
+    return typeof value === 'string' && value.trim() ? value.trim().toLowerCase().slice(0, MAX_PARAM_LENGTH) : null;
+  };
+
+  return {
+    utmSource: param('utm_source'),
+    utmMedium: param('utm_medium'),
+    utmCampaign: param('utm_campaign'),
+    utmTerm: param('utm_term'),
+    utmContent: param('utm_content')
+  };
+};
+
+// Where a visit came from: the referrer, unless the link was tagged. A tagged medium decides the channel,
+// and a tagged source names visits that arrive without a referrer (apps often send none).
+export const classifyTraffic = (referrer: string | null | undefined, campaign: CampaignParams): TrafficSource => {
+  const traffic = normalizeReferrer(referrer);
+  const mediumChannel = campaign.utmMedium ? MEDIUM_CHANNELS[campaign.utmMedium] : undefined;
+
+  if (!traffic.referrerSource && campaign.utmSource) {
+    const known = findSource(campaign.utmSource);
+    traffic.referrerSource = known?.name || campaign.utmSource;
+    traffic.channel = known?.channel || 'other';
+  }
+
+  return mediumChannel ? { ...traffic, channel: mediumChannel } : traffic;
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import { ValidationError } from './errors';
+import { isReservedName } from './validation';
+
+export type ShortLinkSource = 'short_link' | 'qr';
+
+export const SHORT_LINK_SOURCES: ShortLinkSource[] = ['short_link', 'qr'];
+
+const SLUG_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'; // no look-alikes (l, 1, o, 0)
+const GENERATED_SLUG_LENGTH = 7;
+
+export const generateSlug = (): string => {
+  const bytes = crypto.randomBytes(GENERATED_SLUG_LENGTH);
+  return Array.from(bytes, byte => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('');
+};
+
+// Custom slugs follow the username rules and can't take a reserved name
+export const normalizeCustomSlug = (slug: string): string => {
+  if (typeof slug !== 'string') {
+    throw new ValidationError('Slug must be a string', 'slug');
+  }
+
+  const normalized = slug.trim().toLowerCase();
+
+  if (normalized.length < 3 || normalized.length > 50) {
+    throw new ValidationError('Slug must be between 3 and 50 characters', 'slug');
+  }
+
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(normalized)) {
+    throw new ValidationError('Slug may only contain lowercase letters, numbers and single hyphens', 'slug');
+  }
+
+  if (isReservedName(normalized)) {
+    throw new ValidationError('This slug is reserved and cannot be used', 'slug');
+  }
+
+  return normalized;
+};
+
+// Where a visit came from, as tagged on the URL by /s/:slug (`via`) or a QR code (`src`)
+export const parseShortLinkSource = (value: unknown): ShortLinkSource | null => {
+  return SHORT_LINK_SOURCES.includes(value as ShortLinkSource) ? value as ShortLinkSource : null;
+};
\ No newline at end of file
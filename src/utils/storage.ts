@@ -0,0 +1,156 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+// Anything that can store uploaded files; swap in another implementation with setStorage()
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  url(key: string): string; // where browsers fetch the file
+}
+
+const isMissing = (error: unknown): boolean => {
+  const { code, name } = error as { code?: string; name?: string };
+  return code === 'ENOENT' || name === 'NoSuchKey' || name === 'NotFound';
+};
+
+// Files under uploads/, served by the app at /uploads
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private directory: string, private baseUrl: string = '/uploads') {}
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename, so a request never reads a half-written file
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, body);
+    await fs.rename(temporary, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      if (!isMissing(error)) {
+        throw error;
+      }
+    }
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  // Keys are generated by the app, but never let one point outside the directory
+  private resolve(key: string): string {
+    const file = path.resolve(this.directory, key);
+    if (!file.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // for S3-compatible services such as MinIO or R2
+  publicBaseUrl?: string; // e.g. a CDN in front of the bucket
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+}
+
+// Amazon S3 or any service that speaks its API
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+
+  constructor(private options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      ...(options.endpoint && { endpoint: options.endpoint, forcePathStyle: true }),
+      ...(options.credentials && { credentials: options.credentials })
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Keys are never reused, so files can be cached for good
+      CacheControl: 'public, max-age=31536000, immutable'
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    if (this.options.publicBaseUrl) {
+      return `${this.options.publicBaseUrl.replace(/\/+$/, '')}/${key}`;
+    }
+    if (this.options.endpoint) {
+      return `${this.options.endpoint.replace(/\/+$/, '')}/${this.options.bucket}/${key}`;
+    }
+    return `https://${this.options.bucket}.s3.${this.options.region}.amazonaws.com/${key}`;
+  }
+}
+
+// STORAGE_DRIVER=s3 stores uploads in AWS_S3_BUCKET; anything else keeps them on local disk
+const createDefaultStorage = (): StorageDriver => {
+  const bucket = process.env['AWS_S3_BUCKET'];
+
+  if (process.env['STORAGE_DRIVER'] !== 's3' || !bucket) {
+    return new LocalStorageDriver(path.join(__dirname, '../../uploads'));
+  }
+
+  const accessKeyId = process.env['AWS_ACCESS_KEY_ID'];
+  const secretAccessKey = process.env['AWS_SECRET_ACCESS_KEY'];
+
+  return new S3StorageDriver({
+    bucket,
+    region: process.env['AWS_REGION'] || 'us-east-1',
+    ...(process.env['AWS_S3_ENDPOINT'] && { endpoint: process.env['AWS_S3_ENDPOINT'] }),
+    ...(process.env['CDN_BASE_URL'] && { publicBaseUrl: process.env['CDN_BASE_URL'] }),
+    ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } })
+  });
+};
+
+let storage: StorageDriver | null = null;
+
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    storage = createDefaultStorage();
+  }
+  return storage;
+};
+
+export const setStorage = (next: StorageDriver): void => {
+  storage = next;
+};
\ No newline at end of file
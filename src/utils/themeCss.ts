@@ -0,0 +1,371 @@
+import { ValidationError } from './errors';
+import { validateHexColor } from './validation';
+import { ThemeBackground, ThemeSettings } from '../types';
+
+export const MAX_CUSTOM_CSS_LENGTH = 10000;
+
+export const THEME_FONTS: Record<string, string> = {
+  system: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+  serif: 'Georgia, Cambria, "Times New Roman", Times, serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Consolas, "Liberation Mono", monospace',
+  rounded: 'ui-rounded, "SF Pro Rounded", "Nunito", "Varela Round", sans-serif'
+};
+
+export const BUTTON_SHAPES: Record<string, string> = {
+  square: '0',
+  rounded: '0.5rem',
+  pill: '9999px'
+};
+
+export const BUTTON_STYLES = ['solid', 'outline', 'glass'];
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  font: 'system',
+  buttonShape: 'rounded',
+  buttonStyle: 'glass',
+  background: { type: 'gradient', from: '#667eea', to: '#764ba2', angle: 135 },
+  textColor: '#ffffff',
+  buttonColor: '#ffffff',
+  buttonTextColor: '#ffffff'
+};
+
+// Properties that run code or load behaviour in some browsers
+const FORBIDDEN_PROPERTIES = ['behavior', '-moz-binding', '-ms-behavior'];
+
+// Functions that execute script or fetch resources without going through url()
+const FORBIDDEN_VALUES = [/expression\s*\(/i, /javascript\s*:/i, /vbscript\s*:/i, /image-set\s*\(/i, /\bsrc\s*\(/i];
+
+const PROPERTY = /^(--[a-z0-9-]+|-?[a-z][a-z-]*)$/;
+
+// Images may come from this app's uploads or the configured CDN, never from other hosts
+export const isAllowedAssetUrl = (url: string): boolean => {
+  if (/["'()\s\\]/.test(url)) {
+    return false;
+  }
+
+  if (url.startsWith('/uploads/')) {
+    return !url.split('/').includes('..');
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const allowedOrigins = [process.env['APP_URL'], process.env['CDN_BASE_URL']]
+    .filter((origin): origin is string => !!origin)
+    .map(origin => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        return null;
+      }
+    });
+
+  return parsed.protocol === 'https:' && allowedOrigins.includes(parsed.origin);
+};
+
+const fail = (message: string): never => {
+  throw new ValidationError(message, 'customCss');
+};
+
+// Every url() must point at an allowed asset
+const checkUrls = (value: string): void => {
+  const pattern = /url\s*\(\s*(['"]?)([^'")]*)\1\s*\)/gi;
+  const calls = value.match(/url\s*\(/gi)?.length || 0;
+  let checked = 0;
+
+  for (const match of value.matchAll(pattern)) {
+    checked += 1;
+    if (!isAllowedAssetUrl(match[2] || '')) {
+      fail(`url(${match[2]}) is not allowed; images must be uploaded to LinkHub`);
+    }
+  }
+
+  // A url( the pattern couldn't read is malformed or trying to hide something
+  if (checked !== calls) {
+    fail('Malformed url() in custom CSS');
+  }
+};
+
+const sanitizeDeclaration = (declaration: string): string | null => {
+  const colon = declaration.indexOf(':');
+  if (colon === -1) {
+    return declaration.trim() ? fail(`Expected "property: value" but found "${declaration.trim()}"`) : null;
+  }
+
+  const property = declaration.slice(0, colon).trim().toLowerCase();
+  const value = declaration.slice(colon + 1).trim();
+
+  if (!PROPERTY.test(property)) {
+    fail(`"${property}" is not a valid CSS property`);
+  }
+  if (FORBIDDEN_PROPERTIES.includes(property)) {
+    fail(`The ${property} property is not allowed`);
+  }
+  if (!value) {
+    fail(`${property} needs a value`);
+  }
+  if (FORBIDDEN_VALUES.some(pattern => pattern.test(value))) {
+    fail(`The value of ${property} is not allowed`);
+  }
+
+  checkUrls(value);
+
+  return `${property}: ${value};`;
+};
+
+// Keep rules inside the page: .bio-page stays, body/html/:root become .bio-page, anything else goes under it
+const scopeSelector = (selector: string): string => {
+  const trimmed = selector.trim().replace(/\s+/g, ' ');
+
+  if (!trimmed || /[{};@]/.test(trimmed)) {
+    fail(`"${trimmed}" is not a valid selector`);
+  }
+
+  if (/^(html|body|:root)$/i.test(trimmed)) {
+    return '.bio-page';
+  }
+
+  if (/^\.bio-page(?![\w-])/.test(trimmed)) {
+    return trimmed;
+  }
+
+  return `.bio-page ${trimmed}`;
+};
+
+// Split at a separator that isn't inside quotes or parentheses
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  if (quote || depth !== 0) {
+    fail('Unbalanced quotes or parentheses in custom CSS');
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+};
+
+// Index of the brace closing the block opened just before `from`
+const findBlockEnd = (css: string, from: number): number => {
+  let depth = 1;
+  let quote: string | null = null;
+
+  for (let i = from; i < css.length; i++) {
+    const char = css[i];
+
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth -= 1;
+      if (depth === 0) return i;
+    }
+  }
+
+  return fail('Unclosed { in custom CSS');
+};
+
+const sanitizeRules = (css: string, allowMedia: boolean): string[] => {
+  const output: string[] = [];
+  let position = 0;
+
+  while (position < css.length) {
+    const open = css.indexOf('{', position);
+
+    if (open === -1) {
+      if (css.slice(position).trim()) {
+        fail('Unexpected text after the last rule in custom CSS');
+      }
+      break;
+    }
+
+    const prelude = css.slice(position, open).trim();
+    const close = findBlockEnd(css, open + 1);
+    const body = css.slice(open + 1, close);
+
+    if (prelude.includes('}')) {
+      fail('Unexpected } in custom CSS');
+    }
+
+    if (prelude.startsWith('@')) {
+      const media = prelude.match(/^@media\s+([a-z0-9\s:(),.-]+)$/i);
+      if (!media || !allowMedia) {
+        fail(`${prelude.split(/[\s(]/)[0]} rules are not allowed; only @media is`);
+      }
+      output.push(`@media ${(media as RegExpMatchArray)[1]?.trim()} {\n${sanitizeRules(body, false).map(rule => `  ${rule}`).join('\n')}\n}`);
+    } else {
+      if (body.includes('{')) {
+        fail('Nested rules are not allowed in custom CSS');
+      }
+
+      const selectors = splitTopLevel(prelude, ',').map(scopeSelector);
+      const declarations = splitTopLevel(body, ';')
+        .map(sanitizeDeclaration)
+        .filter((declaration): declaration is string => declaration !== null);
+
+      if (declarations.length > 0) {
+        output.push(`${selectors.join(', ')} { ${declarations.join(' ')} }`);
+      }
+    }
+
+    position = close + 1;
+  }
+
+  return output;
+};
+
+// Check raw CSS and rebuild it from what passed, every selector scoped to .bio-page.
+// No at-rules other than @media, no escapes (which could hide anything), no markup,
+// no script-running values and no url() to other hosts.
+export const sanitizeThemeCss = (css: string): string => {
+  if (typeof css !== 'string') {
+    fail('Custom CSS must be a string');
+  }
+  if (css.length > MAX_CUSTOM_CSS_LENGTH) {
+    fail(`Custom CSS must be at most ${MAX_CUSTOM_CSS_LENGTH} characters`);
+  }
+
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  if (withoutComments.includes('/*')) {
+    fail('Unclosed comment in custom CSS');
+  }
+  if (withoutComments.includes('\\')) {
+    fail('Escapes are not allowed in custom CSS');
+  }
+
+  // Nothing in a stylesheet needs <, and it's how markup would get in
+  if (withoutComments.includes('<')) {
+    fail('Markup is not allowed in custom CSS');
+  }
+
+  return sanitizeRules(withoutComments, true).join('\n');
+};
+
+const color = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !validateHexColor(value)) {
+    throw new ValidationError(`${field} must be a hex color`, `settings.${field}`);
+  }
+  return value;
+};
+
+const normalizeBackground = (value: unknown): ThemeBackground => {
+  const background = (value || {}) as Record<string, unknown>;
+
+  switch (background['type']) {
+    case 'solid':
+      return { type: 'solid', color: color(background['color'], 'background.color') };
+    case 'gradient': {
+      const angle = background['angle'] === undefined ? 135 : Number(background['angle']);
+      if (!Number.isInteger(angle) || angle < 0 || angle > 360) {
+        throw new ValidationError('background.angle must be a whole number of degrees from 0 to 360', 'settings.background.angle');
+      }
+      return {
+        type: 'gradient',
+        from: color(background['from'], 'background.from'),
+        to: color(background['to'], 'background.to'),
+        angle
+      };
+    }
+    case 'image': {
+      const url = background['url'];
+      if (typeof url !== 'string' || !isAllowedAssetUrl(url)) {
+        throw new ValidationError('background.url must be an image uploaded to LinkHub', 'settings.background.url');
+      }
+      return { type: 'image', url, color: color(background['color'] ?? '#111827', 'background.color') };
+    }
+    default:
+      throw new ValidationError('background.type must be one of: solid, gradient, image', 'settings.background.type');
+  }
+};
+
+// Own keys only, so names inherited from Object.prototype such as "constructor" aren't options
+const isOption = (table: Record<string, string>, key: unknown): boolean =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+// Builder settings with defaults for anything missing
+export const normalizeThemeSettings = (input: unknown): ThemeSettings => {
+  if (input !== undefined && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+    throw new ValidationError('Settings must be an object', 'settings');
+  }
+
+  const settings = { ...DEFAULT_THEME_SETTINGS, ...(input as Partial<ThemeSettings> | undefined) };
+
+  if (!isOption(THEME_FONTS, settings.font)) {
+    throw new ValidationError(`font must be one of: ${Object.keys(THEME_FONTS).join(', ')}`, 'settings.font');
+  }
+  if (!isOption(BUTTON_SHAPES, settings.buttonShape)) {
+    throw new ValidationError(`buttonShape must be one of: ${Object.keys(BUTTON_SHAPES).join(', ')}`, 'settings.buttonShape');
+  }
+  if (!BUTTON_STYLES.includes(settings.buttonStyle)) {
+    throw new ValidationError(`buttonStyle must be one of: ${BUTTON_STYLES.join(', ')}`, 'settings.buttonStyle');
+  }
+
+  return {
+    font: settings.font,
+    buttonShape: settings.buttonShape,
+    buttonStyle: settings.buttonStyle,
+    background: normalizeBackground(settings.background),
+    textColor: color(settings.textColor, 'textColor'),
+    buttonColor: color(settings.buttonColor, 'buttonColor'),
+    buttonTextColor: color(settings.buttonTextColor, 'buttonTextColor')
+  };
+};
+
+const renderBackground = (background: ThemeBackground): string => {
+  switch (background.type) {
+    case 'solid':
+      return background.color;
+    case 'gradient':
+      return `linear-gradient(${background.angle}deg, ${background.from} 0%, ${background.to} 100%)`;
+    case 'image':
+      return `${background.color} url("${background.url}") center / cover no-repeat`;
+  }
+};
+
+// CSS for builder settings. body.bio-page outranks the page's Tailwind classes, as custom colors do.
+export const compileThemeSettings = (settings: ThemeSettings): string => {
+  const button = [
+    `border-radius: ${BUTTON_SHAPES[settings.buttonShape]};`,
+    `color: ${settings.buttonTextColor};`,
+    ...(settings.buttonStyle === 'solid' ? [`background: ${settings.buttonColor};`, `border-color: ${settings.buttonColor};`] : []),
+    ...(settings.buttonStyle === 'outline' ? ['background: transparent;', `border: 2px solid ${settings.buttonColor};`] : [])
+  ];
+
+  return [
+    `body.bio-page { background: ${renderBackground(settings.background)}; color: ${settings.textColor}; font-family: ${THEME_FONTS[settings.font]}; }`,
+    `body.bio-page .theme-text { color: ${settings.textColor}; }`,
+    `body.bio-page .bio-link { ${button.join(' ')} }`
+  ].join('\n');
+};
+
+// The stylesheet stored as the theme's cssTemplate
+export const buildThemeCss = (settings: ThemeSettings, customCss: string | null): string => {
+  return customCss ? `${compileThemeSettings(settings)}\n${customCss}` : compileThemeSettings(settings);
+};
\ No newline at end of file
@@ -0,0 +1,23 @@
+import prisma from '../config/database';
+
+interface VersionedTheme {
+  id: string;
+  version: number;
+  cssTemplate: string;
+  colorVariables: string;
+}
+
+// A theme with the styles of an earlier version, as pinned by a published revision; the latest if that version is gone
+export const withThemeVersion = async <T extends VersionedTheme>(theme: T, version: number): Promise<T> => {
+  if (version === theme.version) {
+    return theme;
+  }
+
+  const pinned = await prisma.themeVersion.findUnique({
+    where: { themeId_version: { themeId: theme.id, version } }
+  });
+
+  return pinned
+    ? { ...theme, cssTemplate: pinned.cssTemplate, colorVariables: pinned.colorVariables }
+    : theme;
+};
\ No newline at end of file
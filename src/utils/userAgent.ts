@@ -0,0 +1,97 @@
+export type OperatingSystem = 'ios' | 'android' | 'windows' | 'macos' | 'chromeos' | 'linux' | 'other';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+// In-app browsers are told apart from the engine they embed, since that's where creators' audiences come from
+export type BrowserFamily =
+  | 'chrome' | 'safari' | 'firefox' | 'edge' | 'opera' | 'samsung'
+  | 'instagram' | 'facebook' | 'tiktok' | 'snapchat' | 'other';
+
+export const OPERATING_SYSTEMS: OperatingSystem[] = ['ios', 'android', 'windows', 'macos', 'chromeos', 'linux', 'other'];
+export const DEVICE_TYPES: DeviceType[] = ['mobile', 'tablet', 'desktop'];
+export const BROWSER_FAMILIES: BrowserFamily[] = [
+  'chrome', 'safari', 'firefox', 'edge', 'opera', 'samsung', 'instagram', 'facebook', 'tiktok', 'snapchat', 'other'
+];
+
+export interface ParsedUserAgent {
+  os: OperatingSystem;
+  deviceType: DeviceType;
+  browser: BrowserFamily;
+  browserVersion: string | null; // major version only, e.g. "124"
+}
+
+// Checked in order: wrappers and forks name the engine they build on too (Edge says Chrome, Chrome says Safari)
+const BROWSER_PATTERNS: Array<[BrowserFamily, RegExp]> = [
+  ['instagram', /Instagram (\d+)/],
+  ['facebook', /(?:FBAN|FB_IAB|FBAV)(?:.*?FBAV\/(\d+))?/],
+  ['tiktok', /BytedanceWebview|musical_ly|TikTok/],
+  ['snapchat', /Snapchat\/(\d+)/],
+  ['edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+  ['opera', /OPR\/(\d+)|OPiOS\/(\d+)|Opera/],
+  ['samsung', /SamsungBrowser\/(\d+)/],
+  ['firefox', /Firefox\/(\d+)|FxiOS\/(\d+)/],
+  ['chrome', /Chrome\/(\d+)|CriOS\/(\d+)/],
+  ['safari', /Version\/(\d+)[^ ]* (?:Mobile\/\S+ )?Safari\//]
+];
+
+const detectBrowser = (userAgent: string): { browser: BrowserFamily; browserVersion: string | null } => {
+  for (const [browser, pattern] of BROWSER_PATTERNS) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      return { browser, browserVersion: match.slice(1).find(Boolean) || null };
+    }
+  }
+
+  return { browser: 'other', browserVersion: null };
+};
+
+const detectOs = (userAgent: string): OperatingSystem => {
+  // iPadOS reports a Mac user agent but keeps the "Mobile/" token
+  if (/iPhone|iPad|iPod/.test(userAgent) || (/Macintosh/.test(userAgent) && /Mobile\//.test(userAgent))) {
+    return 'ios';
+  }
+  if (/Android/.test(userAgent)) {
+    return 'android';
+  }
+  if (/Windows Phone/.test(userAgent)) {
+    return 'other';
+  }
+  if (/Windows/.test(userAgent)) {
+    return 'windows';
+  }
+  if (/CrOS/.test(userAgent)) {
+    return 'chromeos';
+  }
+  if (/Macintosh|Mac OS X/.test(userAgent)) {
+    return 'macos';
+  }
+  if (/Linux|X11/.test(userAgent)) {
+    return 'linux';
+  }
+  return 'other';
+};
+
+const detectDeviceType = (userAgent: string, os: OperatingSystem): DeviceType => {
+  if (/iPad|Tablet|Kindle|Silk/.test(userAgent) || (os === 'ios' && /Macintosh/.test(userAgent))) {
+    return 'tablet';
+  }
+  // Android tablets omit the "Mobile" token
+  if (os === 'android') {
+    return /Mobile/.test(userAgent) ? 'mobile' : 'tablet';
+  }
+  if (/Mobi|iPhone|iPod|Windows Phone|BlackBerry|Opera Mini/.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+};
+
+export const parseUserAgent = (userAgent: string | null | undefined): ParsedUserAgent => {
+  const ua = userAgent || '';
+  const os = detectOs(ua);
+
+  return {
+    os,
+    deviceType: detectDeviceType(ua, os),
+    ...detectBrowser(ua)
+  };
+};
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { ValidationError } from './errors';
+import { ThemeColors } from '../types';
 
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -34,6 +35,19 @@ export const validatePassword = (password: string): { isValid: boolean; errors:
   };
 };
 
+// Names that can't be claimed as usernames or short link slugs
+export const RESERVED_NAMES = [
+  'api', 'www', 'admin', 'root', 'support', 'help', 'about', 'contact',
+  'privacy', 'terms', 'blog', 'news', 'app', 'mail', 'ftp', 'cdn',
+  'assets', 'static', 'uploads', 'download', 'login', 'register',
+  'signup', 'signin', 'logout', 'dashboard', 'profile', 'settings',
+  'account', 'billing', 'subscription', 'premium', 'pro', 'plus',
+];
+
+export const isReservedName = (name: string): boolean => {
+  return RESERVED_NAMES.includes(name.toLowerCase());
+};
+
 export const validateUsername = (username: string): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
@@ -58,15 +72,7 @@ export const validateUsername = (username: string): { isValid: boolean; errors:
   }
   
   // Reserved usernames
-  const reserved = [
-    'api', 'www', 'admin', 'root', 'support', 'help', 'about', 'contact',
-    'privacy', 'terms', 'blog', 'news', 'app', 'mail', 'ftp', 'cdn',
-    'assets', 'static', 'uploads', 'download', 'login', 'register',
-    'signup', 'signin', 'logout', 'dashboard', 'profile', 'settings',
-    'account', 'billing', 'subscription', 'premium', 'pro', 'plus',
-  ];
-  
-  if (reserved.includes(username.toLowerCase())) {
+  if (isReservedName(username)) {
     errors.push('This username is reserved and cannot be used');
   }
   
@@ -90,6 +96,25 @@ export const validateHexColor = (color: string): boolean => {
   return hexColorRegex.test(color);
 };
 
+// The colors a page can customize, and a theme can let it
+export const THEME_COLOR_KEYS: Array<keyof ThemeColors> = ['primary', 'secondary', 'background', 'text'];
+
+// A full set of hex custom colors; colors saved before they were validated may be partial or named ("red")
+export const hasHexColors = (colors: unknown): colors is ThemeColors => {
+  if (typeof colors !== 'object' || colors === null) {
+    return false;
+  }
+
+  const values = colors as Record<string, unknown>;
+  return THEME_COLOR_KEYS.every(key => typeof values[key] === 'string' && validateHexColor(values[key] as string));
+};
+
+// ISO 8601 timestamp with an explicit time zone, e.g. 2026-05-01T00:00:00+02:00
+export const validateTimestampWithZone = (value: string): boolean => {
+  const timestampRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+  return timestampRegex.test(value) && !isNaN(new Date(value).getTime());
+};
+
 export const sanitizeString = (str: string, maxLength: number = 255): string => {
   return str.trim().substring(0, maxLength);
 };
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+export interface WeightedVariant {
+  id: string;
+  weight: number;
+}
+
+// Deterministic bucket in [0, 1) for a visitor, so a visitor keeps seeing the same variant
+const visitorBucket = (visitorIpHash: string, linkId: string): number => {
+  const digest = crypto.createHash('sha256').update(`${visitorIpHash}:${linkId}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+};
+
+// Pick a variant by traffic weight, sticky per visitor; null when none are running
+export const pickVariant = <T extends WeightedVariant>(variants: T[], visitorIpHash: string, linkId: string): T | null => {
+  const running = variants.filter(variant => variant.weight > 0);
+  const totalWeight = running.reduce((sum, variant) => sum + variant.weight, 0);
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  let remaining = visitorBucket(visitorIpHash, linkId) * totalWeight;
+  for (const variant of running) {
+    remaining -= variant.weight;
+    if (remaining < 0) {
+      return variant;
+    }
+  }
+
+  return running[running.length - 1] || null;
+};
+
+// Serve a link as the given visitor sees it, without exposing the experiment setup
+export const applyVariant = <T extends { id: string; title: string; url: string; variants: Array<WeightedVariant & { title: string | null; url: string | null }> }>(
+  link: T,
+  visitorIpHash: string
+): Omit<T, 'variants'> & { variantId: string | null } => {
+  const { variants, ...rest } = link;
+  const variant = pickVariant(variants, visitorIpHash, link.id);
+
+  return {
+    ...rest,
+    title: variant?.title || link.title,
+    url: variant?.url || link.url,
+    variantId: variant?.id || null
+  };
+};
+
+export type SignificanceLevel = 'control' | 'significant' | 'not_significant' | 'insufficient_data';
+
+// Minimum impressions per arm before we report a result either way
+const MIN_SAMPLE_SIZE = 30;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * Math.exp(-(z * z) / 2) *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Two-proportion z-test of a candidate's CTR against the control's
+export const compareConversionRates = (
+  control: { impressions: number; conversions: number },
+  candidate: { impressions: number; conversions: number }
+): { zScore: number | null; pValue: number | null; significance: SignificanceLevel } => {
+  if (control.impressions < MIN_SAMPLE_SIZE || candidate.impressions < MIN_SAMPLE_SIZE) {
+    return { zScore: null, pValue: null, significance: 'insufficient_data' };
+  }
+
+  const controlRate = control.conversions / control.impressions;
+  const candidateRate = candidate.conversions / candidate.impressions;
+  const pooled = (control.conversions + candidate.conversions) / (control.impressions + candidate.impressions);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.impressions + 1 / candidate.impressions));
+
+  if (standardError === 0) {
+    return { zScore: 0, pValue: 1, significance: 'not_significant' };
+  }
+
+  const zScore = (candidateRate - controlRate) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(zScore)));
+
+  return {
+    zScore,
+    pValue,
+    significance: pValue < 0.05 ? 'significant' : 'not_significant'
+  };
+};
\ No newline at end of file